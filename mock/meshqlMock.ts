@@ -0,0 +1,445 @@
+// Vite plugin serving a mock meshQL backend under /mock, for offline demos
+// and browser tests. REST endpoints answer from the recorded fixtures; the
+// /mock/ws stream pushes synthesized traffic.
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Duplex } from 'node:stream';
+import type { Plugin, PreviewServer, ViteDevServer } from 'vite';
+import type {
+  Node,
+  Packet,
+  Stats,
+  ChatMessage,
+  NodeGraphEdge,
+  TopGateway,
+  NodeNeighbor,
+  Edge
+} from '../src/types';
+import { acceptWebSocket } from './socket';
+import type { MockSocket } from './socket';
+import { loadStore, parseNodeId, formatNodeId } from './store';
+import type { MockPacket, MockStore } from './store';
+import { TrafficSynthesizer } from './traffic';
+
+export const MOCK_PREFIX = '/mock';
+
+// Synthesized packets beyond this are dropped, oldest first
+const MAX_PACKETS = 5000;
+
+export interface MeshqlMockOptions {
+  // Milliseconds between synthesized packets; 0 turns the generator off
+  trafficInterval?: number;
+}
+
+type Query = URLSearchParams;
+
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+function numberParam(query: Query, key: string): number | undefined {
+  const value = query.get(key);
+  if (value === null || value === '') return undefined;
+  const num = Number(value);
+  if (isNaN(num)) throw new HttpError(400, `Invalid ${key}`);
+  return num;
+}
+
+function boolParam(query: Query, key: string): boolean {
+  return query.get(key) === 'true';
+}
+
+// Cutoff time (ms) from `since` or `days_active`, whichever is given
+function cutoffParam(query: Query): number | undefined {
+  const since = query.get('since');
+  if (since) return Date.parse(since);
+  const days = numberParam(query, 'days_active');
+  return days ? Date.now() - days * 24 * 60 * 60 * 1000 : undefined;
+}
+
+function countBy<T>(items: T[], keyOf: (item: T) => string): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const item of items) {
+    const key = keyOf(item);
+    counts[key] = (counts[key] || 0) + 1;
+  }
+  return counts;
+}
+
+function isDirect(packet: MockPacket, hopLimit?: number): boolean {
+  return packet.hop_start !== undefined && hopLimit !== undefined && packet.hop_start === hopLimit;
+}
+
+function filterPackets(store: MockStore, query: Query): MockPacket[] {
+  const cutoff = cutoffParam(query);
+  const before = query.get('before') ? Date.parse(query.get('before')!) : undefined;
+  const channel = query.get('channel');
+  const portnum = numberParam(query, 'portnum');
+  const nodeId = query.get('node_id');
+  const gatewayId = query.get('gateway_id');
+  // Like the real API, node_id matches packets from or to the node
+  const node = nodeId ? parseNodeId(nodeId) : null;
+  const gatewayNode = gatewayId ? parseNodeId(gatewayId) : null;
+
+  return store.packets.filter(p =>
+    (cutoff === undefined || Date.parse(p.import_time) >= cutoff) &&
+    (before === undefined || Date.parse(p.import_time) < before) &&
+    (!channel || p.channel === channel) &&
+    (portnum === undefined || p.portnum === portnum) &&
+    (node === null || p.from_node_id === node || p.to_node_id === node) &&
+    (gatewayNode === null || (p.gateways || []).some(g => g.node_id === gatewayNode))
+  );
+}
+
+// List and stream shape of a packet, without per-gateway reception details
+function summarizePacket(packet: MockPacket): Packet {
+  return {
+    id: packet.id,
+    from_id: packet.from_id,
+    to_id: packet.to_id,
+    from_node_id: packet.from_node_id,
+    to_node_id: packet.to_node_id,
+    channel: packet.channel,
+    portnum: packet.portnum,
+    timestamp: packet.timestamp,
+    import_time: packet.import_time,
+    rx_time: packet.rx_time,
+    payload: packet.payload,
+    payload_hex: packet.payload_hex,
+  };
+}
+
+function toListPacket(packet: MockPacket, query: Query): Packet {
+  const result = summarizePacket(packet);
+  if (query.get('decode_payload') === 'false') {
+    result.payload = packet.payload_hex || '';
+  }
+  if (boolParam(query, 'includeGatewayCount')) {
+    result.gateway_count = (packet.gateways || []).length;
+  }
+  return result;
+}
+
+function getNodes(store: MockStore, query: Query): { nodes: Node[] } {
+  const role = query.get('role');
+  const channel = query.get('channel');
+  const hwModel = query.get('hw_model');
+  const hasLocation = boolParam(query, 'hasLocation');
+  const cutoff = cutoffParam(query);
+  const limit = numberParam(query, 'limit') ?? 100;
+
+  const nodes = store.nodes.filter(n =>
+    (!role || n.role === role) &&
+    (!channel || n.channel === channel) &&
+    (!hwModel || n.hw_model === hwModel) &&
+    (!hasLocation || (n.last_lat !== null && n.last_long !== null)) &&
+    (cutoff === undefined || Date.parse(n.last_update) >= cutoff)
+  );
+  return { nodes: nodes.slice(0, limit) };
+}
+
+function getStats(store: MockStore, query: Query): Stats {
+  const channel = query.get('channel');
+  const cutoff = cutoffParam(query);
+  const nodes = store.nodes.filter(n =>
+    (!channel || n.channel === channel) &&
+    (cutoff === undefined || Date.parse(n.last_update) >= cutoff)
+  );
+  const packets = filterPackets(store, query);
+
+  return {
+    nodes: nodes.length,
+    packets: packets.length,
+    packet_seen_records: packets.reduce((sum, p) => sum + (p.gateways || []).length, 0),
+    traceroutes: packets.filter(p => p.portnum === 70).length,
+    packets_by_portnum: countBy(packets, p => String(p.portnum)),
+    nodes_by_role: countBy(nodes, n => n.role),
+    nodes_by_hardware: countBy(nodes, n => n.hw_model),
+    // Channel counts ignore the channel filter so the selector can list them all
+    nodes_by_channel: countBy(store.nodes, n => n.channel),
+  };
+}
+
+function getPackets(store: MockStore, query: Query): { packets: Packet[] } {
+  const limit = numberParam(query, 'limit') ?? 100;
+  return { packets: filterPackets(store, query).slice(0, limit).map(p => toListPacket(p, query)) };
+}
+
+function getPacketDetail(store: MockStore, packetId: number, query: Query): MockPacket {
+  const packet = store.packets.find(p => p.id === packetId);
+  if (!packet) throw new HttpError(404, 'Packet not found');
+
+  const gatewayLimit = numberParam(query, 'gatewayLimit') ?? 100;
+  return {
+    ...packet,
+    gateways: boolParam(query, 'includeGateways') ? (packet.gateways || []).slice(0, gatewayLimit) : undefined,
+  };
+}
+
+function getChat(store: MockStore, query: Query): { packets: ChatMessage[] } {
+  const limit = numberParam(query, 'limit') ?? 100;
+  const chatQuery = new URLSearchParams(query);
+  chatQuery.set('portnum', '1');
+  const packets = filterPackets(store, chatQuery).slice(0, limit).map(p => ({
+    id: p.id,
+    from_node_id: p.from_node_id,
+    to_node_id: p.to_node_id,
+    channel: p.channel,
+    portnum: p.portnum,
+    import_time: p.import_time,
+    payload: p.payload,
+    payload_hex: p.payload_hex,
+    gateway_count: (p.gateways || []).length,
+  }));
+  return { packets };
+}
+
+function getTraceroutes(store: MockStore, packetId: number) {
+  const traceroutes = store.traceroutes.filter(t => t.packet_id === packetId);
+  if (traceroutes.length === 0) throw new HttpError(404, 'Traceroute not found');
+  return { packet_id: packetId, traceroutes };
+}
+
+// Direct (zero-hop) receptions between a sender and a gateway
+function directLinks(packets: MockPacket[]): Map<string, NodeGraphEdge> {
+  const links = new Map<string, NodeGraphEdge>();
+  for (const packet of packets) {
+    for (const gw of packet.gateways || []) {
+      if (!isDirect(packet, gw.hop_limit) || gw.node_id === packet.from_node_id) continue;
+      const key = `${packet.from_node_id}-${gw.node_id}`;
+      const link = links.get(key) || { source: packet.from_node_id, target: gw.node_id, packet_count: 0 };
+      link.packet_count++;
+      links.set(key, link);
+    }
+  }
+  return links;
+}
+
+function getNodeGraph(store: MockStore, query: Query) {
+  const channel = query.get('channel') || '';
+  const hours = numberParam(query, 'hours') ?? 24;
+  const withLocation = boolParam(query, 'with_location');
+  const graphQuery = new URLSearchParams({ since: new Date(Date.now() - hours * 60 * 60 * 1000).toISOString() });
+  if (channel) graphQuery.set('channel', channel);
+
+  const located = new Set(store.nodes.filter(n => n.last_lat !== null && n.last_long !== null).map(n => n.node_id));
+  const edges = Array.from(directLinks(filterPackets(store, graphQuery)).values())
+    .filter(e => !withLocation || (located.has(e.source) && located.has(e.target)));
+  const nodeIds = new Set(edges.flatMap(e => [e.source, e.target]));
+
+  return {
+    edges,
+    metadata: {
+      channel: channel || null,
+      with_location: withLocation,
+      hours,
+      node_count: nodeIds.size,
+      edge_count: edges.length,
+      generated_at: new Date().toISOString(),
+    },
+  };
+}
+
+function getEdges(store: MockStore, query: Query): { edges: Edge[] } {
+  const edges: Edge[] = [];
+  for (const packet of filterPackets(store, query)) {
+    if (packet.portnum !== 71 || typeof packet.payload !== 'object') continue;
+    const neighbors = (packet.payload.neighbors || []) as Array<{ node_id: number; snr?: number }>;
+    for (const neighbor of neighbors) {
+      edges.push({
+        source: formatNodeId(packet.from_node_id),
+        target: formatNodeId(neighbor.node_id),
+        type: 'neighbor',
+        snr: neighbor.snr,
+        timestamp: packet.import_time,
+      });
+    }
+  }
+  return { edges };
+}
+
+function getTopGateways(store: MockStore, query: Query): { gateways: TopGateway[] } {
+  const limit = numberParam(query, 'limit') ?? 25;
+  const directOnly = boolParam(query, 'direct_only');
+  const counts = new Map<number, number>();
+
+  for (const packet of filterPackets(store, query)) {
+    for (const gw of packet.gateways || []) {
+      if (directOnly && !isDirect(packet, gw.hop_limit)) continue;
+      counts.set(gw.node_id, (counts.get(gw.node_id) || 0) + 1);
+    }
+  }
+
+  const gateways = Array.from(counts.entries())
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, limit)
+    .flatMap(([nodeId, packetCount]) => {
+      const node = store.nodes.find(n => n.node_id === nodeId);
+      if (!node) return [];
+      return [{
+        node_id: nodeId,
+        packet_count: packetCount,
+        id: node.id,
+        long_name: node.long_name,
+        short_name: node.short_name,
+        hw_model: node.hw_model,
+        role: node.role,
+      }];
+    });
+  return { gateways };
+}
+
+function getTopRelays(store: MockStore, query: Query): { relay_nodes: NodeNeighbor[] } {
+  const limit = numberParam(query, 'limit') ?? 10;
+  const counts = new Map<number, number>();
+  for (const packet of filterPackets(store, query)) {
+    for (const gw of packet.gateways || []) {
+      if (gw.relay_node === undefined) continue;
+      counts.set(gw.relay_node, (counts.get(gw.relay_node) || 0) + 1);
+    }
+  }
+  const relayNodes = Array.from(counts.entries())
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, limit)
+    .map(([nodeId, packetCount]) => ({ node_id: nodeId, packet_count: packetCount }));
+  return { relay_nodes: relayNodes };
+}
+
+function getNeighbors(store: MockStore, nodeId: number) {
+  const links = Array.from(directLinks(store.packets).values());
+  return {
+    node_id: nodeId,
+    heard_by: links.filter(l => l.source === nodeId).map(l => ({ node_id: l.target, packet_count: l.packet_count })),
+    heard_from: links.filter(l => l.target === nodeId).map(l => ({ node_id: l.source, packet_count: l.packet_count })),
+  };
+}
+
+function route(store: MockStore, path: string, query: Query): unknown {
+  let match: RegExpMatchArray | null;
+
+  if (path === '/api/nodes') return getNodes(store, query);
+  if (path === '/api/stats') return getStats(store, query);
+  if (path === '/api/packets') return getPackets(store, query);
+  if (path === '/api/chat') return getChat(store, query);
+  if (path === '/api/edges') return getEdges(store, query);
+  if (path === '/api/nodegraph') return getNodeGraph(store, query);
+  if (path === '/api/gateways/top') return getTopGateways(store, query);
+  if (path === '/api/relaynodes/top') return getTopRelays(store, query);
+  if ((match = path.match(/^\/api\/packets\/(\d+)$/))) return getPacketDetail(store, Number(match[1]), query);
+  if ((match = path.match(/^\/api\/traceroutes\/(\d+)$/))) return getTraceroutes(store, Number(match[1]));
+  if ((match = path.match(/^\/api\/nodes\/([^/]+)\/neighbors$/))) {
+    const nodeId = parseNodeId(decodeURIComponent(match[1]));
+    if (nodeId === null) throw new HttpError(400, 'Invalid node id');
+    return getNeighbors(store, nodeId);
+  }
+  throw new HttpError(404, 'Not found');
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+}
+
+// Server-side stream filters, matching the query parameters of the real /ws
+function socketWants(socket: MockSocket, packet: MockPacket): boolean {
+  const channel = socket.query.get('channel');
+  const portnum = socket.query.get('portnum');
+  const fromNode = socket.query.get('from_node_id');
+  return (!channel || packet.channel === channel) &&
+    (!portnum || packet.portnum === Number(portnum)) &&
+    (!fromNode || packet.from_node_id === Number(fromNode));
+}
+
+export function meshqlMock(options: MeshqlMockOptions = {}): Plugin {
+  const trafficInterval = options.trafficInterval ?? 5000;
+  let store: MockStore | null = null;
+  let synthesizer: TrafficSynthesizer | null = null;
+  let trafficTimer: ReturnType<typeof setInterval> | null = null;
+  const sockets = new Set<MockSocket>();
+
+  const getStore = (): MockStore => {
+    if (!store) {
+      store = loadStore();
+      synthesizer = new TrafficSynthesizer(store);
+    }
+    return store;
+  };
+
+  const emitTraffic = () => {
+    const mockStore = getStore();
+    const { packet, nodeUpdate } = synthesizer!.next();
+    mockStore.packets.unshift(packet);
+    mockStore.packets.length = Math.min(mockStore.packets.length, MAX_PACKETS);
+
+    if (nodeUpdate) {
+      const node = mockStore.nodes.find(n => n.node_id === nodeUpdate.node_id);
+      if (node) Object.assign(node, nodeUpdate);
+    }
+
+    for (const socket of sockets) {
+      if (!socketWants(socket, packet)) continue;
+      socket.send({ type: 'packet', ...summarizePacket(packet), gateway_count: (packet.gateways || []).length });
+      if (nodeUpdate) {
+        socket.send({ type: 'node', ...nodeUpdate });
+      }
+    }
+  };
+
+  const handleRequest = (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (!url.pathname.startsWith(`${MOCK_PREFIX}/api/`)) {
+      next();
+      return;
+    }
+
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    try {
+      sendJson(res, 200, route(getStore(), url.pathname.slice(MOCK_PREFIX.length), url.searchParams));
+    } catch (err) {
+      if (err instanceof HttpError) {
+        sendJson(res, err.status, { detail: err.message });
+      } else {
+        console.error('[meshql-mock] Error handling', url.pathname, err);
+        sendJson(res, 500, { detail: 'Internal error' });
+      }
+    }
+  };
+
+  const handleUpgrade = (req: IncomingMessage, rawSocket: Duplex) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname !== `${MOCK_PREFIX}/ws`) return;
+
+    const socket = acceptWebSocket(req, rawSocket);
+    if (!socket) return;
+    getStore();
+    sockets.add(socket);
+    socket.onClose = () => sockets.delete(socket);
+    socket.send({ type: 'connected', filters: Object.fromEntries(socket.query) });
+
+    if (!trafficTimer && trafficInterval > 0) {
+      trafficTimer = setInterval(emitTraffic, trafficInterval);
+    }
+  };
+
+  const attach = (server: ViteDevServer | PreviewServer) => {
+    server.middlewares.use(handleRequest);
+    server.httpServer?.on('upgrade', handleUpgrade);
+    server.httpServer?.on('close', () => {
+      if (trafficTimer) clearInterval(trafficTimer);
+      trafficTimer = null;
+      sockets.forEach(socket => socket.close());
+    });
+  };
+
+  return {
+    name: 'meshql-mock',
+    configureServer: attach,
+    configurePreviewServer: attach,
+  };
+}
@@ -0,0 +1,95 @@
+// Minimal protobuf encoder used to give synthesized packets a realistic
+// payload_hex. Only the wire types Meshtastic payloads use are supported.
+
+export class ProtoWriter {
+  private bytes: number[] = [];
+
+  private varint(value: number | bigint) {
+    let v = BigInt.asUintN(64, BigInt(value));
+    while (v >= 0x80n) {
+      this.bytes.push(Number(v & 0x7fn) | 0x80);
+      v >>= 7n;
+    }
+    this.bytes.push(Number(v));
+  }
+
+  private key(field: number, wireType: number) {
+    this.varint((field << 3) | wireType);
+  }
+
+  uint(field: number, value: number): this {
+    this.key(field, 0);
+    this.varint(value);
+    return this;
+  }
+
+  int(field: number, value: number): this {
+    // Negative int32 values are sign-extended to 64 bits
+    return this.uint(field, value);
+  }
+
+  bool(field: number, value: boolean): this {
+    return this.uint(field, value ? 1 : 0);
+  }
+
+  fixed32(field: number, value: number): this {
+    this.key(field, 5);
+    const buf = Buffer.alloc(4);
+    buf.writeUInt32LE(value >>> 0);
+    this.bytes.push(...buf);
+    return this;
+  }
+
+  sfixed32(field: number, value: number): this {
+    this.key(field, 5);
+    const buf = Buffer.alloc(4);
+    buf.writeInt32LE(value);
+    this.bytes.push(...buf);
+    return this;
+  }
+
+  float(field: number, value: number): this {
+    this.key(field, 5);
+    const buf = Buffer.alloc(4);
+    buf.writeFloatLE(value);
+    this.bytes.push(...buf);
+    return this;
+  }
+
+  bytesField(field: number, value: Uint8Array): this {
+    this.key(field, 2);
+    this.varint(value.length);
+    this.bytes.push(...value);
+    return this;
+  }
+
+  string(field: number, value: string): this {
+    return this.bytesField(field, Buffer.from(value, 'utf8'));
+  }
+
+  message(field: number, writer: ProtoWriter): this {
+    return this.bytesField(field, writer.finish());
+  }
+
+  packedFixed32(field: number, values: number[]): this {
+    if (values.length === 0) return this;
+    const buf = Buffer.alloc(values.length * 4);
+    values.forEach((v, i) => buf.writeUInt32LE(v >>> 0, i * 4));
+    return this.bytesField(field, buf);
+  }
+
+  packedInt(field: number, values: number[]): this {
+    if (values.length === 0) return this;
+    const inner = new ProtoWriter();
+    values.forEach(v => inner.varint(v));
+    return this.bytesField(field, inner.finish());
+  }
+
+  finish(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+
+  toHex(): string {
+    return Buffer.from(this.bytes).toString('hex');
+  }
+}
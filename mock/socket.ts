@@ -0,0 +1,126 @@
+// Just enough of the WebSocket protocol (RFC 6455) to push JSON text frames
+// to the browser, so the mock doesn't need a WebSocket dependency.
+
+import { createHash } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  let header: Buffer;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  } else if (payload.length < 0x10000) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+export class MockSocket {
+  readonly query: URLSearchParams;
+  private socket: Duplex;
+  private buffer = Buffer.alloc(0);
+  private closed = false;
+  onClose: (() => void) | null = null;
+
+  constructor(socket: Duplex, query: URLSearchParams) {
+    this.socket = socket;
+    this.query = query;
+    socket.on('data', (chunk: Buffer) => this.receive(chunk));
+    socket.on('close', () => this.handleClose());
+    socket.on('error', () => this.handleClose());
+  }
+
+  send(data: unknown) {
+    if (this.closed) return;
+    this.socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(JSON.stringify(data), 'utf8')));
+  }
+
+  close() {
+    if (this.closed) return;
+    this.socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+    this.handleClose();
+  }
+
+  private handleClose() {
+    if (this.closed) return;
+    this.closed = true;
+    this.onClose?.();
+  }
+
+  // Client frames are always masked; we only act on control frames
+  private receive(chunk: Buffer) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    while (this.buffer.length >= 2) {
+      const opcode = this.buffer[0] & 0x0f;
+      const masked = (this.buffer[1] & 0x80) !== 0;
+      let length = this.buffer[1] & 0x7f;
+      let offset = 2;
+
+      if (length === 126) {
+        if (this.buffer.length < 4) return;
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) return;
+        length = Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+
+      const maskOffset = offset;
+      if (masked) offset += 4;
+      if (this.buffer.length < offset + length) return;
+
+      const payload = Buffer.from(this.buffer.subarray(offset, offset + length));
+      if (masked) {
+        for (let i = 0; i < payload.length; i++) {
+          payload[i] ^= this.buffer[maskOffset + (i % 4)];
+        }
+      }
+      this.buffer = this.buffer.subarray(offset + length);
+
+      if (opcode === OPCODE_CLOSE) {
+        this.close();
+        return;
+      }
+      if (opcode === OPCODE_PING) {
+        this.socket.write(encodeFrame(OPCODE_PONG, payload));
+      }
+    }
+  }
+}
+
+// Complete the upgrade handshake and wrap the raw socket
+export function acceptWebSocket(req: IncomingMessage, socket: Duplex): MockSocket | null {
+  const key = req.headers['sec-websocket-key'];
+  if (typeof key !== 'string') {
+    socket.destroy();
+    return null;
+  }
+
+  const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  const url = new URL(req.url || '/', 'http://localhost');
+  return new MockSocket(socket, url.searchParams);
+}
@@ -0,0 +1,66 @@
+// In-memory mesh state for the mock backend, seeded from the recorded
+// fixtures in ./fixtures and grown by the traffic synthesizer.
+
+import { readFileSync } from 'node:fs';
+import type { Node, PacketDetailResponse, TracerouteRecord } from '../src/types';
+
+export type MockPacket = PacketDetailResponse & {
+  from_id: string;
+  to_id: string;
+  timestamp: string;
+  rx_time: number;
+};
+
+export interface MockStore {
+  nodes: Node[];
+  packets: MockPacket[];
+  traceroutes: TracerouteRecord[];
+}
+
+function readFixture<T>(name: string): T {
+  const url = new URL(`./fixtures/${name}.json`, import.meta.url);
+  return JSON.parse(readFileSync(url, 'utf8')) as T;
+}
+
+function shiftIso(value: string, offset: number): string {
+  return new Date(Date.parse(value) + offset).toISOString();
+}
+
+// Fixtures were recorded at a fixed time. Shift everything so the newest
+// packet is a couple of minutes old, keeping "last N days" filters useful.
+export function loadStore(): MockStore {
+  const nodes = readFixture<Node[]>('nodes');
+  const packets = readFixture<MockPacket[]>('packets');
+  const traceroutes = readFixture<TracerouteRecord[]>('traceroutes');
+
+  const newest = Math.max(...packets.map(p => Date.parse(p.import_time)));
+  const offset = Date.now() - 2 * 60 * 1000 - newest;
+
+  for (const node of nodes) {
+    node.last_update = shiftIso(node.last_update, offset);
+  }
+  for (const packet of packets) {
+    packet.import_time = shiftIso(packet.import_time, offset);
+    packet.timestamp = packet.import_time;
+    packet.rx_time = Math.floor(Date.parse(packet.import_time) / 1000);
+  }
+  for (const traceroute of traceroutes) {
+    traceroute.import_time = shiftIso(traceroute.import_time, offset);
+  }
+
+  // Newest first, like the real API
+  packets.sort((a, b) => Date.parse(b.import_time) - Date.parse(a.import_time));
+  return { nodes, packets, traceroutes };
+}
+
+export function formatNodeId(nodeId: number): string {
+  return `!${(nodeId >>> 0).toString(16).padStart(8, '0')}`;
+}
+
+// Accepts "!a1b2c3d4", "a1b2c3d4" or a decimal node number
+export function parseNodeId(value: string): number | null {
+  const hex = value.startsWith('!') ? value.slice(1) : value;
+  if (/^[0-9a-f]{8}$/i.test(hex)) return parseInt(hex, 16);
+  const num = Number(value);
+  return Number.isInteger(num) ? num : null;
+}
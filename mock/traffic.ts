@@ -0,0 +1,376 @@
+// Synthesizes live mesh traffic for the mock backend: text messages, position
+// updates, telemetry, node info, waypoints, range tests, ACK/NAKs, paxcounts,
+// detection sensor events and ATAK positions from the fixture nodes, plus
+// encrypted text on a private channel.
+
+import { createCipheriv } from 'node:crypto';
+import type { Node, PacketGateway } from '../src/types';
+import { ProtoWriter } from './protobuf';
+import type { MockPacket, MockStore } from './store';
+
+const BROADCAST_NODE_ID = 0xffffffff;
+const GATEWAY_ROLES = ['ROUTER', 'ROUTER_LATE', 'CLIENT_BASE', 'CLIENT'];
+
+// Meshtastic HardwareModel / Role enum values for the fixture hardware
+const HW_MODEL_VALUES: Record<string, number> = {
+  TBEAM: 4, T_ECHO: 7, RAK4631: 9, STATION_G2: 31, HELTEC_V3: 43, HELTEC_WSL_V3: 44, TRACKER_T1000_E: 71,
+};
+const ROLE_VALUES: Record<string, number> = {
+  CLIENT: 0, CLIENT_MUTE: 1, ROUTER: 2, TRACKER: 5, SENSOR: 6, ROUTER_LATE: 11, CLIENT_BASE: 12,
+};
+
+// Private channel the mock backend "can't decrypt". Add this key in the
+// channel key dialog to read it in the browser.
+export const DEMO_PRIVATE_CHANNEL = { name: 'Ops', psk: 'b3BzLWRlbW8ta2V5LTEyMw==' };
+
+const MESSAGES = [
+  'Checking in from the demo mesh',
+  'Anyone hear me?',
+  'Copy, loud and clear',
+  'Heading out for a hike',
+  'Weather looks great up here',
+  '73!',
+];
+
+// Waypoints the demo nodes share and re-share; each is dropped near the sender
+const WAYPOINTS = [
+  { id: 1001, name: 'Trailhead', description: 'Meet here Saturday 9am', icon: 0x1f97e },
+  { id: 1002, name: 'Water', description: 'Spring, filter first', icon: 0x1f4a7 },
+  { id: 1003, name: 'Camp', description: '', icon: 0x26fa },
+  { id: 1004, name: 'Repeater site', description: 'Solar router, check battery', icon: 0x1f4e1 },
+];
+
+// ATAK users bridged through the first located nodes; team and role are
+// TAKPacket enum values (Cyan/TeamLead, Cyan/Medic, Green/TeamMember)
+const TAK_USERS = [
+  { callsign: 'SAR-LEAD', team: 10, role: 2 },
+  { callsign: 'MEDIC-1', team: 10, role: 5 },
+  { callsign: 'K9-ALPHA', team: 12, role: 1 },
+];
+const TAK_TEAM_NAMES: Record<number, string> = { 10: 'Cyan', 12: 'Green' };
+const TAK_ROLE_NAMES: Record<number, string> = { 1: 'TeamMember', 2: 'TeamLead', 5: 'Medic' };
+
+export interface SynthesizedTraffic {
+  packet: MockPacket;
+  // Node fields that changed as a result of the packet, if any
+  nodeUpdate?: Partial<Node> & { node_id: number };
+}
+
+function pick<T>(items: T[]): T {
+  return items[Math.floor(Math.random() * items.length)];
+}
+
+function randomBetween(min: number, max: number): number {
+  return min + Math.random() * (max - min);
+}
+
+export class TrafficSynthesizer {
+  private store: MockStore;
+  private nextPacketId: number;
+  private rangeTestSeq = 0;
+  // Where each TAK user has walked to, as an offset from their node
+  private takOffsets = TAK_USERS.map(() => ({ lat: 0, lng: 0 }));
+
+  constructor(store: MockStore) {
+    this.store = store;
+    this.nextPacketId = Math.max(0, ...store.packets.map(p => p.id)) + 1;
+  }
+
+  next(): SynthesizedTraffic {
+    const from = pick(this.store.nodes);
+    const kind = pick(['text', 'encrypted', 'position', 'telemetry', 'telemetry', 'nodeinfo', 'waypoint', 'rangetest', 'routing', 'paxcounter', 'detection', 'tak', 'mapreport']);
+
+    if (kind === 'position' && from.last_lat !== null && from.last_long !== null) {
+      return this.position(from);
+    }
+    if (kind === 'waypoint' && from.last_lat !== null && from.last_long !== null) {
+      return this.waypoint(from);
+    }
+    if (kind === 'rangetest') return this.rangeTest();
+    if (kind === 'routing') return this.routing(from);
+    if (kind === 'paxcounter') return this.paxcount();
+    if (kind === 'detection') return this.detection();
+    if (kind === 'tak') return this.takPli();
+    if (kind === 'mapreport') return this.mapReport(from);
+    if (kind === 'telemetry') return this.telemetry(from);
+    if (kind === 'nodeinfo') return this.nodeInfo(from);
+    if (kind === 'encrypted') return this.encryptedText(from);
+    return this.text(from);
+  }
+
+  private text(from: Node): SynthesizedTraffic {
+    const text = pick(MESSAGES);
+    const payloadHex = Buffer.from(text, 'utf8').toString('hex');
+    return { packet: this.packet(from, 1, { type: 'text', text }, payloadHex) };
+  }
+
+  // One node runs the range test; some sequence numbers are skipped as if
+  // no gateway heard them
+  private rangeTest(): SynthesizedTraffic {
+    const from = this.store.nodes.find(node => node.last_lat !== null) ?? this.store.nodes[0];
+    this.rangeTestSeq += Math.random() < 0.2 ? 2 : 1;
+    const text = `seq ${this.rangeTestSeq}`;
+    const payloadHex = Buffer.from(text, 'utf8').toString('hex');
+    return { packet: this.packet(from, 66, { type: 'range_test', text }, payloadHex) };
+  }
+
+  // An ACK, or a NAK for one of the common reasons, to another node
+  private routing(from: Node): SynthesizedTraffic {
+    const to = pick(this.store.nodes.filter(node => node.node_id !== from.node_id));
+    // NONE (ACK) most of the time, then NO_ROUTE, TIMEOUT, MAX_RETRANSMIT, NO_CHANNEL, TOO_LARGE
+    const error_reason = pick([0, 0, 0, 0, 1, 3, 5, 5, 6, 7]);
+    // A zero error_reason is the proto default and isn't written
+    const payloadHex = error_reason ? new ProtoWriter().uint(3, error_reason).toHex() : '';
+    const packet = this.packet(from, 5, { type: 'routing', error_reason }, payloadHex);
+    packet.to_node_id = to.node_id;
+    packet.to_id = to.id;
+    return { packet };
+  }
+
+  // Two counters at the gates of an event, with crowds that drift up and down
+  private paxcount(): SynthesizedTraffic {
+    const counters = this.store.nodes.slice(0, 2);
+    const from = pick(counters);
+    const base = counters.indexOf(from) === 0 ? 120 : 40;
+    const wifi = Math.round(base * randomBetween(0.6, 1.4));
+    const ble = Math.round(base * 1.5 * randomBetween(0.6, 1.4));
+    const uptime = Math.floor(process.uptime()) + 3600;
+    const payloadHex = new ProtoWriter().uint(1, wifi).uint(2, ble).uint(3, uptime).toHex();
+    return { packet: this.packet(from, 34, { type: 'paxcounter', wifi, ble, uptime }, payloadHex) };
+  }
+
+  // Gate sensors on a few located nodes
+  private detection(): SynthesizedTraffic {
+    const sensors = this.store.nodes.filter(node => node.last_lat !== null).slice(2, 5);
+    const from = pick(sensors.length > 0 ? sensors : this.store.nodes);
+    const text = `${from.short_name} ${pick(['Gate open', 'Motion detected', 'Door opened'])}`;
+    const payloadHex = Buffer.from(text, 'utf8').toString('hex');
+    return { packet: this.packet(from, 10, { type: 'detection_sensor', text }, payloadHex) };
+  }
+
+  // A TAK user takes a few steps in a random direction and reports in
+  private takPli(): SynthesizedTraffic {
+    const located = this.store.nodes.filter(node => node.last_lat !== null && node.last_long !== null);
+    const index = Math.floor(Math.random() * TAK_USERS.length);
+    const user = TAK_USERS[index];
+    const from = located[index % located.length] ?? this.store.nodes[0];
+    const offset = this.takOffsets[index];
+    offset.lat += Math.round(randomBetween(-800, 800));
+    offset.lng += Math.round(randomBetween(-800, 800));
+    const latitude_i = (from.last_lat ?? 0) + offset.lat;
+    const longitude_i = (from.last_long ?? 0) + offset.lng;
+    const altitude = Math.round(randomBetween(50, 400));
+    const speed = Math.round(randomBetween(0, 3));
+    const course = Math.round(randomBetween(0, 359));
+    const battery = Math.round(randomBetween(40, 100));
+
+    const payloadHex = new ProtoWriter()
+      .message(2, new ProtoWriter().string(1, user.callsign).string(2, user.callsign))
+      .message(3, new ProtoWriter().uint(1, user.role).uint(2, user.team))
+      .message(4, new ProtoWriter().uint(1, battery))
+      .message(5, new ProtoWriter()
+        .sfixed32(1, latitude_i)
+        .sfixed32(2, longitude_i)
+        .int(3, altitude)
+        .uint(4, speed)
+        .uint(5, course))
+      .toHex();
+
+    return {
+      packet: this.packet(from, 72, {
+        type: 'atak',
+        contact: { callsign: user.callsign, device_callsign: user.callsign },
+        group: { role: TAK_ROLE_NAMES[user.role], team: TAK_TEAM_NAMES[user.team] },
+        status: { battery },
+        pli: { latitude_i, longitude_i, altitude, speed, course },
+      }, payloadHex),
+    };
+  }
+
+  // Encrypted as firmware does: AES-CTR over the Data message, with the packet
+  // id and sender as the nonce. The port is unknown without the key.
+  private encryptedText(from: Node): SynthesizedTraffic {
+    const data = new ProtoWriter().uint(1, 1).string(2, pick(MESSAGES)).finish();
+    const packet = this.packet(from, 0, '', '');
+    packet.channel = DEMO_PRIVATE_CHANNEL.name;
+
+    const nonce = Buffer.alloc(16);
+    nonce.writeBigUInt64LE(BigInt(packet.id), 0);
+    nonce.writeUInt32LE(from.node_id >>> 0, 8);
+    const cipher = createCipheriv('aes-128-ctr', Buffer.from(DEMO_PRIVATE_CHANNEL.psk, 'base64'), nonce);
+    packet.payload_hex = Buffer.concat([cipher.update(data), cipher.final()]).toString('hex');
+    return { packet };
+  }
+
+  private position(from: Node): SynthesizedTraffic {
+    const latitude_i = from.last_lat! + Math.round(randomBetween(-1500, 1500));
+    const longitude_i = from.last_long! + Math.round(randomBetween(-1500, 1500));
+    const altitude = Math.round(randomBetween(5, 600));
+    const time = Math.floor(Date.now() / 1000);
+    const payloadHex = new ProtoWriter()
+      .sfixed32(1, latitude_i)
+      .sfixed32(2, longitude_i)
+      .int(3, altitude)
+      .fixed32(4, time)
+      .toHex();
+
+    const packet = this.packet(from, 3, { type: 'position', latitude_i, longitude_i, altitude, time }, payloadHex);
+    return {
+      packet,
+      nodeUpdate: { node_id: from.node_id, last_lat: latitude_i, last_long: longitude_i, last_update: packet.import_time },
+    };
+  }
+
+  // Expiry between 20 minutes and a day out, so some show as expiring soon
+  private waypoint(from: Node): SynthesizedTraffic {
+    const waypoint = pick(WAYPOINTS);
+    const latitude_i = from.last_lat! + Math.round(randomBetween(-20000, 20000));
+    const longitude_i = from.last_long! + Math.round(randomBetween(-20000, 20000));
+    const expire = Math.floor(Date.now() / 1000 + randomBetween(20 * 60, 24 * 3600));
+    const writer = new ProtoWriter()
+      .uint(1, waypoint.id)
+      .sfixed32(2, latitude_i)
+      .sfixed32(3, longitude_i)
+      .uint(4, expire)
+      .string(6, waypoint.name);
+    if (waypoint.description) writer.string(7, waypoint.description);
+    writer.fixed32(8, waypoint.icon);
+
+    return {
+      packet: this.packet(from, 8, {
+        type: 'waypoint',
+        id: waypoint.id,
+        latitude_i,
+        longitude_i,
+        expire,
+        name: waypoint.name,
+        ...(waypoint.description ? { description: waypoint.description } : {}),
+        icon: waypoint.icon,
+      }, writer.toHex()),
+    };
+  }
+
+  private telemetry(from: Node): SynthesizedTraffic {
+    const time = Math.floor(Date.now() / 1000);
+    const device_metrics = {
+      battery_level: Math.round(randomBetween(20, 101)),
+      voltage: Number(randomBetween(3.3, 4.2).toFixed(2)),
+      channel_utilization: Number(randomBetween(2, 30).toFixed(2)),
+      air_util_tx: Number(randomBetween(0.1, 5).toFixed(2)),
+      uptime_seconds: Math.round(randomBetween(600, 900000)),
+    };
+    const metrics = new ProtoWriter()
+      .uint(1, device_metrics.battery_level)
+      .float(2, device_metrics.voltage)
+      .float(3, device_metrics.channel_utilization)
+      .float(4, device_metrics.air_util_tx)
+      .uint(5, device_metrics.uptime_seconds);
+    const payloadHex = new ProtoWriter().fixed32(1, time).message(2, metrics).toHex();
+
+    return { packet: this.packet(from, 67, { type: 'telemetry', time, device_metrics }, payloadHex) };
+  }
+
+  // What the node would publish to the public map: a firmware version even
+  // when the server has none, and a position rounded to about 1.5 km. Nodes
+  // without a fix report one near the first located node.
+  private mapReport(from: Node): SynthesizedTraffic {
+    const anchor = from.last_lat !== null && from.last_long !== null
+      ? from
+      : this.store.nodes.find(node => node.last_lat !== null && node.last_long !== null);
+    const firmware_version = from.firmware ?? '2.6.11.60ec05e';
+    const latitude_i = anchor ? Math.round(anchor.last_lat! / 150000) * 150000 + (anchor === from ? 0 : 300000) : 0;
+    const longitude_i = anchor ? Math.round(anchor.last_long! / 150000) * 150000 : 0;
+    const num_online_local_nodes = this.store.nodes.length;
+
+    const writer = new ProtoWriter()
+      .string(1, from.long_name)
+      .string(2, from.short_name);
+    if (ROLE_VALUES[from.role]) writer.uint(3, ROLE_VALUES[from.role]);
+    writer
+      .uint(4, HW_MODEL_VALUES[from.hw_model] ?? 0)
+      .string(5, firmware_version)
+      .uint(6, 1) // US
+      .uint(8, 1)
+      .sfixed32(9, latitude_i)
+      .sfixed32(10, longitude_i)
+      .uint(12, 14)
+      .uint(13, num_online_local_nodes);
+
+    return {
+      packet: this.packet(from, 73, {
+        type: 'map_report',
+        long_name: from.long_name,
+        short_name: from.short_name,
+        role: from.role,
+        hw_model: from.hw_model,
+        firmware_version,
+        region: 'US',
+        modem_preset: 'LONG_FAST',
+        has_default_channel: true,
+        latitude_i,
+        longitude_i,
+        position_precision: 14,
+        num_online_local_nodes,
+      }, writer.toHex()),
+    };
+  }
+
+  private nodeInfo(from: Node): SynthesizedTraffic {
+    const writer = new ProtoWriter()
+      .string(1, from.id)
+      .string(2, from.long_name)
+      .string(3, from.short_name)
+      .uint(5, HW_MODEL_VALUES[from.hw_model] ?? 0);
+    if (ROLE_VALUES[from.role]) writer.uint(7, ROLE_VALUES[from.role]);
+
+    const packet = this.packet(from, 4, {
+      type: 'nodeinfo',
+      id: from.id,
+      long_name: from.long_name,
+      short_name: from.short_name,
+      hw_model: from.hw_model,
+      role: from.role,
+    }, writer.toHex());
+    return { packet, nodeUpdate: { node_id: from.node_id, last_update: packet.import_time } };
+  }
+
+  private packet(from: Node, portnum: number, payload: MockPacket['payload'], payloadHex: string): MockPacket {
+    const now = new Date();
+    const hopStart = 3;
+    const candidates = this.store.nodes.filter(n => n.node_id !== from.node_id && GATEWAY_ROLES.includes(n.role));
+    const gatewayCount = 1 + Math.floor(Math.random() * Math.min(4, candidates.length));
+    const gateways: PacketGateway[] = [...candidates]
+      .sort(() => Math.random() - 0.5)
+      .slice(0, gatewayCount)
+      .map(gw => {
+        const hopLimit = hopStart - Math.floor(Math.random() * 3);
+        return {
+          node_id: gw.node_id,
+          node_name: gw.long_name,
+          rx_rssi: Math.round(randomBetween(-125, -60)),
+          rx_snr: Math.round(randomBetween(-18, 11) * 4) / 4,
+          hop_start: hopStart,
+          hop_limit: hopLimit,
+          relay_node: hopLimit < hopStart ? pick(this.store.nodes).node_id & 0xff : undefined,
+        };
+      });
+
+    return {
+      id: this.nextPacketId++,
+      from_node_id: from.node_id,
+      to_node_id: BROADCAST_NODE_ID,
+      from_id: from.id,
+      to_id: '^all',
+      channel: from.channel,
+      portnum,
+      import_time: now.toISOString(),
+      timestamp: now.toISOString(),
+      rx_time: Math.floor(now.getTime() / 1000),
+      payload,
+      payload_hex: payloadHex,
+      hop_start: hopStart,
+      hop_limit: Math.min(...gateways.map(g => g.hop_limit ?? hopStart)),
+      gateways,
+    };
+  }
+}
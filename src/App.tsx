@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback, useRef } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import './App.css'
 import { MeshMap } from './components/MeshMap'
 import { StatsDashboard } from './components/StatsDashboard'
@@ -6,15 +6,27 @@ import { Filters } from './components/Filters'
 import { NodesList } from './components/NodesList'
 import { ChatView } from './components/ChatView'
 import { RecentPackets } from './components/RecentPackets'
+import { RangeTestView } from './components/RangeTestView'
+import { SensorsView } from './components/SensorsView'
 import { NodeDetail } from './components/NodeDetail'
 import { PacketDetail } from './components/PacketDetail'
 import { TracerouteDetail } from './components/TracerouteDetail'
 import { ChannelSelector } from './components/ChannelSelector'
 import { TimeRangeSelector } from './components/TimeRangeSelector'
 import { Toast } from './components/Toast'
-import { api } from './api'
+import { ProfileSelector } from './components/ProfileSelector'
+import { ConnectionStatus } from './components/ConnectionStatus'
+import { RetryIndicator } from './components/RetryIndicator'
+import { ChannelKeyManager } from './components/ChannelKeyManager'
+import { AlertManager } from './components/AlertManager'
+import { api, isAbortError } from './api'
+import { meshSocket, nodeUpdateFromMessage, isCompleteNode } from './websocket'
+import { useTelemetryAlerts } from './hooks/useTelemetryAlerts'
+import { useMapReports } from './hooks/useMapReports'
 import type { Node, Stats } from './types'
 import { NodeLookup } from './utils/nodeLookup'
+import { mergeMapReports } from './utils/mapReports'
+import { getActiveProfile } from './utils/meshProfiles'
 
 interface FilterParams {
   role?: string;
@@ -53,7 +65,7 @@ function App() {
   };
 
   // Parse URL to determine current view
-  const getViewFromUrl = (): { type: 'main' | 'node' | 'packet' | 'traceroute'; id?: string; tab?: 'map' | 'stats' | 'nodes' | 'chat' | 'packets'; channel?: string } => {
+  const getViewFromUrl = (): { type: 'main' | 'node' | 'packet' | 'traceroute'; id?: string; tab?: 'map' | 'stats' | 'nodes' | 'chat' | 'packets' | 'rangetest' | 'sensors'; channel?: string } => {
     const path = window.location.pathname;
     const params = new URLSearchParams(window.location.search);
     
@@ -64,9 +76,9 @@ function App() {
     }
     
     // Check for main view with tab
-    const tabMatch = path.match(/^\/(map|stats|nodes|chat|packets)$/);
+    const tabMatch = path.match(/^\/(map|stats|nodes|chat|packets|rangetest|sensors)$/);
     if (tabMatch) {
-      const tab = tabMatch[1] as 'map' | 'stats' | 'nodes' | 'chat' | 'packets';
+      const tab = tabMatch[1] as 'map' | 'stats' | 'nodes' | 'chat' | 'packets' | 'rangetest' | 'sensors';
       const channel = params.get('channel') || undefined;
       return { type: 'main', tab, channel };
     }
@@ -75,12 +87,12 @@ function App() {
   };
 
   const [nodes, setNodes] = useState<Node[]>([])
-  const [nodeLookup, setNodeLookup] = useState<NodeLookup | null>(null)
+  const [lookupNodes, setLookupNodes] = useState<Node[] | null>(null)
   const [stats, setStats] = useState<Stats | null>(null)
   const [allTimeStats, setAllTimeStats] = useState<Stats | null>(null) // For channel selector
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [activeTab, setActiveTab] = useState<'map' | 'stats' | 'nodes' | 'chat' | 'packets'>(() => {
+  const [activeTab, setActiveTab] = useState<'map' | 'stats' | 'nodes' | 'chat' | 'packets' | 'rangetest' | 'sensors'>(() => {
     const initialView = getViewFromUrl();
     return initialView.tab || 'map';
   })
@@ -91,7 +103,7 @@ function App() {
     if (initialView.channel) {
       return initialView.channel;
     }
-    return localStorage.getItem('globalChannel') || 'MediumFast';
+    return localStorage.getItem('globalChannel') || getActiveProfile().defaultChannel;
   })
   const [globalDaysActive, setGlobalDaysActive] = useState<number>(() => {
     const saved = localStorage.getItem('globalDaysActive');
@@ -101,10 +113,16 @@ function App() {
     const saved = localStorage.getItem('showNodeConnections');
     return saved ? saved === 'true' : false; // Default to false
   })
+  const [showWaypoints, setShowWaypoints] = useState<boolean>(() => {
+    return localStorage.getItem('showWaypoints') === 'true';
+  })
+  const [showTak, setShowTak] = useState<boolean>(() => {
+    return localStorage.getItem('showTak') === 'true';
+  })
   const [toastMessage, setToastMessage] = useState<string | null>(null)
+  const [toastVariant, setToastVariant] = useState<'info' | 'alert'>('info')
   const [currentView, setCurrentView] = useState(getViewFromUrl());
   const [recentlyUpdatedNodes, setRecentlyUpdatedNodes] = useState<Map<number, number>>(new Map()); // node_id -> timestamp
-  const wsRef = useRef<WebSocket | null>(null);
   
   // Handle channel selection
   const handleChannelChange = (channel: string) => {
@@ -123,14 +141,14 @@ function App() {
   }
 
   // Update URL based on tab and channel
-  const updateUrl = (tab: 'map' | 'stats' | 'nodes' | 'chat' | 'packets', channel?: string) => {
+  const updateUrl = (tab: 'map' | 'stats' | 'nodes' | 'chat' | 'packets' | 'rangetest' | 'sensors', channel?: string) => {
     const channelParam = channel ? `?channel=${encodeURIComponent(channel)}` : '';
     const newPath = `/${tab}${channelParam}`;
     window.history.pushState({}, '', newPath);
   }
 
   // Handle tab change
-  const handleTabChange = (tab: 'map' | 'stats' | 'nodes' | 'chat' | 'packets') => {
+  const handleTabChange = (tab: 'map' | 'stats' | 'nodes' | 'chat' | 'packets' | 'rangetest' | 'sensors') => {
     setActiveTab(tab);
     updateUrl(tab, globalChannel);
   }
@@ -157,31 +175,52 @@ function App() {
 
   // Load all nodes once for lookup table
   useEffect(() => {
+    const controller = new AbortController()
     const loadAllNodes = async () => {
       try {
-        const data = await api.getNodes({ limit: 1000 })
-        setNodeLookup(new NodeLookup(data.nodes))
+        const data = await api.getNodes({ limit: 1000 }, { signal: controller.signal })
+        setLookupNodes(data.nodes)
       } catch (err) {
+        if (isAbortError(err)) return
         console.error('Error loading nodes for lookup:', err)
       }
     }
     loadAllNodes()
+    return () => controller.abort()
   }, [])
 
+  // Firmware, modem preset and approximate positions from map reports
+  const mapReports = useMapReports()
+  const nodeLookup = useMemo(
+    () => (lookupNodes ? new NodeLookup(mergeMapReports(lookupNodes, mapReports)) : null),
+    [lookupNodes, mapReports]
+  )
+  const reportedNodes = useMemo(() => mergeMapReports(nodes, mapReports), [nodes, mapReports])
+
   // Load all-time stats once for channel selector (no time filter)
   useEffect(() => {
+    const controller = new AbortController()
     const loadAllTimeStats = async () => {
       try {
-        const data = await api.getStats() // No filters - get all channels
+        const data = await api.getStats(undefined, { signal: controller.signal }) // No filters - get all channels
         setAllTimeStats(data)
       } catch (err) {
+        if (isAbortError(err)) return
         console.error('Error loading all-time stats:', err)
       }
     }
     loadAllTimeStats()
+    return () => controller.abort()
   }, [])
 
+  // Only the most recent fetchData call may update nodes and stats
+  const fetchControllerRef = useRef<AbortController | null>(null)
+
   const fetchData = useCallback(async (filters: FilterParams = {}) => {
+    fetchControllerRef.current?.abort()
+    const controller = new AbortController()
+    fetchControllerRef.current = controller
+
     try {
       setLoading(true)
       setError(null)
@@ -196,21 +235,25 @@ function App() {
       apiFilters.days_active = daysActiveFilter
       
       const [nodesData, statsData] = await Promise.all([
-        api.getNodes({ ...apiFilters, limit: apiFilters.limit || 1000 }),
+        api.getNodes({ ...apiFilters, limit: apiFilters.limit || 1000 }, { signal: controller.signal }),
         // Pass channel and days_active to stats as well
         api.getStats({ 
           channel: channelFilter || undefined,
           days_active: daysActiveFilter
-        }),
+        }, { signal: controller.signal }),
       ])
       
       setNodes(nodesData.nodes)
       setStats(statsData)
     } catch (err) {
+      // A newer request replaced this one
+      if (isAbortError(err)) return
       setError(err instanceof Error ? err.message : 'Failed to fetch data')
       console.error('Error fetching data:', err)
     } finally {
-      setLoading(false)
+      if (fetchControllerRef.current === controller) {
+        setLoading(false)
+      }
     }
   }, [globalChannel, globalDaysActive])
 
@@ -218,74 +261,44 @@ function App() {
     fetchData()
   }, [fetchData])
 
-  // WebSocket connection for real-time node updates
+  // Cancel any outstanding fetch when the app unmounts
   useEffect(() => {
-    const params = new URLSearchParams();
-    if (globalChannel) {
-      params.append('channel', globalChannel);
-    }
-    
-    const ws = new WebSocket(`wss://meshql.bayme.sh/ws?${params.toString()}`);
-    wsRef.current = ws;
-
-    ws.onopen = () => {
-      console.log('WebSocket connected for node updates');
-    };
+    return () => fetchControllerRef.current?.abort()
+  }, [])
 
-    ws.onmessage = (event) => {
-      try {
-        const data = JSON.parse(event.data);
-        
-        // Handle different message types
-        if (data.type === 'connected') {
-          console.log('Connected to MeshQL WebSocket:', data.filters);
-        } else if (data.type === 'subscribed') {
-          console.log('Subscribed to node updates:', data.filters);
-        } else if (data.type === 'node') {
-          // Mark this node as recently updated
-          setRecentlyUpdatedNodes(prev => {
-            const newMap = new Map(prev);
-            newMap.set(data.node_id, Date.now());
-            return newMap;
-          });
-          
-          // Update node in the list if it exists, otherwise add it
-          setNodes(prevNodes => {
-            const nodeIndex = prevNodes.findIndex(n => n.node_id === data.node_id);
-            if (nodeIndex !== -1) {
-              // Node exists, update it with new data
-              const updatedNodes = [...prevNodes];
-              updatedNodes[nodeIndex] = {
-                ...updatedNodes[nodeIndex],
-                ...data,
-                last_update: data.last_update || updatedNodes[nodeIndex].last_update
-              };
-              return updatedNodes;
-            } else {
-              // New node, add it to the list
-              return [...prevNodes, data];
-            }
-          });
+  // Live node updates from the shared WebSocket connection
+  useEffect(() => {
+    return meshSocket.subscribe({ channel: globalChannel || undefined }, (message) => {
+      if (message.type !== 'node') return;
+      const update = nodeUpdateFromMessage(message);
+
+      // Mark this node as recently updated
+      setRecentlyUpdatedNodes(prev => {
+        const newMap = new Map(prev);
+        newMap.set(message.node_id, Date.now());
+        return newMap;
+      });
+      
+      // Update node in the list if it exists, otherwise add it
+      setNodes(prevNodes => {
+        const nodeIndex = prevNodes.findIndex(n => n.node_id === message.node_id);
+        if (nodeIndex !== -1) {
+          // Node exists, update it with new data
+          const updatedNodes = [...prevNodes];
+          updatedNodes[nodeIndex] = {
+            ...updatedNodes[nodeIndex],
+            ...update,
+            last_update: update.last_update || updatedNodes[nodeIndex].last_update
+          };
+          return updatedNodes;
+        } else if (isCompleteNode(update)) {
+          // New node, add it to the list
+          return [...prevNodes, update];
         }
-      } catch (err) {
-        console.debug('WebSocket message parse error:', err);
-      }
-    };
-
-    ws.onerror = (err) => {
-      console.error('WebSocket error:', err);
-    };
-
-    ws.onclose = () => {
-      console.log('WebSocket disconnected');
-    };
-
-    // Cleanup on unmount or when channel changes
-    return () => {
-      if (ws.readyState === WebSocket.OPEN) {
-        ws.close();
-      }
-    };
+        // Partial update for a node we haven't loaded yet
+        return prevNodes;
+      });
+    });
   }, [globalChannel]);
 
   const handleApplyFilters = (filters: FilterParams) => {
@@ -322,6 +335,15 @@ function App() {
     setCurrentView({ type: 'main' });
   }
 
+  const showToast = useCallback((message: string, variant: 'info' | 'alert' = 'info') => {
+    setToastMessage(message);
+    setToastVariant(variant);
+  }, []);
+
+  // Telemetry threshold alerts from the live stream, on every view
+  const showAlert = useCallback((message: string) => showToast(message, 'alert'), [showToast]);
+  useTelemetryAlerts(nodeLookup, showAlert);
+
   // Check if the item being viewed is from a different channel
   const checkChannelMismatch = (nodeId: string, type: 'node') => {
     if (!globalChannel || !nodeLookup) return;
@@ -330,7 +352,7 @@ function App() {
     if (type === 'node') {
       const nodeData = nodeLookup.getNode(nodeId);
       if (nodeData && nodeData.channel !== globalChannel) {
-        setToastMessage(`This node is on channel "${nodeData.channel}", but you have "${globalChannel}" selected.`);
+        showToast(`This node is on channel "${nodeData.channel}", but you have "${globalChannel}" selected.`);
       }
     }
   }
@@ -339,38 +361,56 @@ function App() {
   const showChannelMismatch = useCallback((channel: string, type: 'node' | 'packet') => {
     if (globalChannel && channel !== globalChannel) {
       const itemType = type === 'node' ? 'node' : 'packet';
-      setToastMessage(`This ${itemType} is on channel "${channel}", but you have "${globalChannel}" selected.`);
+      showToast(`This ${itemType} is on channel "${channel}", but you have "${globalChannel}" selected.`);
     }
-  }, [globalChannel]);
+  }, [globalChannel, showToast]);
+
+  // Shared header for the main and detail views
+  const header = (
+    <header className="app-header">
+      <div className="header-content">
+        <div className="header-left">
+          <ProfileSelector />
+          <ChannelSelector 
+            selectedChannel={globalChannel}
+            onChannelChange={handleChannelChange}
+            stats={allTimeStats}
+          />
+        </div>
+        <div className="header-main">
+          <h1>Meshyview</h1>
+          <p className="subtitle">Meshtastic Network Dashboard</p>
+        </div>
+        <div className="header-right">
+          <RetryIndicator />
+          <ConnectionStatus />
+          <TimeRangeSelector 
+            selectedDaysActive={globalDaysActive}
+            onDaysActiveChange={handleDaysActiveChange}
+          />
+          <ChannelKeyManager />
+          <AlertManager
+            nodeLookup={nodeLookup}
+            onNodeClick={handleNodeClick}
+            onPacketClick={handlePacketClick}
+          />
+          <button 
+            className="dark-mode-toggle"
+            onClick={toggleDarkMode}
+            aria-label={darkMode ? 'Switch to light mode' : 'Switch to dark mode'}
+          >
+            {darkMode ? '☀️' : '🌙'}
+          </button>
+        </div>
+      </div>
+    </header>
+  );
 
   if (currentView.type === 'packet' && currentView.id) {
     const packetId = parseInt(currentView.id, 10);
     return (
       <div className="app">
-        <header className="app-header">
-          <div className="header-content">
-            <ChannelSelector 
-              selectedChannel={globalChannel}
-              onChannelChange={handleChannelChange}
-              stats={allTimeStats}
-            />
-            <div className="header-main">
-              <h1>Meshyview</h1>
-              <p className="subtitle">Meshtastic Network Dashboard</p>
-            </div>
-            <TimeRangeSelector 
-              selectedDaysActive={globalDaysActive}
-              onDaysActiveChange={handleDaysActiveChange}
-            />
-            <button 
-              className="dark-mode-toggle"
-              onClick={toggleDarkMode}
-              aria-label={darkMode ? 'Switch to light mode' : 'Switch to dark mode'}
-            >
-              {darkMode ? '☀️' : '🌙'}
-            </button>
-          </div>
-        </header>
+        {header}
         <div className="app-content">
           <PacketDetail 
             packetId={packetId} 
@@ -382,7 +422,7 @@ function App() {
           />
         </div>
         {toastMessage && (
-          <Toast message={toastMessage} onClose={() => setToastMessage(null)} />
+          <Toast message={toastMessage} variant={toastVariant} onClose={() => setToastMessage(null)} />
         )}
       </div>
     )
@@ -391,30 +431,7 @@ function App() {
   if (currentView.type === 'node' && currentView.id) {
     return (
       <div className="app">
-        <header className="app-header">
-          <div className="header-content">
-            <ChannelSelector 
-              selectedChannel={globalChannel}
-              onChannelChange={handleChannelChange}
-              stats={allTimeStats}
-            />
-            <div className="header-main">
-              <h1>Meshyview</h1>
-              <p className="subtitle">Meshtastic Network Dashboard</p>
-            </div>
-            <TimeRangeSelector 
-              selectedDaysActive={globalDaysActive}
-              onDaysActiveChange={handleDaysActiveChange}
-            />
-            <button 
-              className="dark-mode-toggle"
-              onClick={toggleDarkMode}
-              aria-label={darkMode ? 'Switch to light mode' : 'Switch to dark mode'}
-            >
-              {darkMode ? '☀️' : '🌙'}
-            </button>
-          </div>
-        </header>
+        {header}
         <div className="app-content">
           <NodeDetail 
             nodeId={currentView.id} 
@@ -423,10 +440,11 @@ function App() {
             onPacketClick={handlePacketClick}
             onNodeClick={handleNodeClick}
             onChannelMismatch={showChannelMismatch}
+            daysActive={globalDaysActive}
           />
         </div>
         {toastMessage && (
-          <Toast message={toastMessage} onClose={() => setToastMessage(null)} />
+          <Toast message={toastMessage} variant={toastVariant} onClose={() => setToastMessage(null)} />
         )}
       </div>
     )
@@ -436,30 +454,7 @@ function App() {
     const tracerouteId = parseInt(currentView.id, 10);
     return (
       <div className="app">
-        <header className="app-header">
-          <div className="header-content">
-            <ChannelSelector 
-              selectedChannel={globalChannel}
-              onChannelChange={handleChannelChange}
-              stats={allTimeStats}
-            />
-            <div className="header-main">
-              <h1>Meshyview</h1>
-              <p className="subtitle">Meshtastic Network Dashboard</p>
-            </div>
-            <TimeRangeSelector 
-              selectedDaysActive={globalDaysActive}
-              onDaysActiveChange={handleDaysActiveChange}
-            />
-            <button 
-              className="dark-mode-toggle"
-              onClick={toggleDarkMode}
-              aria-label={darkMode ? 'Switch to light mode' : 'Switch to dark mode'}
-            >
-              {darkMode ? '☀️' : '🌙'}
-            </button>
-          </div>
-        </header>
+        {header}
         <div className="app-content">
           <TracerouteDetail 
             packetId={tracerouteId}
@@ -469,7 +464,7 @@ function App() {
           />
         </div>
         {toastMessage && (
-          <Toast message={toastMessage} onClose={() => setToastMessage(null)} />
+          <Toast message={toastMessage} variant={toastVariant} onClose={() => setToastMessage(null)} />
         )}
       </div>
     )
@@ -477,30 +472,7 @@ function App() {
 
   return (
     <div className="app">
-      <header className="app-header">
-        <div className="header-content">
-          <ChannelSelector 
-            selectedChannel={globalChannel}
-            onChannelChange={handleChannelChange}
-            stats={allTimeStats}
-          />
-          <div className="header-main">
-            <h1>Meshyview</h1>
-            <p className="subtitle">Meshtastic Network Dashboard</p>
-          </div>
-          <TimeRangeSelector 
-            selectedDaysActive={globalDaysActive}
-            onDaysActiveChange={handleDaysActiveChange}
-          />
-          <button 
-            className="dark-mode-toggle"
-            onClick={toggleDarkMode}
-            aria-label={darkMode ? 'Switch to light mode' : 'Switch to dark mode'}
-          >
-            {darkMode ? '☀️' : '🌙'}
-          </button>
-        </div>
-      </header>
+      {header}
 
       <nav className="app-nav">
         <button
@@ -533,13 +505,25 @@ function App() {
         >
           Chat
         </button>
+        <button
+          className={activeTab === 'rangetest' ? 'active' : ''}
+          onClick={() => handleTabChange('rangetest')}
+        >
+          Range Test
+        </button>
+        <button
+          className={activeTab === 'sensors' ? 'active' : ''}
+          onClick={() => handleTabChange('sensors')}
+        >
+          Sensors
+        </button>
       </nav>
 
       <div className="app-content">
         {error && (
           <div className="error-banner">
             <strong>Error:</strong> {error}
-            <button onClick={() => fetchData()}>Retry</button>
+            <button onClick={() => { api.invalidateCache(); fetchData(); }}>Retry</button>
           </div>
         )}
 
@@ -567,15 +551,46 @@ function App() {
                   <span className="toggle-slider"></span>
                   Show Connections
                 </label>
+                <label className="connection-toggle">
+                  <input
+                    type="checkbox"
+                    checked={showWaypoints}
+                    onChange={(e) => {
+                      const newValue = e.target.checked;
+                      setShowWaypoints(newValue);
+                      localStorage.setItem('showWaypoints', String(newValue));
+                    }}
+                  />
+                  <span className="toggle-slider"></span>
+                  Show Waypoints
+                </label>
+                <label className="connection-toggle">
+                  <input
+                    type="checkbox"
+                    checked={showTak}
+                    onChange={(e) => {
+                      const newValue = e.target.checked;
+                      setShowTak(newValue);
+                      localStorage.setItem('showTak', String(newValue));
+                    }}
+                  />
+                  <span className="toggle-slider"></span>
+                  Show TAK Users
+                </label>
               </div>
             </div>
             <MeshMap 
-              nodes={nodes} 
+              nodes={reportedNodes}
               onNodeClick={handleNodeClick} 
               recentlyUpdatedNodes={recentlyUpdatedNodes}
               showConnections={showNodeConnections}
               connectionChannel={globalChannel}
               connectionHours={24}
+              showWaypoints={showWaypoints}
+              waypointDaysActive={globalDaysActive}
+              showTak={showTak}
+              takDaysActive={globalDaysActive}
+              onPacketClick={handlePacketClick}
             />
           </div>
         )}
@@ -603,7 +618,7 @@ function App() {
             {loading ? (
               <div className="loading">Loading nodes...</div>
             ) : (
-              <NodesList nodes={nodes} onNodeClick={handleNodeClick} />
+              <NodesList nodes={reportedNodes} onNodeClick={handleNodeClick} />
             )}
           </div>
         )}
@@ -618,6 +633,26 @@ function App() {
           />
         )}
 
+        {activeTab === 'rangetest' && (
+          <RangeTestView
+            nodeLookup={nodeLookup}
+            selectedChannel={globalChannel}
+            daysActive={globalDaysActive}
+            onPacketClick={handlePacketClick}
+            onNodeClick={handleNodeClick}
+          />
+        )}
+
+        {activeTab === 'sensors' && (
+          <SensorsView
+            nodeLookup={nodeLookup}
+            selectedChannel={globalChannel}
+            daysActive={globalDaysActive}
+            onPacketClick={handlePacketClick}
+            onNodeClick={handleNodeClick}
+          />
+        )}
+
         {activeTab === 'chat' && (
           <ChatView 
             nodeLookup={nodeLookup} 
@@ -629,12 +664,12 @@ function App() {
       </div>
 
       {toastMessage && (
-        <Toast message={toastMessage} onClose={() => setToastMessage(null)} />
+        <Toast message={toastMessage} variant={toastVariant} onClose={() => setToastMessage(null)} />
       )}
 
       <footer className="app-footer">
         <p>
-          Powered by <a href="https://meshql.bayme.sh/docs" target="_blank" rel="noopener noreferrer">meShQL API</a>
+          Powered by <a href={`${getActiveProfile().apiBaseUrl}/docs`} target="_blank" rel="noopener noreferrer">meShQL API</a>
           {' | '}
           <a href="https://github.com/baymesh/meshyview" target="_blank" rel="noopener noreferrer">Github</a>
         </p>
@@ -1,26 +1,75 @@
-import type { NodesResponse, Stats, EdgesResponse, ChatResponse, TopGatewaysResponse, NodeNeighborsResponse, NodeGraphResponse, TopRelaysResponse } from './types';
+import type {
+  NodesResponse,
+  Stats,
+  EdgesResponse,
+  ChatResponse,
+  PacketsResponse,
+  PacketDetailResponse,
+  TracerouteResponse,
+  TopGatewaysResponse,
+  NodeNeighborsResponse,
+  NodeGraphResponse,
+  TopRelaysResponse
+} from './types';
+import { getActiveProfile } from './utils/meshProfiles';
+import type { Validator } from './utils/validation';
+import {
+  ValidationError,
+  validateNodesResponse,
+  validateStats,
+  validateEdgesResponse,
+  validateChatResponse,
+  validatePacketsResponse,
+  validatePacketDetailResponse,
+  validateTracerouteResponse,
+  validateTopGatewaysResponse,
+  validateNodeNeighborsResponse,
+  validateNodeGraphResponse,
+  validateTopRelaysResponse
+} from './utils/validation';
 
-const API_BASE_URL = 'https://meshql.bayme.sh';
+// Base URL comes from the active mesh profile so one build can serve several meshes
+function getApiBaseUrl(): string {
+  return getActiveProfile().apiBaseUrl.replace(/\/+$/, '');
+}
 
 // Custom error class for API errors
-class ApiError extends Error {
+export class ApiError extends Error {
   statusCode?: number;
   isNetworkError: boolean;
+  // Set when the response didn't match the expected schema
+  endpoint?: string;
+  field?: string;
   
   constructor(
     message: string,
     statusCode?: number,
-    isNetworkError: boolean = false
+    isNetworkError: boolean = false,
+    details?: { endpoint?: string; field?: string }
   ) {
     super(message);
     this.name = 'ApiError';
     this.statusCode = statusCode;
     this.isNetworkError = isNetworkError;
+    this.endpoint = details?.endpoint;
+    this.field = details?.field;
   }
 }
 
+// Endpoint path of a request URL, without the base URL or query string
+function getEndpoint(url: string): string {
+  const base = getApiBaseUrl();
+  const path = url.startsWith(base) ? url.slice(base.length) : url;
+  return path.split('?')[0];
+}
+
 // Helper function to handle fetch errors with better messages
-async function handleApiResponse<T>(response: Response, operation: string): Promise<T> {
+async function handleApiResponse<T>(
+  response: Response,
+  operation: string,
+  url: string,
+  validate: Validator<T>
+): Promise<T> {
   if (!response.ok) {
     let errorMessage = `Failed to ${operation}`;
     
@@ -42,19 +91,62 @@ async function handleApiResponse<T>(response: Response, operation: string): Prom
     throw new ApiError(errorMessage, response.status);
   }
   
+  let data: unknown;
   try {
-    return await response.json();
-  } catch (err) {
+    data = await response.json();
+  } catch {
     throw new ApiError(`${operation}: Invalid response from server`, response.status);
   }
+
+  try {
+    return validate(data, '');
+  } catch (err) {
+    if (!(err instanceof ValidationError)) throw err;
+    const endpoint = getEndpoint(url);
+    throw new ApiError(
+      `${operation}: Unexpected response from ${endpoint}: ${err.message}`,
+      response.status,
+      false,
+      { endpoint, field: err.path }
+    );
+  }
+}
+
+export type PacketQueryParams = {
+  limit?: number;
+  since?: string;
+  // Only packets imported strictly before this ISO timestamp (paging cursor)
+  before?: string;
+  node_id?: string;
+  gateway_id?: string;
+  portnum?: number;
+  channel?: string;
+  decode_payload?: boolean;
+  includeGatewayCount?: boolean;
+  days_active?: number;
+};
+
+// Options accepted by every api method
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+function createAbortError(): DOMException {
+  return new DOMException('Request aborted', 'AbortError');
+}
+
+// Aborted requests reject with an AbortError; callers should ignore these
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError';
 }
 
 // Helper function to wrap fetch with network error handling
-async function safeFetch(url: string, operation: string): Promise<Response> {
+async function safeFetch(url: string, operation: string, signal?: AbortSignal): Promise<Response> {
   try {
-    const response = await fetch(url);
+    const response = await fetch(url, { signal });
     return response;
   } catch (err) {
+    if (isAbortError(err)) throw err;
     // Network error (no connection, DNS failure, etc.)
     throw new ApiError(
       `${operation}: Unable to connect to server. Please check your internet connection`,
@@ -66,7 +158,7 @@ async function safeFetch(url: string, operation: string): Promise<Response> {
 
 // Helper function to build API URLs with query parameters
 function buildApiUrl(endpoint: string, params?: Record<string, unknown>): string {
-  const url = `${API_BASE_URL}${endpoint}`;
+  const url = `${getApiBaseUrl()}${endpoint}`;
   if (!params) return url;
   
   const searchParams = new URLSearchParams();
@@ -80,7 +172,276 @@ function buildApiUrl(endpoint: string, params?: Record<string, unknown>): string
   return queryString ? `${url}?${queryString}` : url;
 }
 
+// Retry policy for rate limits (429), server errors and network failures
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY = 1000;
+const RETRY_MAX_DELAY = 30000;
+// Give up rather than wait if the server asks us to back off longer than this
+const MAX_RETRY_AFTER = 60000;
+const MAX_CONCURRENT_REQUESTS = 4;
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || (status >= 500 && status !== 501);
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function backoffDelay(attempt: number): number {
+  return Math.min(RETRY_BASE_DELAY * 2 ** attempt, RETRY_MAX_DELAY) + Math.random() * 500;
+}
+
+// Limit how many requests hit the backend at once; the rest wait in line
+let activeRequests = 0;
+const requestQueue: Array<() => void> = [];
+
+function acquireRequestSlot(signal?: AbortSignal): Promise<void> {
+  if (activeRequests < MAX_CONCURRENT_REQUESTS) {
+    activeRequests++;
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve, reject) => {
+    const start = () => {
+      signal?.removeEventListener('abort', onAbort);
+      activeRequests++;
+      resolve();
+    };
+    const onAbort = () => {
+      const index = requestQueue.indexOf(start);
+      if (index !== -1) requestQueue.splice(index, 1);
+      reject(createAbortError());
+    };
+    requestQueue.push(start);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function releaseRequestSlot() {
+  activeRequests--;
+  requestQueue.shift()?.();
+}
+
+// Requests currently waiting to retry, exposed so the UI can show a countdown
+export interface RetryStatus {
+  id: number;
+  operation: string;
+  attempt: number;
+  retryAt: number;
+}
+
+let retryStatuses: RetryStatus[] = [];
+let nextRetryId = 1;
+const retryListeners = new Set<() => void>();
+
+function setRetryStatuses(statuses: RetryStatus[]) {
+  retryStatuses = statuses;
+  retryListeners.forEach(listener => listener());
+}
+
+// Shaped for useSyncExternalStore
+export function getRetryStatuses(): RetryStatus[] {
+  return retryStatuses;
+}
+
+export function onRetryStatusChange(listener: () => void): () => void {
+  retryListeners.add(listener);
+  return () => {
+    retryListeners.delete(listener);
+  };
+}
+
+function waitForRetry(operation: string, attempt: number, delay: number, signal?: AbortSignal): Promise<void> {
+  const status: RetryStatus = { id: nextRetryId++, operation, attempt, retryAt: Date.now() + delay };
+  setRetryStatuses([...retryStatuses, status]);
+  const clearStatus = () => setRetryStatuses(retryStatuses.filter(s => s.id !== status.id));
+
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      clearStatus();
+      resolve();
+    }, delay);
+    const onAbort = () => {
+      clearTimeout(timer);
+      clearStatus();
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Fetch and parse a response, retrying transient failures
+async function fetchWithRetry<T>(url: string, operation: string, validate: Validator<T>, signal?: AbortSignal): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    let delay: number;
+
+    await acquireRequestSlot(signal);
+    try {
+      const response = await safeFetch(url, operation, signal);
+      if (!isRetryableStatus(response.status) || attempt >= MAX_RETRIES) {
+        return await handleApiResponse(response, operation, url, validate);
+      }
+
+      const retryAfter = response.status === 429 ? parseRetryAfter(response.headers.get('Retry-After')) : null;
+      if (retryAfter !== null && retryAfter > MAX_RETRY_AFTER) {
+        return await handleApiResponse(response, operation, url, validate);
+      }
+      delay = retryAfter ?? backoffDelay(attempt);
+    } catch (err) {
+      // Only network failures are retried; aborts and parse errors are final
+      if (!(err instanceof ApiError) || !err.isNetworkError || attempt >= MAX_RETRIES) {
+        throw err;
+      }
+      delay = backoffDelay(attempt);
+    } finally {
+      releaseRequestSlot();
+    }
+
+    await waitForRetry(operation, attempt + 1, delay, signal);
+  }
+}
+
+// How long a successful response stays fresh, per endpoint (ms)
+const CACHE_TTL = {
+  nodes: 60_000,
+  stats: 30_000,
+  edges: 60_000,
+  chat: 10_000,
+  packets: 10_000,
+  packetDetail: 5 * 60_000,
+  traceroute: 5 * 60_000,
+  topGateways: 60_000,
+  nodeNeighbors: 5 * 60_000,
+  nodeGraph: 60_000,
+  topRelays: 60_000,
+};
+
+interface CacheEntry {
+  promise: Promise<unknown>;
+  expiresAt: number;
+  controller: AbortController;
+  // Callers still waiting on the in-flight request
+  waiters: number;
+}
+
+// Most responses kept at once; the least recently used go first
+const MAX_CACHE_ENTRIES = 200;
+
+// Responses keyed by full request URL, least recently used first. An entry is
+// added as soon as the request starts, so concurrent callers share one
+// in-flight fetch.
+const responseCache = new Map<string, CacheEntry>();
+
+// Drop expired responses, then the least recently used until there is room for
+// one more. Paged and per-packet URLs are rarely requested twice, so without
+// this the cache would only grow.
+function pruneCache(): void {
+  const now = Date.now();
+  for (const [url, entry] of responseCache) {
+    if (entry.expiresAt <= now) responseCache.delete(url);
+  }
+  for (const url of responseCache.keys()) {
+    if (responseCache.size < MAX_CACHE_ENTRIES) break;
+    responseCache.delete(url);
+  }
+}
+
+// Fetch a URL through the response cache. Failed requests are evicted so the
+// next call tries again.
+function cachedRequest<T>(
+  url: string,
+  operation: string,
+  ttl: number,
+  validate: Validator<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  if (signal?.aborted) {
+    return Promise.reject(createAbortError());
+  }
+
+  let entry = responseCache.get(url);
+  if (!entry || entry.expiresAt <= Date.now()) {
+    pruneCache();
+    const controller = new AbortController();
+    const promise = fetchWithRetry(url, operation, validate, controller.signal);
+    // Never expires while in flight; the TTL starts once the response arrives
+    const newEntry: CacheEntry = { promise, expiresAt: Infinity, controller, waiters: 0 };
+    responseCache.set(url, newEntry);
+
+    promise.then(
+      () => {
+        newEntry.expiresAt = Date.now() + ttl;
+      },
+      () => {
+        if (responseCache.get(url) === newEntry) {
+          responseCache.delete(url);
+        }
+      }
+    );
+    entry = newEntry;
+  } else {
+    // Re-insert to mark it most recently used
+    responseCache.delete(url);
+    responseCache.set(url, entry);
+  }
+
+  return waitForEntry(url, entry, signal) as Promise<T>;
+}
+
+// Give one caller its own view of a shared request. Aborting rejects only that
+// caller; the underlying fetch is cancelled once nobody is waiting on it.
+function waitForEntry(url: string, entry: CacheEntry, signal?: AbortSignal): Promise<unknown> {
+  entry.waiters++;
+  if (!signal) return entry.promise;
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      entry.waiters--;
+      if (entry.waiters === 0 && entry.expiresAt === Infinity) {
+        entry.controller.abort();
+        if (responseCache.get(url) === entry) {
+          responseCache.delete(url);
+        }
+      }
+      reject(createAbortError());
+    };
+
+    signal.addEventListener('abort', onAbort, { once: true });
+    entry.promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      err => {
+        signal.removeEventListener('abort', onAbort);
+        reject(err);
+      }
+    );
+  });
+}
+
 export const api = {
+  // Drop cached responses for an endpoint prefix (e.g. '/api/nodes'), or everything
+  invalidateCache(endpoint?: string): void {
+    if (!endpoint) {
+      responseCache.clear();
+      return;
+    }
+    const prefix = buildApiUrl(endpoint);
+    for (const url of Array.from(responseCache.keys())) {
+      if (url.startsWith(prefix)) {
+        responseCache.delete(url);
+      }
+    }
+  },
+
   async getNodes(params?: {
     role?: string;
     channel?: string;
@@ -88,29 +449,26 @@ export const api = {
     days_active?: number;
     hasLocation?: boolean;
     limit?: number;
-  }): Promise<NodesResponse> {
+  }, options?: RequestOptions): Promise<NodesResponse> {
     const url = buildApiUrl('/api/nodes', params);
-    const response = await safeFetch(url, 'fetch nodes');
-    return handleApiResponse<NodesResponse>(response, 'fetch nodes');
+    return cachedRequest(url, 'fetch nodes', CACHE_TTL.nodes, validateNodesResponse, options?.signal);
   },
 
   async getStats(params?: {
     channel?: string;
     days_active?: number;
-  }): Promise<Stats> {
+  }, options?: RequestOptions): Promise<Stats> {
     const url = buildApiUrl('/api/stats', params);
-    const response = await safeFetch(url, 'fetch stats');
-    return handleApiResponse<Stats>(response, 'fetch stats');
+    return cachedRequest(url, 'fetch stats', CACHE_TTL.stats, validateStats, options?.signal);
   },
 
   async getEdges(params?: {
     since?: string;
     filter_type?: string;
     channel?: string;
-  }): Promise<EdgesResponse> {
+  }, options?: RequestOptions): Promise<EdgesResponse> {
     const url = buildApiUrl('/api/edges', params);
-    const response = await safeFetch(url, 'fetch edges');
-    return handleApiResponse<EdgesResponse>(response, 'fetch edges');
+    return cachedRequest(url, 'fetch edges', CACHE_TTL.edges, validateEdgesResponse, options?.signal);
   },
 
   async getChat(params?: {
@@ -118,90 +476,28 @@ export const api = {
     since?: string;
     channel?: string;
     decode_payload?: boolean;
-  }): Promise<ChatResponse> {
+  }, options?: RequestOptions): Promise<ChatResponse> {
     const url = buildApiUrl('/api/chat', params);
-    const response = await safeFetch(url, 'fetch chat messages');
-    return handleApiResponse<ChatResponse>(response, 'fetch chat messages');
+    return cachedRequest(url, 'fetch chat messages', CACHE_TTL.chat, validateChatResponse, options?.signal);
   },
 
-  async getPackets(params?: {
-    limit?: number;
-    since?: string;
-    node_id?: string;
-    gateway_id?: string;
-    portnum?: number;
-    channel?: string;
-    decode_payload?: boolean;
-    includeGatewayCount?: boolean;
-    days_active?: number;
-  }): Promise<{ packets: Array<{
-    id: number;
-    from_id?: string;
-    to_id?: string;
-    from_node_id?: number;
-    to_node_id?: number;
-    channel: string;
-    portnum: number;
-    timestamp?: string;
-    import_time?: string;
-    payload: string | { type: string; text?: string; [key: string]: unknown };
-    payload_hex?: string;
-    gateway_count?: number;
-  }> }> {
+  async getPackets(params?: PacketQueryParams, options?: RequestOptions): Promise<PacketsResponse> {
     const url = buildApiUrl('/api/packets', params);
-    const response = await safeFetch(url, 'fetch packets');
-    return handleApiResponse(response, 'fetch packets');
+    return cachedRequest(url, 'fetch packets', CACHE_TTL.packets, validatePacketsResponse, options?.signal);
   },
 
   async getPacketDetail(packetId: number, params?: {
     decode_payload?: boolean;
     includeGateways?: boolean;
     gatewayLimit?: number;
-  }): Promise<{
-    id: number;
-    from_node_id: number;
-    to_node_id: number;
-    channel: string;
-    portnum: number;
-    import_time: string;
-    payload: string | { type: string; [key: string]: unknown };
-    payload_hex?: string;
-    hop_start?: number;
-    hop_limit?: number;
-    gateways?: Array<{
-      node_id: number;
-      node_name?: string;
-      rx_rssi?: number;
-      rx_snr?: number;
-      hop_start?: number;
-      hop_limit?: number;
-      relay_node?: number;
-    }>;
-  }> {
+  }, options?: RequestOptions): Promise<PacketDetailResponse> {
     const url = buildApiUrl(`/api/packets/${packetId}`, params);
-    const response = await safeFetch(url, 'fetch packet details');
-    return handleApiResponse(response, 'fetch packet details');
+    return cachedRequest(url, 'fetch packet details', CACHE_TTL.packetDetail, validatePacketDetailResponse, options?.signal);
   },
 
-  async getTracerouteDetail(packetId: number): Promise<{
-    packet_id: number;
-    traceroutes: Array<{
-      id: number;
-      packet_id: number;
-      gateway_node_id: number;
-      done: boolean;
-      import_time: string;
-      route: {
-        type: string;
-        route: number[];
-        raw_hex?: string;
-      };
-      route_hex: string;
-    }>;
-  }> {
+  async getTracerouteDetail(packetId: number, options?: RequestOptions): Promise<TracerouteResponse> {
     const url = buildApiUrl(`/api/traceroutes/${packetId}`, { decode_payload: true });
-    const response = await safeFetch(url, 'fetch traceroute');
-    return handleApiResponse(response, 'fetch traceroute');
+    return cachedRequest(url, 'fetch traceroute', CACHE_TTL.traceroute, validateTracerouteResponse, options?.signal);
   },
 
   async getTopGateways(params?: {
@@ -209,35 +505,31 @@ export const api = {
     since?: string;
     channel?: string;
     direct_only?: boolean;
-  }): Promise<TopGatewaysResponse> {
+  }, options?: RequestOptions): Promise<TopGatewaysResponse> {
     const url = buildApiUrl('/api/gateways/top', params);
-    const response = await safeFetch(url, 'fetch top gateways');
-    return handleApiResponse<TopGatewaysResponse>(response, 'fetch top gateways');
+    return cachedRequest(url, 'fetch top gateways', CACHE_TTL.topGateways, validateTopGatewaysResponse, options?.signal);
   },
 
-  async getNodeNeighbors(nodeId: number): Promise<NodeNeighborsResponse> {
-    const url = `${API_BASE_URL}/api/nodes/${nodeId}/neighbors`;
-    const response = await safeFetch(url, 'fetch node neighbors');
-    return handleApiResponse<NodeNeighborsResponse>(response, 'fetch node neighbors');
+  async getNodeNeighbors(nodeId: number, options?: RequestOptions): Promise<NodeNeighborsResponse> {
+    const url = buildApiUrl(`/api/nodes/${nodeId}/neighbors`);
+    return cachedRequest(url, 'fetch node neighbors', CACHE_TTL.nodeNeighbors, validateNodeNeighborsResponse, options?.signal);
   },
 
   async getNodeGraph(params?: {
     channel?: string;
     with_location?: boolean;
     hours?: number;
-  }): Promise<NodeGraphResponse> {
+  }, options?: RequestOptions): Promise<NodeGraphResponse> {
     const url = buildApiUrl('/api/nodegraph', params);
-    const response = await safeFetch(url, 'fetch node graph');
-    return handleApiResponse<NodeGraphResponse>(response, 'fetch node graph');
+    return cachedRequest(url, 'fetch node graph', CACHE_TTL.nodeGraph, validateNodeGraphResponse, options?.signal);
   },
 
   async getTopRelays(params?: {
     limit?: number;
     since?: string;
     channel?: string;
-  }): Promise<TopRelaysResponse> {
+  }, options?: RequestOptions): Promise<TopRelaysResponse> {
     const url = buildApiUrl('/api/relaynodes/top', params);
-    const response = await safeFetch(url, 'fetch top relays');
-    return handleApiResponse<TopRelaysResponse>(response, 'fetch top relays');
+    return cachedRequest(url, 'fetch top relays', CACHE_TTL.topRelays, validateTopRelaysResponse, options?.signal);
   },
 };
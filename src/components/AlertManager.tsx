@@ -0,0 +1,229 @@
+import { useState, useMemo, useSyncExternalStore } from 'react';
+import {
+  ALERT_METRICS,
+  getAlertRules,
+  getAlertHistory,
+  getAlertsSeenAt,
+  onAlertsChange,
+  saveAlertRule,
+  deleteAlertRule,
+  clearAlertHistory,
+  markAlertsSeen,
+  describeThreshold,
+  formatBreachValue
+} from '../utils/alerts';
+import type { AlertComparison, AlertRule } from '../utils/alerts';
+import { metricLabel } from '../utils/telemetry';
+import { formatNodeId, getNodeDisplayName } from '../utils/portNames';
+import type { NodeLookup } from '../utils/nodeLookup';
+
+interface AlertManagerProps {
+  nodeLookup: NodeLookup | null;
+  onNodeClick: (nodeId: string) => void;
+  onPacketClick: (packetId: number) => void;
+}
+
+type Scope = 'all' | 'role' | 'node';
+
+// Breaches listed in the dialog; older ones stay in storage
+const HISTORY_SHOWN = 50;
+
+// Header button and dialog for telemetry threshold alerts: the rules, and the
+// breaches they raised
+export function AlertManager({ nodeLookup, onNodeClick, onPacketClick }: AlertManagerProps) {
+  const rules = useSyncExternalStore(onAlertsChange, getAlertRules);
+  const history = useSyncExternalStore(onAlertsChange, getAlertHistory);
+  const seenAt = useSyncExternalStore(onAlertsChange, getAlertsSeenAt);
+  const [open, setOpen] = useState(false);
+  const [scope, setScope] = useState<Scope>('role');
+  const [target, setTarget] = useState('');
+  const [metric, setMetric] = useState(ALERT_METRICS[0]);
+  const [comparison, setComparison] = useState<AlertComparison>('below');
+  const [threshold, setThreshold] = useState('20');
+  const [notify, setNotify] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const nodes = useMemo(() => {
+    if (!nodeLookup) return [];
+    return nodeLookup.getAllNodes().sort((a, b) => (a.long_name || a.id).localeCompare(b.long_name || b.id));
+  }, [nodeLookup]);
+  const roles = useMemo(() => Array.from(new Set(nodes.map(node => node.role))).sort(), [nodes]);
+  const unseen = history.filter(breach => breach.time > seenAt).length;
+
+  // Breaches raised before the dialog closes count as seen
+  const closeDialog = () => {
+    setOpen(false);
+    setFormError(null);
+    markAlertsSeen();
+  };
+
+  const describeScope = (rule: AlertRule): string => {
+    if (rule.nodeId !== undefined) return getNodeDisplayName(rule.nodeId, nodeLookup);
+    if (rule.role !== undefined) return `Role ${rule.role}`;
+    return 'All nodes';
+  };
+
+  const handleAdd = async () => {
+    const value = parseFloat(threshold);
+    if (!Number.isFinite(value)) {
+      setFormError('Enter a numeric threshold');
+      return;
+    }
+    if (scope !== 'all' && !target) {
+      setFormError(scope === 'role' ? 'Pick a role' : 'Pick a node');
+      return;
+    }
+
+    // Ask while we still have the click; browsers refuse permission prompts otherwise
+    if (notify && 'Notification' in window && Notification.permission === 'default') {
+      await Notification.requestPermission();
+    }
+
+    saveAlertRule({
+      metric,
+      comparison,
+      threshold: value,
+      notify,
+      ...(scope === 'node' ? { nodeId: Number(target) } : {}),
+      ...(scope === 'role' ? { role: target } : {}),
+    });
+    setFormError(null);
+  };
+
+  const notificationsBlocked = notify && 'Notification' in window && Notification.permission === 'denied';
+
+  return (
+    <>
+      <button
+        className="channel-keys-toggle"
+        onClick={() => setOpen(true)}
+        title="Telemetry alerts"
+        aria-label="Manage telemetry alerts"
+      >
+        🔔{unseen > 0 && <span className="channel-keys-count alert-unseen-count">{unseen}</span>}
+      </button>
+
+      {open && (
+        <div className="modal-overlay" onClick={closeDialog}>
+          <div className="modal-panel" onClick={(e) => e.stopPropagation()}>
+            <h3>Telemetry Alerts</h3>
+            <p className="modal-note">
+              Live telemetry is checked against these rules while Meshyview is open. A node
+              alerts when it crosses a threshold, and again only after it has recovered.
+            </p>
+
+            {rules.length > 0 ? (
+              <ul className="channel-key-list">
+                {rules.map(rule => (
+                  <li key={rule.id}>
+                    <span className="channel-key-name">{describeThreshold(rule)}</span>
+                    <span className="channel-key-preset">{describeScope(rule)}</span>
+                    {rule.notify && <span title="Browser notification">🔔</span>}
+                    <button
+                      className="profile-delete-btn alert-rule-delete"
+                      onClick={() => deleteAlertRule(rule.id)}
+                      title="Remove rule"
+                      aria-label={`Remove rule ${describeThreshold(rule)}`}
+                    >
+                      ×
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="modal-note">No rules yet.</p>
+            )}
+
+            <div className="modal-form">
+              <div className="modal-form-row alert-form-row">
+                <label>
+                  Applies To
+                  <select value={scope} onChange={(e) => { setScope(e.target.value as Scope); setTarget(''); }}>
+                    <option value="role">Role</option>
+                    <option value="node">Node</option>
+                    <option value="all">All nodes</option>
+                  </select>
+                </label>
+                {scope !== 'all' && (
+                  <label>
+                    {scope === 'role' ? 'Role' : 'Node'}
+                    <select value={target} onChange={(e) => setTarget(e.target.value)}>
+                      <option value="">Select...</option>
+                      {scope === 'role'
+                        ? roles.map(role => <option key={role} value={role}>{role}</option>)
+                        : nodes.map(node => (
+                          <option key={node.node_id} value={node.node_id}>
+                            {node.long_name || node.short_name} ({formatNodeId(node.node_id)})
+                          </option>
+                        ))}
+                    </select>
+                  </label>
+                )}
+              </div>
+              <div className="modal-form-row alert-form-row">
+                <label>
+                  Metric
+                  <select value={metric} onChange={(e) => setMetric(e.target.value)}>
+                    {ALERT_METRICS.map(m => <option key={m} value={m}>{metricLabel(m)}</option>)}
+                  </select>
+                </label>
+                <label>
+                  When
+                  <select value={comparison} onChange={(e) => setComparison(e.target.value as AlertComparison)}>
+                    <option value="below">Below</option>
+                    <option value="above">Above</option>
+                  </select>
+                </label>
+                <label>
+                  Threshold
+                  <input type="number" value={threshold} onChange={(e) => setThreshold(e.target.value)} step="any" />
+                </label>
+              </div>
+              <label className="alert-notify-toggle">
+                <input type="checkbox" checked={notify} onChange={(e) => setNotify(e.target.checked)} />
+                Browser notification
+              </label>
+              {notificationsBlocked && (
+                <div className="modal-error">Notifications are blocked for this site; alerts will only show in the app.</div>
+              )}
+              {formError && <div className="modal-error" role="alert">{formError}</div>}
+            </div>
+            <div className="filter-actions">
+              <button className="btn-primary" onClick={handleAdd}>Add Rule</button>
+              <button className="btn-secondary" onClick={closeDialog}>Close</button>
+            </div>
+
+            <h4 className="alert-history-title">History</h4>
+            {history.length > 0 ? (
+              <>
+                <ul className="alert-history">
+                  {history.slice(0, HISTORY_SHOWN).map(breach => (
+                    <li key={breach.id} className={breach.time > seenAt ? 'alert-unseen' : undefined}>
+                      <span className="alert-history-time">{new Date(breach.time).toLocaleString()}</span>
+                      <button
+                        className="node-link"
+                        onClick={() => { closeDialog(); onNodeClick(formatNodeId(breach.nodeId)); }}
+                      >
+                        {getNodeDisplayName(breach.nodeId, nodeLookup)}
+                      </button>
+                      <span>{formatBreachValue(breach)}</span>
+                      <button
+                        className="node-link alert-history-packet"
+                        onClick={() => { closeDialog(); onPacketClick(breach.packetId); }}
+                      >
+                        #{breach.packetId}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+                <button className="btn-secondary" onClick={clearAlertHistory}>Clear History</button>
+              </>
+            ) : (
+              <p className="modal-note">No alerts raised yet.</p>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,152 @@
+import { useState, useSyncExternalStore } from 'react';
+import type { ChangeEvent } from 'react';
+import {
+  getChannelKeys,
+  onChannelKeysChange,
+  saveChannelKey,
+  deleteChannelKey,
+  parseChannelUrl
+} from '../utils/channelKeys';
+import type { ImportedChannel } from '../utils/channelKeys';
+import { readQrCode } from '../utils/qrCode';
+
+// Header button and dialog for managing the channel keys used to decrypt
+// private channels in the browser
+export function ChannelKeyManager() {
+  const keys = useSyncExternalStore(onChannelKeysChange, getChannelKeys);
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [psk, setPsk] = useState('');
+  const [channelUrl, setChannelUrl] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+  const [importedMessage, setImportedMessage] = useState<string | null>(null);
+
+  const resetForm = () => {
+    setName('');
+    setPsk('');
+    setChannelUrl('');
+    setFormError(null);
+  };
+
+  const importChannels = (channels: ImportedChannel[]) => {
+    channels.forEach(channel => saveChannelKey(channel.name, channel.psk, channel.preset));
+    const preset = channels.find(channel => channel.preset)?.preset;
+    setImportedMessage(`Imported ${channels.map(channel => channel.name).join(', ')}${preset ? ` (${preset})` : ''}`);
+  };
+
+  const handleAdd = () => {
+    setImportedMessage(null);
+    try {
+      if (channelUrl.trim()) {
+        importChannels(parseChannelUrl(channelUrl));
+      } else {
+        if (!name.trim() || !psk.trim()) {
+          setFormError('Enter a channel name and key, or paste a channel URL');
+          return;
+        }
+        saveChannelKey(name, psk);
+      }
+      resetForm();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Invalid key');
+    }
+  };
+
+  const handleQrFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Clear the input so picking the same file again still fires a change
+    event.target.value = '';
+    if (!file) return;
+
+    setImportedMessage(null);
+    try {
+      importChannels(parseChannelUrl(await readQrCode(file)));
+      resetForm();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Could not read the QR code');
+    }
+  };
+
+  const maskKey = (value: string): string => {
+    return value.length > 8 ? `${value.slice(0, 4)}…${value.slice(-4)}` : value;
+  };
+
+  return (
+    <>
+      <button
+        className="channel-keys-toggle"
+        onClick={() => setOpen(true)}
+        title="Channel keys"
+        aria-label="Manage channel keys"
+      >
+        🔑{keys.length > 0 && <span className="channel-keys-count">{keys.length}</span>}
+      </button>
+
+      {open && (
+        <div className="modal-overlay" onClick={() => setOpen(false)}>
+          <div className="modal-panel" onClick={(e) => e.stopPropagation()}>
+            <h3>Channel Keys</h3>
+            <p className="modal-note">
+              Packets on these channels are decrypted in your browser. Keys are stored
+              on this device only and are never sent to the server.
+            </p>
+
+            {keys.length > 0 ? (
+              <ul className="channel-key-list">
+                {keys.map(key => (
+                  <li key={key.id}>
+                    <span className="channel-key-name">{key.name}</span>
+                    {key.preset && <span className="channel-key-preset">{key.preset}</span>}
+                    <code className="channel-key-psk">{maskKey(key.psk)}</code>
+                    <button
+                      className="profile-delete-btn"
+                      onClick={() => deleteChannelKey(key.id)}
+                      title={`Remove key for ${key.name}`}
+                      aria-label={`Remove key for ${key.name}`}
+                    >
+                      ×
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="modal-note">No keys yet.</p>
+            )}
+
+            <div className="modal-form">
+              <div className="modal-form-row channel-key-form-row">
+                <label>
+                  Channel Name
+                  <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Ops" />
+                </label>
+                <label>
+                  Key (base64)
+                  <input value={psk} onChange={(e) => setPsk(e.target.value)} placeholder="AQ==" autoComplete="off" />
+                </label>
+              </div>
+              <label>
+                Or Channel URL
+                <input
+                  value={channelUrl}
+                  onChange={(e) => setChannelUrl(e.target.value)}
+                  placeholder="https://meshtastic.org/e/#..."
+                  autoComplete="off"
+                />
+              </label>
+              <label className="channel-key-qr">
+                Or QR Code Image
+                <input type="file" accept="image/*" onChange={handleQrFile} />
+              </label>
+              {formError && <div className="modal-error" role="alert">{formError}</div>}
+              {importedMessage && <div className="modal-note" role="status">{importedMessage}</div>}
+            </div>
+            <div className="filter-actions">
+              <button className="btn-primary" onClick={handleAdd}>Add Key</button>
+              <button className="btn-secondary" onClick={() => { setOpen(false); resetForm(); setImportedMessage(null); }}>Close</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -1,4 +1,6 @@
+import { useSyncExternalStore } from 'react';
 import type { Stats } from '../types';
+import { getChannelKeys, onChannelKeysChange } from '../utils/channelKeys';
 
 interface ChannelSelectorProps {
   selectedChannel: string;
@@ -7,12 +9,19 @@ interface ChannelSelectorProps {
 }
 
 export function ChannelSelector({ selectedChannel, onChannelChange, stats }: ChannelSelectorProps) {
+  const channelKeys = useSyncExternalStore(onChannelKeysChange, getChannelKeys);
+
   // Sort channels by node count (descending), not alphabetically
-  const channels = stats?.nodes_by_channel 
+  const seenChannels = stats?.nodes_by_channel 
     ? Object.entries(stats.nodes_by_channel)
         .sort(([, countA], [, countB]) => countB - countA)
         .map(([channel]) => channel)
     : [];
+  // Channels the user has a key for are listed even before any of their nodes show up
+  const channels = [
+    ...seenChannels,
+    ...channelKeys.map(key => key.name).filter(name => !seenChannels.includes(name)),
+  ];
 
   return (
     <div className="channel-selector">
@@ -1,8 +1,12 @@
-import { useState, useEffect, useRef, useMemo } from 'react';
-import { api } from '../api';
+import { useState, useEffect, useRef, useMemo, useSyncExternalStore } from 'react';
+import { api, isAbortError } from '../api';
+import { meshSocket } from '../websocket';
 import type { ChatMessage } from '../types';
 import { formatCompactDateTime, formatNodeId } from '../utils/portNames';
 import type { NodeLookup } from '../utils/nodeLookup';
+import { TEXT_MESSAGE_PORTNUM, DEFAULT_CHAT_LIMIT } from '../utils/constants';
+import { getChannelKeys, onChannelKeysChange } from '../utils/channelKeys';
+import { useDecryptedPackets } from '../hooks/useDecryptedPackets';
 import { LoadingState, ErrorState } from './ui';
 
 interface ChatViewProps {
@@ -18,8 +22,9 @@ export function ChatView({ nodeLookup, onNodeClick, onPacketClick, globalChannel
   const [error, setError] = useState<string | null>(null);
   const [autoScroll, setAutoScroll] = useState(true);
   const [replyMessages, setReplyMessages] = useState<Map<number, ChatMessage>>(new Map()); // Cache of reply messages by packet ID
+  const [encryptedMessages, setEncryptedMessages] = useState<ChatMessage[]>([]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const wsRef = useRef<WebSocket | null>(null);
+  const hasChannelKeys = useSyncExternalStore(onChannelKeysChange, getChannelKeys).length > 0;
 
   // Use global channel if provided, otherwise default to empty (all channels)
   const selectedChannel = globalChannel || '';
@@ -33,6 +38,7 @@ export function ChatView({ nodeLookup, onNodeClick, onPacketClick, globalChannel
 
   // Fetch initial messages
   useEffect(() => {
+    const controller = new AbortController();
     const fetchMessages = async () => {
       try {
         setLoading(true);
@@ -44,87 +50,124 @@ export function ChatView({ nodeLookup, onNodeClick, onPacketClick, globalChannel
         if (selectedChannel) {
           params.channel = selectedChannel;
         }
-        const data = await api.getChat(params);
-        // Reverse the array so oldest messages are first (top) and newest are last (bottom)
-        setMessages((data.packets || []).reverse());
+        const data = await api.getChat(params, { signal: controller.signal });
+        // Reverse a copy so oldest messages are first (top) and newest are last (bottom);
+        // the response object itself is shared through the api cache
+        setMessages([...(data.packets || [])].reverse());
       } catch (err) {
+        if (isAbortError(err)) return;
         setError(err instanceof Error ? err.message : 'Failed to fetch messages');
         console.error('Error fetching messages:', err);
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
       }
     };
 
     fetchMessages();
+    return () => controller.abort();
   }, [selectedChannel]);
 
-  // WebSocket subscription for real-time updates
+  // With channel keys stored, also load packets the server couldn't decrypt;
+  // any that turn out to be text messages are shown alongside the rest
   useEffect(() => {
-    const params = new URLSearchParams();
-    params.append('portnum', '1'); // Text messages
-    if (selectedChannel) {
-      params.append('channel', selectedChannel);
+    if (!hasChannelKeys) {
+      setEncryptedMessages([]);
+      return;
     }
-    
-    const ws = new WebSocket(`wss://meshql.bayme.sh/ws?${params.toString()}`);
-    wsRef.current = ws;
 
-    ws.onopen = () => {
-      console.log('WebSocket connected for chat');
-    };
-
-    ws.onmessage = (event) => {
+    const controller = new AbortController();
+    const fetchEncrypted = async () => {
       try {
-        const data = JSON.parse(event.data);
-        
-        // Handle different message types
-        if (data.type === 'connected') {
-          console.log('Connected to MeshQL WebSocket:', data.filters);
-        } else if (data.type === 'subscribed') {
-          console.log('Subscribed to chat updates:', data.filters);
-        } else if (data.type === 'packet') {
-          // Add new chat message to the list
-          const newMessage: ChatMessage = {
-            id: data.id,
-            from_node_id: data.from_node_id,
-            to_node_id: data.to_node_id,
-            channel: data.channel,
-            portnum: data.portnum,
-            import_time: data.import_time,
-            payload: data.payload
-          };
-          
-          // Only add if it's for the current channel (or all channels if none selected)
-          if (!selectedChannel || newMessage.channel === selectedChannel) {
-            setMessages(prev => {
-              // Deduplicate: check if message with this ID already exists
-              if (prev.some(msg => msg.id === newMessage.id)) {
-                return prev;
-              }
-              return [...prev, newMessage];
-            });
-          }
-        }
+        const data = await api.getPackets({
+          channel: selectedChannel || undefined,
+          portnum: 0,
+          decode_payload: false,
+          limit: DEFAULT_CHAT_LIMIT
+        }, { signal: controller.signal });
+        setEncryptedMessages((data.packets || []).map(pkt => ({
+          id: pkt.id,
+          from_node_id: pkt.from_node_id ?? 0,
+          to_node_id: pkt.to_node_id ?? 0,
+          channel: pkt.channel,
+          portnum: pkt.portnum,
+          import_time: pkt.import_time || '',
+          payload: pkt.payload,
+          payload_hex: pkt.payload_hex
+        })));
       } catch (err) {
-        // Ignore non-JSON messages or parsing errors
-        console.debug('WebSocket message parse error:', err);
+        if (isAbortError(err)) return;
+        console.error('Error fetching encrypted packets:', err);
       }
     };
 
-    ws.onerror = (err) => {
-      console.error('WebSocket error:', err);
-    };
+    fetchEncrypted();
 
-    ws.onclose = () => {
-      console.log('WebSocket disconnected');
-    };
+    const unsubscribe = meshSocket.subscribe(
+      { portnum: 0, channel: selectedChannel || undefined },
+      (message) => {
+        if (message.type !== 'packet') return;
+        const newMessage: ChatMessage = {
+          id: message.id,
+          from_node_id: message.from_node_id ?? 0,
+          to_node_id: message.to_node_id ?? 0,
+          channel: message.channel,
+          portnum: message.portnum,
+          import_time: message.import_time || '',
+          payload: message.payload,
+          payload_hex: message.payload_hex
+        };
+        setEncryptedMessages(prev => prev.some(msg => msg.id === newMessage.id) ? prev : [...prev, newMessage]);
+      }
+    );
 
-    // Cleanup on unmount or when channel changes
     return () => {
-      if (ws.readyState === WebSocket.OPEN) {
-        ws.close();
-      }
+      controller.abort();
+      unsubscribe();
     };
+  }, [selectedChannel, hasChannelKeys]);
+
+  const decrypted = useDecryptedPackets(encryptedMessages);
+
+  // Server-decoded and decrypted text messages, oldest first
+  const allMessages = useMemo(() => {
+    const decryptedText = encryptedMessages.flatMap(msg => {
+      const result = decrypted.get(msg.id);
+      if (!result || result.portnum !== TEXT_MESSAGE_PORTNUM || !result.payload) return [];
+      return [{ ...msg, portnum: result.portnum, payload: result.payload }];
+    });
+    if (decryptedText.length === 0) return messages;
+    return [...messages, ...decryptedText].sort((a, b) => a.import_time.localeCompare(b.import_time));
+  }, [messages, encryptedMessages, decrypted]);
+
+  // Live text messages from the shared WebSocket connection
+  useEffect(() => {
+    return meshSocket.subscribe(
+      { portnum: TEXT_MESSAGE_PORTNUM, channel: selectedChannel || undefined },
+      (message) => {
+        if (message.type !== 'packet') return;
+
+        // Add new chat message to the list
+        const newMessage: ChatMessage = {
+          id: message.id,
+          from_node_id: message.from_node_id ?? 0,
+          to_node_id: message.to_node_id ?? 0,
+          channel: message.channel,
+          portnum: message.portnum,
+          import_time: message.import_time || '',
+          payload: message.payload
+        };
+
+        setMessages(prev => {
+          // Deduplicate: check if message with this ID already exists
+          if (prev.some(msg => msg.id === newMessage.id)) {
+            return prev;
+          }
+          return [...prev, newMessage];
+        });
+      }
+    );
   }, [selectedChannel]);
 
   const getMessageText = (msg: ChatMessage): string => {
@@ -142,12 +185,20 @@ export function ChatView({ nodeLookup, onNodeClick, onPacketClick, globalChannel
     return nodeLookup.getNodeName(nodeId);
   };
 
+  // Reply lookups aren't tied to a single render, so they are only cancelled on unmount
+  const replyControllerRef = useRef<AbortController | null>(null);
+  useEffect(() => {
+    const controller = new AbortController();
+    replyControllerRef.current = controller;
+    return () => controller.abort();
+  }, []);
+
   // Fetch a reply message by packet ID if not already cached
   const fetchReplyMessage = async (replyId: number) => {
     if (replyMessages.has(replyId)) return; // Already cached
     
     // First check if the message is already in our loaded messages
-    const existingMsg = messages.find(m => m.id === replyId);
+    const existingMsg = allMessages.find(m => m.id === replyId);
     if (existingMsg) {
       setReplyMessages(prev => new Map(prev).set(replyId, existingMsg));
       return;
@@ -155,7 +206,7 @@ export function ChatView({ nodeLookup, onNodeClick, onPacketClick, globalChannel
     
     // If not found locally, fetch from API
     try {
-      const packet = await api.getPacketDetail(replyId, { decode_payload: true });
+      const packet = await api.getPacketDetail(replyId, { decode_payload: true }, { signal: replyControllerRef.current?.signal });
       const replyMsg: ChatMessage = {
         id: packet.id,
         from_node_id: packet.from_node_id,
@@ -167,6 +218,7 @@ export function ChatView({ nodeLookup, onNodeClick, onPacketClick, globalChannel
       };
       setReplyMessages(prev => new Map(prev).set(replyId, replyMsg));
     } catch (err) {
+      if (isAbortError(err)) return;
       console.error(`Failed to fetch reply message ${replyId}:`, err);
     }
   };
@@ -203,7 +255,7 @@ export function ChatView({ nodeLookup, onNodeClick, onPacketClick, globalChannel
   // Group reactions by the message they're reacting to
   const messageReactions = useMemo(() => {
     const reactions = new Map<number, Array<{ emoji: string; from: number }>>();
-    messages.forEach(msg => {
+    allMessages.forEach(msg => {
       if (isReaction(msg)) {
         const replyId = getReplyId(msg);
         const emoji = getEmoji(msg);
@@ -216,12 +268,12 @@ export function ChatView({ nodeLookup, onNodeClick, onPacketClick, globalChannel
       }
     });
     return reactions;
-  }, [messages]);
+  }, [allMessages]);
 
   // Filter out reaction messages from main display
   const nonReactionMessages = useMemo(() => {
-    return messages.filter(msg => !isReaction(msg));
-  }, [messages]);
+    return allMessages.filter(msg => !isReaction(msg));
+  }, [allMessages]);
 
   // Fetch reply messages for all messages that have reply_id
   useEffect(() => {
@@ -275,6 +327,9 @@ export function ChatView({ nodeLookup, onNodeClick, onPacketClick, globalChannel
                     <a href="#" onClick={(e) => { e.preventDefault(); onNodeClick(formatNodeId(msg.from_node_id)); }} className="chat-node-name">
                       {getNodeName(msg.from_node_id)}
                     </a>
+                    {decrypted.has(msg.id) && (
+                      <span className="decrypted-badge" title={`Decrypted with the "${decrypted.get(msg.id)!.keyName}" key`}>🔓</span>
+                    )}
                     : {getMessageText(msg)}
                     {replyMsg && (
                       <div className="chat-reply-context">
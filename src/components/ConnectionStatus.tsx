@@ -0,0 +1,63 @@
+import { useState, useEffect, useSyncExternalStore } from 'react';
+import { meshSocket } from '../websocket';
+import { EventConsole } from './EventConsole';
+
+// Format elapsed time compactly: 5s, 3m, 2h
+function formatElapsed(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h`;
+}
+
+export function ConnectionStatus() {
+  const state = useSyncExternalStore(meshSocket.onStateChange, meshSocket.getState);
+  const [consoleOpen, setConsoleOpen] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick every second so "time since last message" stays current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  let label: string;
+  let statusClass: string;
+  if (state.status === 'connected') {
+    label = 'Live';
+    statusClass = 'status-connected';
+  } else if (state.status === 'connecting' || state.status === 'reconnecting') {
+    label = state.nextReconnectAt && state.nextReconnectAt > now
+      ? `Reconnecting in ${formatElapsed(state.nextReconnectAt - now)}`
+      : 'Reconnecting...';
+    statusClass = 'status-reconnecting';
+  } else {
+    label = 'Offline';
+    statusClass = 'status-offline';
+  }
+
+  const lastMessage = state.lastMessageAt
+    ? `last message ${formatElapsed(now - state.lastMessageAt)} ago`
+    : 'no messages yet';
+
+  return (
+    <>
+      <button
+        className={`connection-status ${statusClass}`}
+        onClick={() => setConsoleOpen(!consoleOpen)}
+        title={`Live updates: ${label}, ${lastMessage}. Click for event console.`}
+        aria-label={`Live updates ${label}, ${lastMessage}`}
+      >
+        <span className="connection-status-dot" />
+        <span className="connection-status-label">{label}</span>
+        {state.lastMessageAt && (
+          <span className="connection-status-age">{formatElapsed(now - state.lastMessageAt)}</span>
+        )}
+      </button>
+      {consoleOpen && (
+        <EventConsole state={state} onClose={() => setConsoleOpen(false)} />
+      )}
+    </>
+  );
+}
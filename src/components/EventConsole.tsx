@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import type { SocketEvent, SocketState } from '../websocket';
+import { meshSocket } from '../websocket';
+
+interface EventConsoleProps {
+  state: SocketState;
+  onClose: () => void;
+}
+
+const EVENT_KINDS: Array<SocketEvent['kind']> = ['open', 'close', 'connected', 'subscribed', 'node', 'packet', 'rejected'];
+
+function formatFilters(filters?: Record<string, unknown>): string {
+  if (!filters || Object.keys(filters).length === 0) return '(none)';
+  return Object.entries(filters).map(([key, value]) => `${key}=${String(value)}`).join(' ');
+}
+
+export function EventConsole({ state, onClose }: EventConsoleProps) {
+  const [hiddenKinds, setHiddenKinds] = useState<Set<SocketEvent['kind']>>(new Set());
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const toggleKind = (kind: SocketEvent['kind']) => {
+    setHiddenKinds(prev => {
+      const next = new Set(prev);
+      if (next.has(kind)) {
+        next.delete(kind);
+      } else {
+        next.add(kind);
+      }
+      return next;
+    });
+  };
+
+  const visibleEvents = state.events.filter(event => !hiddenKinds.has(event.kind));
+
+  return (
+    <div className="event-console" role="log" aria-label="WebSocket event console">
+      <div className="event-console-header">
+        <h3>WebSocket Events</h3>
+        <span className="event-console-summary">
+          Status: {state.status}
+          {state.reconnectAttempt > 0 && ` (attempt ${state.reconnectAttempt})`}
+          {state.rejectedCount > 0 && (
+            <span className="event-console-rejected" title="Frames dropped because they were malformed or of an unknown type">
+              {' '}· {state.rejectedCount} rejected
+            </span>
+          )}
+        </span>
+        <div className="event-console-filters">
+          {EVENT_KINDS.map(kind => (
+            <label key={kind}>
+              <input
+                type="checkbox"
+                checked={!hiddenKinds.has(kind)}
+                onChange={() => toggleKind(kind)}
+              />
+              {' '}{kind}
+            </label>
+          ))}
+        </div>
+        <button className="btn-secondary" onClick={() => meshSocket.clearEvents()}>Clear</button>
+        <button className="toast-close" onClick={onClose} aria-label="Close event console">×</button>
+      </div>
+      <div className="event-console-body">
+        {visibleEvents.length === 0 ? (
+          <div className="event-console-empty">No events yet</div>
+        ) : (
+          <table className="event-console-table">
+            <thead>
+              <tr>
+                <th>Time</th>
+                <th>Event</th>
+                <th>Filters</th>
+                <th>Payload</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleEvents.map(event => {
+                const payload = event.payload !== undefined ? JSON.stringify(event.payload) : '';
+                const expanded = expandedId === event.id;
+                return (
+                  <tr key={event.id} className={`event-kind-${event.kind}`}>
+                    <td className="event-time">{new Date(event.time).toLocaleTimeString()}</td>
+                    <td><span className="event-kind">{event.kind}</span></td>
+                    <td className="event-filters">{formatFilters(event.filters)}</td>
+                    <td
+                      className="event-payload"
+                      onClick={() => setExpandedId(expanded ? null : event.id)}
+                      title={expanded ? 'Click to collapse' : 'Click to expand'}
+                    >
+                      {expanded
+                        ? <pre>{JSON.stringify(event.payload, null, 2)}</pre>
+                        : payload.length > 120 ? `${payload.substring(0, 120)}...` : payload}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
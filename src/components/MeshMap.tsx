@@ -1,9 +1,20 @@
 import { MapContainer, TileLayer, Marker, Popup, useMap, LayersControl, Polyline, useMapEvents } from 'react-leaflet';
-import { useEffect, useState } from 'react';
+import { Fragment, useEffect, useMemo, useState } from 'react';
 import L from 'leaflet';
 import type { Node, NodeGraphEdge } from '../types';
-import { api } from '../api';
-import { MAIN_MAP_HEIGHT_COLLAPSED, MAIN_MAP_HEIGHT_EXPANDED } from '../utils/constants';
+import { api, isAbortError } from '../api';
+import { getActiveProfile } from '../utils/meshProfiles';
+import { MAIN_MAP_HEIGHT_COLLAPSED, MAIN_MAP_HEIGHT_EXPANDED, MAP_CLUSTER_MAX_ZOOM, MAP_CLUSTER_RADIUS_PX } from '../utils/constants';
+import { useWaypoints } from '../hooks/useWaypoints';
+import { waypointStatus } from '../utils/waypoints';
+import type { MeshWaypoint, WaypointStatus } from '../utils/waypoints';
+import { useTakTracks } from '../hooks/useTakTracks';
+import { formatTakEnum, teamColor } from '../utils/tak';
+import type { TakPosition } from '../utils/tak';
+import { formatNodeId } from '../utils/portNames';
+import { formatModemPreset } from '../utils/mapReports';
+import { clusterPoints } from '../utils/clustering';
+import type { Cluster } from '../utils/clustering';
 import 'leaflet/dist/leaflet.css';
 
 const { BaseLayer } = LayersControl;
@@ -33,13 +44,18 @@ interface MeshMapProps {
   showConnections?: boolean;
   connectionChannel?: string;
   connectionHours?: number;
+  showWaypoints?: boolean;
+  waypointDaysActive?: number;
+  showTak?: boolean;
+  takDaysActive?: number;
+  onPacketClick?: (packetId: number) => void;
 }
 
 // Meshtastic stores coordinates as integers (lat/lon * 10^7)
 const COORDINATE_SCALE_FACTOR = 10000000;
 
-// Default center (Bay Area)
-const DEFAULT_CENTER: [number, number] = [37.557593, -122.006219];
+// Default center and zoom come from the active mesh profile
+const { defaultCenter: DEFAULT_CENTER, defaultZoom: DEFAULT_ZOOM } = getActiveProfile();
 
 // Component to handle map view adjustments
 function MapViewController({ nodes }: { nodes: Node[] }) {
@@ -110,7 +126,7 @@ function MapViewController({ nodes }: { nodes: Node[] }) {
       setInitialViewSet(true);
     } else if (nodes.length === 0) {
       // Fall back to default center only if no nodes at all
-      map.setView(DEFAULT_CENTER, 9);
+      map.setView(DEFAULT_CENTER, DEFAULT_ZOOM);
       setInitialViewSet(true);
     }
   }, [map, nodes, userLocation, geolocationAttempted, initialViewSet]);
@@ -118,6 +134,69 @@ function MapViewController({ nodes }: { nodes: Node[] }) {
   return null;
 }
 
+const WAYPOINT_STATUS_LABELS: Record<WaypointStatus, string> = {
+  active: 'Active',
+  expiring: 'Expiring soon',
+  expired: 'Expired',
+};
+
+// Waypoint names and icons come off the air and end up in marker HTML
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"]/g, ch => `&#${ch.charCodeAt(0)};`);
+}
+
+function createWaypointIcon(waypoint: MeshWaypoint, status: WaypointStatus) {
+  return L.divIcon({
+    className: 'waypoint-marker',
+    html: `<div class="waypoint-icon waypoint-${status}" title="${escapeHtml(waypoint.name)}">${escapeHtml(waypoint.icon)}</div>`,
+    iconSize: [28, 28],
+    iconAnchor: [14, 14],
+    popupAnchor: [0, -14],
+  });
+}
+
+// Team-colored dot with the callsign beside it
+function createTakIcon(position: TakPosition, label: string) {
+  return L.divIcon({
+    className: 'tak-marker',
+    html: `<div class="tak-icon" style="background:${teamColor(position.team)}"></div><span class="tak-label">${escapeHtml(label)}</span>`,
+    iconSize: [16, 16],
+    iconAnchor: [8, 8],
+    popupAnchor: [0, -8],
+  });
+}
+
+function formatExpiry(waypoint: MeshWaypoint, status: WaypointStatus): string {
+  if (waypoint.expire === undefined) return 'Never';
+  const date = new Date(waypoint.expire * 1000).toLocaleString();
+  return status === 'expired' ? `Expired ${date}` : date;
+}
+
+// Reports the zoom level as it changes, for zoom-aware clustering
+function ZoomWatcher({ onZoomChange }: { onZoomChange: (zoom: number) => void }) {
+  const map = useMapEvents({
+    zoomend: () => onZoomChange(map.getZoom()),
+  });
+  useEffect(() => {
+    onZoomChange(map.getZoom());
+  }, [map, onZoomChange]);
+  return null;
+}
+
+// A cluster of nodes; clicking it zooms in until its nodes split apart
+function NodeClusterMarker({ cluster, icon }: { cluster: Cluster<Node>; icon: L.DivIcon }) {
+  const map = useMap();
+  return (
+    <Marker
+      position={cluster.center}
+      icon={icon}
+      eventHandlers={{
+        click: () => map.fitBounds(cluster.bounds, { padding: [50, 50] }),
+      }}
+    />
+  );
+}
+
 // Component to handle map clicks for clearing selection
 function MapClickHandler({ onMapClick }: { onMapClick: () => void }) {
   useMapEvents({
@@ -134,12 +213,20 @@ export function MeshMap({
   recentlyUpdatedNodes,
   showConnections = false,
   connectionChannel = 'MediumFast',
-  connectionHours = 24
+  connectionHours = 24,
+  showWaypoints = false,
+  waypointDaysActive = 1,
+  showTak = false,
+  takDaysActive = 1,
+  onPacketClick
 }: MeshMapProps) {
   const [, forceUpdate] = useState({});
   const [connections, setConnections] = useState<NodeGraphEdge[]>([]);
   const [mapExpanded, setMapExpanded] = useState(false);
   const [selectedNodeId, setSelectedNodeId] = useState<number | null>(null);
+  const [zoom, setZoom] = useState(DEFAULT_ZOOM);
+  const waypoints = useWaypoints(connectionChannel, waypointDaysActive, showWaypoints);
+  const takTracks = useTakTracks(connectionChannel, takDaysActive, showTak);
   
   // Force re-render every second to update glow effect
   useEffect(() => {
@@ -159,21 +246,24 @@ export function MeshMap({
       return;
     }
 
+    const controller = new AbortController();
     const fetchConnections = async () => {
       try {
         const graphData = await api.getNodeGraph({
           channel: connectionChannel,
           with_location: true,
           hours: connectionHours
-        });
+        }, { signal: controller.signal });
         setConnections(graphData.edges);
       } catch (err) {
+        if (isAbortError(err)) return;
         console.error('Error fetching node connections:', err);
         setConnections([]);
       }
     };
 
     fetchConnections();
+    return () => controller.abort();
   }, [showConnections, connectionChannel, connectionHours]);
   
   // Filter nodes with valid coordinates
@@ -196,6 +286,38 @@ export function MeshMap({
     return [lat / COORDINATE_SCALE_FACTOR, lon / COORDINATE_SCALE_FACTOR];
   };
 
+  // Group nearby nodes at the current zoom. Lone nodes, and the selected node
+  // and its connections while "Show Connections" is on, get their own markers.
+  const { singleNodes, nodeClusters } = useMemo(() => {
+    const located = nodes.filter((node) => node.last_lat !== null && node.last_long !== null);
+    if (zoom >= MAP_CLUSTER_MAX_ZOOM) {
+      return { singleNodes: located, nodeClusters: [] as Cluster<Node>[] };
+    }
+
+    const highlighted = new Set<number>();
+    if (showConnections && selectedNodeId !== null) {
+      highlighted.add(selectedNodeId);
+      connections.forEach(edge => {
+        if (edge.source === selectedNodeId) highlighted.add(edge.target);
+        if (edge.target === selectedNodeId) highlighted.add(edge.source);
+      });
+    }
+
+    const clusters = clusterPoints(
+      located.filter(node => !highlighted.has(node.node_id)),
+      (node) => [node.last_lat! / COORDINATE_SCALE_FACTOR, node.last_long! / COORDINATE_SCALE_FACTOR],
+      zoom,
+      MAP_CLUSTER_RADIUS_PX
+    );
+    return {
+      singleNodes: [
+        ...clusters.filter(cluster => cluster.items.length === 1).map(cluster => cluster.items[0]),
+        ...located.filter(node => highlighted.has(node.node_id)),
+      ],
+      nodeClusters: clusters.filter(cluster => cluster.items.length > 1),
+    };
+  }, [nodes, zoom, showConnections, selectedNodeId, connections]);
+
   // Get role color
   const getRoleColor = (role: string): string => {
     const colors: Record<string, string> = {
@@ -225,8 +347,15 @@ export function MeshMap({
     return 1 - (elapsed / maxDuration);
   };
 
-  // Create custom icons based on role and update status
-  const createCustomIcon = (role: string, nodeId: number) => {
+  const getGlowStyle = (glowOpacity: number): string => {
+    return glowOpacity > 0 
+      ? `box-shadow: 0 0 20px rgba(255, 255, 0, ${glowOpacity}), 0 0 40px rgba(255, 255, 0, ${glowOpacity * 0.5}), 0 2px 4px rgba(0,0,0,0.3);`
+      : 'box-shadow: 0 2px 4px rgba(0,0,0,0.3);';
+  };
+
+  // Create custom icons based on role and update status. Approximate (map
+  // report) positions get a hollow, dashed marker.
+  const createCustomIcon = (role: string, nodeId: number, approximate = false) => {
     const color = getRoleColor(role);
     const glowOpacity = getGlowOpacity(nodeId);
     
@@ -243,30 +372,59 @@ export function MeshMap({
       }
     }
     
-    const glowStyle = glowOpacity > 0 
-      ? `box-shadow: 0 0 20px rgba(255, 255, 0, ${glowOpacity}), 0 0 40px rgba(255, 255, 0, ${glowOpacity * 0.5}), 0 2px 4px rgba(0,0,0,0.3);`
-      : 'box-shadow: 0 2px 4px rgba(0,0,0,0.3);';
+    const glowStyle = getGlowStyle(glowOpacity);
     
     return L.divIcon({
       className: 'custom-marker',
-      html: `<div style="background-color: ${color}; width: 20px; height: 20px; border-radius: 50%; border: 2px solid white; ${glowStyle} opacity: ${nodeOpacity};"></div>`,
+      html: approximate
+        ? `<div style="background-color: ${color}80; width: 20px; height: 20px; border-radius: 50%; border: 2px dashed ${color}; ${glowStyle} opacity: ${nodeOpacity};"></div>`
+        : `<div style="background-color: ${color}; width: 20px; height: 20px; border-radius: 50%; border: 2px solid white; ${glowStyle} opacity: ${nodeOpacity};"></div>`,
       iconSize: [20, 20],
       iconAnchor: [10, 10],
       popupAnchor: [0, -10],
     });
   };
 
+  // Cluster icons: the node count on a ring split by role color. They glow
+  // with their most recently updated node, and dim while a selected node is
+  // showing its connections, since those never sit in a cluster.
+  const createClusterIcon = (cluster: Cluster<Node>) => {
+    const total = cluster.items.length;
+    const roleCounts = new Map<string, number>();
+    cluster.items.forEach(node => roleCounts.set(node.role, (roleCounts.get(node.role) ?? 0) + 1));
+    const roles = Array.from(roleCounts).sort((a, b) => b[1] - a[1]);
+
+    let angle = 0;
+    const segments = roles.map(([role, count]) => {
+      const start = angle;
+      angle += (count / total) * 360;
+      return `${getRoleColor(role)} ${start}deg ${angle}deg`;
+    });
+    const title = `${total} nodes: ${roles.map(([role, count]) => `${role} ${count}`).join(', ')}`;
+    const size = Math.min(56, 30 + Math.round(Math.log10(total) * 12));
+    const glowOpacity = Math.max(...cluster.items.map(node => getGlowOpacity(node.node_id)));
+    const clusterOpacity = showConnections && selectedNodeId !== null ? 0.1 : 1;
+
+    return L.divIcon({
+      className: 'node-cluster-marker',
+      html: `<div class="node-cluster" title="${escapeHtml(title)}" style="width: ${size}px; height: ${size}px; background: conic-gradient(${segments.join(', ')}); ${getGlowStyle(glowOpacity)} opacity: ${clusterOpacity};"><span>${total}</span></div>`,
+      iconSize: [size, size],
+      iconAnchor: [size / 2, size / 2],
+    });
+  };
+
   return (
     <div className="mesh-map-container">
       <div className="mesh-map-wrapper">
         <MapContainer
           key={`${nodes.length}-${mapExpanded}`}
           center={DEFAULT_CENTER}
-          zoom={9}
+          zoom={DEFAULT_ZOOM}
           style={{ height: mapExpanded ? `${MAIN_MAP_HEIGHT_EXPANDED}px` : `${MAIN_MAP_HEIGHT_COLLAPSED}px`, width: '100%' }}
         >
             <MapViewController nodes={nodes} />
             <MapClickHandler onMapClick={() => setSelectedNodeId(null)} />
+            <ZoomWatcher onZoomChange={setZoom} />
             
             <LayersControl position="topright">
               <BaseLayer checked name="Street Map">
@@ -329,14 +487,120 @@ export function MeshMap({
               );
             })}
 
+            {/* Draw waypoints shared on the mesh */}
+            {showWaypoints && waypoints.map((waypoint) => {
+              const status = waypointStatus(waypoint);
+              const sender = waypoint.fromNodeId !== undefined
+                ? nodes.find(node => node.node_id === waypoint.fromNodeId)
+                : undefined;
+              return (
+                <Marker
+                  key={`waypoint-${waypoint.id}`}
+                  position={[waypoint.lat, waypoint.lng]}
+                  icon={createWaypointIcon(waypoint, status)}
+                  zIndexOffset={-100}
+                >
+                  <Popup>
+                    <div className="waypoint-popup">
+                      <h3>{waypoint.icon} {waypoint.name || 'Waypoint'}</h3>
+                      {waypoint.description && <p className="waypoint-description">{waypoint.description}</p>}
+                      <p><strong>Status:</strong> <span className={`waypoint-status waypoint-status-${status}`}>{WAYPOINT_STATUS_LABELS[status]}</span></p>
+                      <p><strong>Expires:</strong> {formatExpiry(waypoint, status)}</p>
+                      <p><strong>Location:</strong> {waypoint.lat.toFixed(5)}, {waypoint.lng.toFixed(5)}</p>
+                      <p><strong>Updated:</strong> {new Date(waypoint.time).toLocaleString()}</p>
+                      {waypoint.fromNodeId !== undefined && (
+                        <p>
+                          <strong>Shared by:</strong>{' '}
+                          {onNodeClick ? (
+                            <button className="node-link" onClick={() => onNodeClick(formatNodeId(waypoint.fromNodeId!))}>
+                              {sender?.long_name || formatNodeId(waypoint.fromNodeId)}
+                            </button>
+                          ) : (
+                            sender?.long_name || formatNodeId(waypoint.fromNodeId)
+                          )}
+                        </p>
+                      )}
+                      {onPacketClick && (
+                        <button className="waypoint-packet-button" onClick={() => onPacketClick(waypoint.packetId)}>
+                          View Packet →
+                        </button>
+                      )}
+                    </div>
+                  </Popup>
+                </Marker>
+              );
+            })}
+
+            {/* Draw TAK users with a short track of where they've been */}
+            {showTak && takTracks.map(({ nodeId, positions, latest }) => {
+              const sender = nodes.find(node => node.node_id === nodeId);
+              const label = latest.callsign || sender?.short_name || formatNodeId(nodeId);
+              const team = formatTakEnum(latest.team);
+              const role = formatTakEnum(latest.role);
+              return (
+                <Fragment key={`tak-${nodeId}`}>
+                  {positions.length > 1 && (
+                    <Polyline
+                      positions={positions.map(position => [position.lat, position.lng] as [number, number])}
+                      pathOptions={{ color: teamColor(latest.team), weight: 3, opacity: 0.7, dashArray: '2, 6' }}
+                    />
+                  )}
+                  <Marker
+                    position={[latest.lat, latest.lng]}
+                    icon={createTakIcon(latest, label)}
+                    zIndexOffset={100}
+                  >
+                    <Popup>
+                      <div className="tak-popup">
+                        <h3>{label}</h3>
+                        {team && <p><strong>Team:</strong> {team}</p>}
+                        {role && <p><strong>Role:</strong> {role}</p>}
+                        <p><strong>Location:</strong> {latest.lat.toFixed(5)}, {latest.lng.toFixed(5)}</p>
+                        {latest.altitude !== undefined && <p><strong>Altitude:</strong> {latest.altitude} m</p>}
+                        {latest.speed !== undefined && latest.speed > 0 && (
+                          <p><strong>Speed:</strong> {latest.speed} m/s{latest.course !== undefined && ` heading ${latest.course}°`}</p>
+                        )}
+                        {latest.battery !== undefined && <p><strong>Battery:</strong> {latest.battery}%</p>}
+                        <p><strong>Updated:</strong> {new Date(latest.time).toLocaleString()}</p>
+                        <p>
+                          <strong>Via node:</strong>{' '}
+                          {onNodeClick ? (
+                            <button className="node-link" onClick={() => onNodeClick(formatNodeId(nodeId))}>
+                              {sender?.long_name || formatNodeId(nodeId)}
+                            </button>
+                          ) : (
+                            sender?.long_name || formatNodeId(nodeId)
+                          )}
+                        </p>
+                        {onPacketClick && (
+                          <button className="waypoint-packet-button" onClick={() => onPacketClick(latest.packetId)}>
+                            View Packet →
+                          </button>
+                        )}
+                      </div>
+                    </Popup>
+                  </Marker>
+                </Fragment>
+              );
+            })}
+
+            {/* Draw clusters of nearby nodes */}
+            {nodeClusters.map((cluster) => (
+              <NodeClusterMarker
+                key={`cluster-${cluster.items[0].node_id}`}
+                cluster={cluster}
+                icon={createClusterIcon(cluster)}
+              />
+            ))}
+
             {/* Draw markers */}
-            {nodesWithLocation.map((node) => {
+            {singleNodes.map((node) => {
               const [lat, lon] = convertCoordinates(node.last_lat!, node.last_long!);
               return (
                 <Marker 
                   key={node.id} 
                   position={[lat, lon]}
-                  icon={createCustomIcon(node.role, node.node_id)}
+                  icon={createCustomIcon(node.role, node.node_id, node.position_approximate)}
                   eventHandlers={{
                     click: () => {
                       setSelectedNodeId(node.node_id);
@@ -354,8 +618,14 @@ export function MeshMap({
                         {node.firmware && (
                           <p style={{ margin: '4px 0' }}><strong>Firmware:</strong> {node.firmware}</p>
                         )}
+                        {node.modem_preset && (
+                          <p style={{ margin: '4px 0' }}><strong>Preset:</strong> {formatModemPreset(node.modem_preset)}</p>
+                        )}
                         <p style={{ margin: '4px 0' }}><strong>Channel:</strong> {node.channel}</p>
                         <p style={{ margin: '4px 0' }}><strong>Last Update:</strong> {new Date(node.last_update).toLocaleString()}</p>
+                        {node.position_approximate && (
+                          <p style={{ margin: '4px 0', fontStyle: 'italic' }}>Approximate position (map report)</p>
+                        )}
                       </div>
                       {onNodeClick && (
                         <button
@@ -389,7 +659,29 @@ export function MeshMap({
           <div className="legend-item"><span className="legend-color" style={{backgroundColor: '#4444ff'}}></span> Client</div>
           <div className="legend-item"><span className="legend-color" style={{backgroundColor: '#44ff44'}}></span> Client Base</div>
           <div className="legend-item"><span className="legend-color" style={{backgroundColor: '#ff44ff'}}></span> Repeater</div>
+          <div className="legend-item"><span className="legend-color legend-approximate"></span> Approximate position</div>
+          <div className="legend-item"><span className="legend-color legend-cluster"></span> Cluster, by role share (click to zoom in)</div>
         </div>
+        {showWaypoints && (
+          <div className="waypoint-legend">
+            <h4>Waypoints:</h4>
+            <div className="legend-items">
+              <div className="legend-item"><span className="waypoint-icon waypoint-active">📍</span> Active</div>
+              <div className="legend-item"><span className="waypoint-icon waypoint-expiring">📍</span> Expiring within the hour</div>
+              <div className="legend-item"><span className="waypoint-icon waypoint-expired">📍</span> Expired</div>
+              {waypoints.length === 0 && <div className="legend-note">No waypoints shared in this time range</div>}
+            </div>
+          </div>
+        )}
+        {showTak && (
+          <div className="tak-legend">
+            <h4>TAK Users:</h4>
+            <div className="legend-items">
+              <div className="legend-item"><span className="tak-icon" style={{ background: teamColor('Cyan') }}></span> Team color, with recent track</div>
+              {takTracks.length === 0 && <div className="legend-note">No TAK positions in this time range</div>}
+            </div>
+          </div>
+        )}
         {false && showConnections && (
           <div className="connection-legend">
             <h4>Connections:</h4>
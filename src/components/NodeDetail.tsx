@@ -1,10 +1,15 @@
 import { useState, useEffect, useRef, useMemo } from 'react';
 import { MapContainer, TileLayer, Marker, Popup, LayersControl } from 'react-leaflet';
 import L from 'leaflet';
-import { api } from '../api';
+import { api, isAbortError } from '../api';
+import type { PacketQueryParams } from '../api';
+import { usePaginatedPackets } from '../hooks/usePaginatedPackets';
+import { summarizePackets } from '../ports';
+import { meshSocket, nodeUpdateFromMessage } from '../websocket';
 import type { Node, NodeNeighborsResponse } from '../types';
 import { formatNodeId, parseNodeId, getPortNumName, formatLocalDateTime, getNodeDisplayName } from '../utils/portNames';
 import type { NodeLookup } from '../utils/nodeLookup';
+import { formatModemPreset } from '../utils/mapReports';
 import {
   COORDINATE_SCALE_FACTOR,
   POSITION_PORTNUM,
@@ -14,10 +19,14 @@ import {
   MAP_HEIGHT_EXPANDED,
   DEFAULT_NEIGHBOR_DISPLAY_LIMIT
 } from '../utils/constants';
-import { LoadingState, ErrorState, BackButton, InfoItem } from './ui';
+import { LoadingState, ErrorState, BackButton, InfoItem, LoadMore } from './ui';
+import { NodeTelemetry } from './NodeTelemetry';
+import { NodeRouting } from './NodeRouting';
 
 const { BaseLayer } = LayersControl;
 
+const NODE_PACKET_PAGE_SIZE = 50;
+
 // Fix for default marker icons
 import icon from 'leaflet/dist/images/marker-icon.png';
 import iconShadow from 'leaflet/dist/images/marker-shadow.png';
@@ -71,6 +80,7 @@ interface NodeDetailProps {
   onPacketClick: (packetId: number) => void;
   onNodeClick: (nodeId: string) => void;
   onChannelMismatch: (channel: string, type: 'node' | 'packet') => void;
+  daysActive: number;
 }
 
 interface Packet {
@@ -91,7 +101,7 @@ interface Packet {
 type PacketFilter = 'all' | 'from' | 'to';
 type SortField = 'timestamp' | 'gateways';
 type SortDirection = 'asc' | 'desc';
-type TabType = 'neighbors' | 'packets' | 'heard';
+type TabType = 'neighbors' | 'packets' | 'heard' | 'telemetry' | 'routing';
 
 interface HistoricalPosition {
   lat: number;
@@ -160,35 +170,65 @@ function groupPositionsByLocation(packets: Packet[]): HistoricalPosition[] {
   return Array.from(locationMap.values());
 }
 
-export function NodeDetail({ nodeId, nodeLookup, onBack, onPacketClick, onNodeClick, onChannelMismatch }: NodeDetailProps) {
+export function NodeDetail({ nodeId, nodeLookup, onBack, onPacketClick, onNodeClick, onChannelMismatch, daysActive }: NodeDetailProps) {
   const [node, setNode] = useState<Node | null>(null);
-  const [packets, setPackets] = useState<Packet[]>([]);
-  const [heardPackets, setHeardPackets] = useState<Packet[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [neighbors, setNeighbors] = useState<NodeNeighborsResponse | null>(null);
   const [neighborsLoading, setNeighborsLoading] = useState(false);
-  const [heardPacketsLoading, setHeardPacketsLoading] = useState(false);
   const hasShownNotification = useRef(false);
   const hasLoadedNeighbors = useRef(false);
-  const hasLoadedPackets = useRef(false);
-  const hasLoadedHeardPackets = useRef(false);
   
   // Tab state from URL hash
   const [activeTab, setActiveTab] = useState<TabType>(() => {
     const hash = window.location.hash.slice(1);
-    if (hash === 'packets' || hash === 'heard') return hash;
+    if (hash === 'packets' || hash === 'heard' || hash === 'telemetry' || hash === 'routing') return hash;
     return 'neighbors';
   });
   const [selectedHistoricalIndex, setSelectedHistoricalIndex] = useState<Record<string, number>>({});
-  const wsRef = useRef<WebSocket | null>(null);
   const [packetFilter, setPacketFilter] = useState<PacketFilter>('all');
   const [selectedPort, setSelectedPort] = useState<string>('all');
+  const [knownPorts, setKnownPorts] = useState<Set<string>>(new Set());
+  const [openedTabs, setOpenedTabs] = useState<Set<TabType>>(() => new Set([activeTab]));
   const [sortField, setSortField] = useState<SortField>('timestamp');
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
   const [mapExpanded, setMapExpanded] = useState(false);
   const mapCardRef = useRef<HTMLDivElement>(null);
 
+  // Tab fetches key off the node's IDs rather than the node object, so live
+  // updates to the node don't cancel and restart them
+  const nodeNumericId = node?.node_id;
+  const nodeHexId = node?.id;
+
+  // Packet lists load once their tab has been opened, then page on demand.
+  // The port filter is applied server-side so every page is full of matches.
+  const packetsQuery: PacketQueryParams | null = openedTabs.has('packets') && nodeHexId !== undefined ? {
+    node_id: nodeHexId,
+    portnum: selectedPort !== 'all' ? parseInt(selectedPort) : undefined,
+    decode_payload: true,
+    includeGatewayCount: true
+  } : null;
+  const heardQuery: PacketQueryParams | null = openedTabs.has('heard') && nodeNumericId !== undefined ? {
+    gateway_id: formatNodeId(nodeNumericId),
+    decode_payload: true,
+    includeGatewayCount: true
+  } : null;
+  const {
+    packets,
+    setPackets,
+    loading: packetsLoading,
+    loadingMore: packetsLoadingMore,
+    hasMore: packetsHasMore,
+    loadMore: loadMorePackets
+  } = usePaginatedPackets(packetsQuery, NODE_PACKET_PAGE_SIZE);
+  const {
+    packets: heardPackets,
+    loading: heardPacketsLoading,
+    loadingMore: heardPacketsLoadingMore,
+    hasMore: heardPacketsHasMore,
+    loadMore: loadMoreHeardPackets
+  } = usePaginatedPackets(heardQuery, NODE_PACKET_PAGE_SIZE);
+
   // Filter and sort packets - must be before useEffect hooks
   const filteredAndSortedPackets = useMemo(() => {
     if (!node) return [];
@@ -228,24 +268,45 @@ export function NodeDetail({ nodeId, nodeLookup, onBack, onPacketClick, onNodeCl
     return sorted;
   }, [packets, node, packetFilter, selectedPort, sortField, sortDirection]);
 
+  // One-line payload summaries shown under the port name
+  const packetSummaries = useMemo(() => summarizePackets(packets), [packets]);
+  const heardSummaries = useMemo(() => summarizePackets(heardPackets), [heardPackets]);
+
+  // Remember every port seen so the filter keeps offering them once one is selected
+  useEffect(() => {
+    setKnownPorts(prev => {
+      const next = new Set(prev);
+      packets.forEach(pkt => next.add(pkt.portnum.toString()));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [packets]);
+
   const uniquePorts = useMemo(() => {
-    const ports = new Set(packets.map(pkt => pkt.portnum?.toString()).filter((p): p is string => !!p));
+    const ports = new Set(knownPorts);
+    if (selectedPort !== 'all') ports.add(selectedPort);
     return Array.from(ports).sort((a, b) => parseInt(a) - parseInt(b));
-  }, [packets]);
+  }, [knownPorts, selectedPort]);
 
   useEffect(() => {
     // Reset notification flag when nodeId changes
     hasShownNotification.current = false;
     hasLoadedNeighbors.current = false;
-    hasLoadedPackets.current = false;
-    hasLoadedHeardPackets.current = false;
+    setOpenedTabs(new Set([activeTab]));
+    setKnownPorts(new Set());
+    setSelectedPort('all');
+  // Only reset per node; tab changes are tracked below
+  // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [nodeId]);
 
+  useEffect(() => {
+    setOpenedTabs(prev => prev.has(activeTab) ? prev : new Set(prev).add(activeTab));
+  }, [activeTab]);
+
   // Handle URL hash changes for tab navigation
   useEffect(() => {
     const handleHashChange = () => {
       const hash = window.location.hash.slice(1);
-      if (hash === 'packets' || hash === 'heard' || hash === 'neighbors') {
+      if (hash === 'packets' || hash === 'heard' || hash === 'neighbors' || hash === 'telemetry' || hash === 'routing') {
         setActiveTab(hash);
       }
     };
@@ -261,6 +322,7 @@ export function NodeDetail({ nodeId, nodeLookup, onBack, onPacketClick, onNodeCl
   };
 
   useEffect(() => {
+    const controller = new AbortController();
     const fetchNodeDetails = async () => {
       try {
         setLoading(true);
@@ -278,7 +340,7 @@ export function NodeDetail({ nodeId, nodeLookup, onBack, onPacketClick, onNodeCl
         const hexNodeId = formatNodeId(parsedNodeId);
         
         // Fetch nodes with higher limit to ensure we can find the node
-        const nodesData = await api.getNodes({ limit: 1500 });
+        const nodesData = await api.getNodes({ limit: 1500 }, { signal: controller.signal });
         
         // Compare both hex ID and numeric ID
         const foundNode = nodesData.nodes.find(n => {
@@ -303,175 +365,93 @@ export function NodeDetail({ nodeId, nodeLookup, onBack, onPacketClick, onNodeCl
           onChannelMismatch(foundNode.channel, 'node');
           hasShownNotification.current = true;
         }
-        
-        // Don't load packets here - wait for tab activation
-        setPackets([]);
       } catch (err) {
+        if (isAbortError(err)) return;
         setError(err instanceof Error ? err.message : 'Failed to fetch node details');
         console.error('Error fetching node details:', err);
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
       }
     };
 
     fetchNodeDetails();
+    return () => controller.abort();
   }, [nodeId, onChannelMismatch]);
 
   // Fetch neighbors when tab becomes active
   useEffect(() => {
-    if (activeTab !== 'neighbors' || !node || hasLoadedNeighbors.current) return;
+    if (activeTab !== 'neighbors' || nodeNumericId === undefined || hasLoadedNeighbors.current) return;
 
+    const controller = new AbortController();
     const fetchNeighbors = async () => {
       try {
         setNeighborsLoading(true);
-        const neighborsData = await api.getNodeNeighbors(node.node_id);
+        const neighborsData = await api.getNodeNeighbors(nodeNumericId, { signal: controller.signal });
         setNeighbors(neighborsData);
         hasLoadedNeighbors.current = true;
       } catch (err) {
+        if (isAbortError(err)) return;
         console.error('Error fetching neighbors:', err);
         setNeighbors(null);
       } finally {
-        setNeighborsLoading(false);
+        if (!controller.signal.aborted) {
+          setNeighborsLoading(false);
+        }
       }
     };
 
     fetchNeighbors();
-  }, [node, activeTab]);
-
-  // Fetch packets when tab becomes active
-  useEffect(() => {
-    if (activeTab !== 'packets' || !node || hasLoadedPackets.current) return;
+    return () => controller.abort();
+  }, [nodeNumericId, activeTab]);
 
-    const fetchPackets = async () => {
-      try {
-        const packetsData = await api.getPackets({
-          node_id: node.id,
-          limit: 50,
-          decode_payload: true,
-          includeGatewayCount: true
-        });
-        setPackets(packetsData.packets || []);
-        hasLoadedPackets.current = true;
-      } catch (err) {
-        console.error('Error fetching packets:', err);
-      }
-    };
-
-    fetchPackets();
-  }, [node, activeTab]);
-
-  // Fetch packets heard when tab becomes active
-  useEffect(() => {
-    if (activeTab !== 'heard' || !node || hasLoadedHeardPackets.current) return;
-
-    const fetchHeardPackets = async () => {
-      try {
-        setHeardPacketsLoading(true);
-        const heardData = await api.getPackets({
-          gateway_id: formatNodeId(node.node_id),
-          limit: 50,
-          decode_payload: true,
-          includeGatewayCount: true
-        });
-        setHeardPackets(heardData.packets || []);
-        hasLoadedHeardPackets.current = true;
-      } catch (err) {
-        console.error('Error fetching heard packets:', err);
-      } finally {
-        setHeardPacketsLoading(false);
-      }
-    };
-
-    fetchHeardPackets();
-  }, [node, activeTab]);
-
-  // WebSocket subscription for real-time updates (only for packets tab)
+  // Live updates for this node from the shared WebSocket (only for packets tab)
   useEffect(() => {
     if (!node || activeTab !== 'packets') return;
 
     // Capture the current node_id to avoid stale closures
     const currentNodeNumericId = node.node_id;
 
-    // Subscribe to packets from this node
-    const params = new URLSearchParams();
-    params.append('from_node_id', currentNodeNumericId.toString());
-    
-    const ws = new WebSocket(`wss://meshql.bayme.sh/ws?${params.toString()}`);
-    wsRef.current = ws;
-
-    ws.onopen = () => {
-      console.log('WebSocket connected for node detail updates');
-    };
-
-    ws.onmessage = (event) => {
-      try {
-        const data = JSON.parse(event.data);
-        
-        if (data.type === 'connected') {
-          console.log('Connected to MeshQL WebSocket for node details:', data.filters);
-        } else if (data.type === 'subscribed') {
-          console.log('Subscribed to node packet updates:', data.filters);
-        } else if (data.type === 'node') {
-          // Update node info if it's for this node
-          if (data.node_id === currentNodeNumericId) {
-            setNode(prev => prev ? {
-              ...prev,
-              ...data,
-              last_update: data.last_update || prev.last_update
-            } : prev);
-          }
-        } else if (data.type === 'packet') {
-          // Add new packet to the packets list
-          if (data.from_node_id === currentNodeNumericId || data.to_node_id === currentNodeNumericId) {
-            const newPacket: Packet = {
-              id: data.id,
-              from_node_id: data.from_node_id,
-              to_node_id: data.to_node_id,
-              channel: data.channel,
-              portnum: data.portnum,
-              timestamp: data.timestamp,
-              import_time: data.import_time,
-              payload: data.payload,
-              payload_hex: data.payload_hex
-            };
-            setPackets(prev => [newPacket, ...prev].slice(0, 50)); // Keep last 50
-            
-            // Update node position if this is a position packet
-            if (data.portnum === 3 && data.from_node_id === currentNodeNumericId && data.payload) {
-              if (typeof data.payload === 'object') {
-                if ('latitude_i' in data.payload && 'longitude_i' in data.payload) {
-                  setNode(prev => prev ? {
-                    ...prev,
-                    last_lat: data.payload.latitude_i,
-                    last_long: data.payload.longitude_i,
-                    last_update: data.import_time || prev.last_update
-                  } : prev);
-                }
-              }
-            }
-          }
-        }
-      } catch (err) {
-        console.debug('WebSocket message parse error:', err);
+    return meshSocket.subscribe({ from_node_id: currentNodeNumericId }, (message) => {
+      if (message.type === 'node') {
+        const update = nodeUpdateFromMessage(message);
+        setNode(prev => prev ? {
+          ...prev,
+          ...update,
+          last_update: update.last_update || prev.last_update
+        } : prev);
+        return;
       }
-    };
 
-    ws.onerror = (err) => {
-      console.error('WebSocket error:', err);
-    };
-
-    ws.onclose = () => {
-      console.log('WebSocket disconnected');
-    };
-
-    // Cleanup on unmount or when node changes
-    return () => {
-      if (ws.readyState === WebSocket.OPEN) {
-        ws.close();
+      // Add new packet to the packets list
+      const newPacket: Packet = {
+        id: message.id,
+        from_node_id: message.from_node_id,
+        to_node_id: message.to_node_id,
+        channel: message.channel,
+        portnum: message.portnum,
+        timestamp: message.timestamp,
+        import_time: message.import_time,
+        payload: message.payload,
+        payload_hex: message.payload_hex
+      };
+      setPackets(prev => prev.some(p => p.id === newPacket.id) ? prev : [newPacket, ...prev]);
+      
+      // Update node position if this is a position packet
+      const payload = message.payload;
+      if (message.portnum === POSITION_PORTNUM && typeof payload === 'object' && payload !== null &&
+          typeof payload.latitude_i === 'number' && typeof payload.longitude_i === 'number') {
+        setNode(prev => prev ? {
+          ...prev,
+          last_lat: payload.latitude_i as number,
+          last_long: payload.longitude_i as number,
+          last_update: message.import_time || prev.last_update
+        } : prev);
       }
-    };
-  // Only reconnect when node.id, node.node_id, or activeTab changes
-  // This prevents infinite reconnection loops when node state is updated via WebSocket
+    });
+  // Only resubscribe when node.id, node.node_id, or activeTab changes
+  // This prevents resubscribing every time node state is updated via WebSocket
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [node?.id, node?.node_id, activeTab]);
 
@@ -497,6 +477,9 @@ export function NodeDetail({ nodeId, nodeLookup, onBack, onPacketClick, onNodeCl
     );
   }
 
+  // What the node's map reports add to the server's record
+  const reported = nodeLookup?.getNode(node.node_id);
+
   const hasLocation = node.last_lat !== null && node.last_long !== null;
   const coordinates = hasLocation 
     ? [node.last_lat! / COORDINATE_SCALE_FACTOR, node.last_long! / COORDINATE_SCALE_FACTOR] as [number, number]
@@ -658,7 +641,12 @@ export function NodeDetail({ nodeId, nodeLookup, onBack, onPacketClick, onNodeCl
           <InfoItem label="Relay ID:" value={node.node_id & 255} />
           <InfoItem label="Role:" value={node.role} />
           <InfoItem label="Hardware:" value={node.hw_model} />
-          <InfoItem label="Firmware:" value={node.firmware || 'N/A'} />
+          <InfoItem label="Firmware:" value={node.firmware || reported?.firmware || 'N/A'} />
+          {reported?.modem_preset && <InfoItem label="Modem Preset:" value={formatModemPreset(reported.modem_preset)} />}
+          {reported?.region && <InfoItem label="Region:" value={reported.region} />}
+          {reported?.has_default_channel !== undefined && (
+            <InfoItem label="Default Channel:" value={reported.has_default_channel ? 'Yes' : 'No'} />
+          )}
           <InfoItem label="Channel:" value={node.channel} />
           <InfoItem label="Last Update:" value={formatLocalDateTime(node.last_update)} />
         </div>
@@ -820,6 +808,18 @@ export function NodeDetail({ nodeId, nodeLookup, onBack, onPacketClick, onNodeCl
             >
               Packets Heard
             </button>
+            <button
+              className={activeTab === 'telemetry' ? 'tab-active' : ''}
+              onClick={() => switchTab('telemetry')}
+            >
+              Telemetry
+            </button>
+            <button
+              className={activeTab === 'routing' ? 'tab-active' : ''}
+              onClick={() => switchTab('routing')}
+            >
+              Routing
+            </button>
           </div>
 
           {/* Neighbors Tab */}
@@ -1023,7 +1023,10 @@ export function NodeDetail({ nodeId, nodeLookup, onBack, onPacketClick, onNodeCl
                           getNodeName(toNodeId)
                         )}
                       </td>
-                      <td>{getPortNumName(pkt.portnum.toString())}</td>
+                      <td>
+                        {getPortNumName(pkt.portnum.toString())}
+                        {packetSummaries.has(pkt.id) && <div className="packet-summary">{packetSummaries.get(pkt.id)}</div>}
+                      </td>
                       <td>{pkt.channel}</td>
                       <td>{pkt.gateway_count ?? '-'}</td>
                     </tr>
@@ -1031,9 +1034,10 @@ export function NodeDetail({ nodeId, nodeLookup, onBack, onPacketClick, onNodeCl
                 })}
               </tbody>
             </table>
-            {packets.length === 0 && (
+            {packets.length === 0 && !packetsLoading && (
               <div className="no-packets">No recent packets found</div>
             )}
+            <LoadMore onLoadMore={loadMorePackets} hasMore={packetsHasMore} loading={packetsLoadingMore} />
           </div>
         </div>
       )}
@@ -1101,7 +1105,10 @@ export function NodeDetail({ nodeId, nodeLookup, onBack, onPacketClick, onNodeCl
                             getNodeName(toNodeId)
                           )}
                         </td>
-                        <td>{getPortNumName(pkt.portnum.toString())}</td>
+                        <td>
+                          {getPortNumName(pkt.portnum.toString())}
+                          {heardSummaries.has(pkt.id) && <div className="packet-summary">{heardSummaries.get(pkt.id)}</div>}
+                        </td>
                         <td>{pkt.channel}</td>
                         <td>{pkt.gateway_count ?? '-'}</td>
                       </tr>
@@ -1112,10 +1119,36 @@ export function NodeDetail({ nodeId, nodeLookup, onBack, onPacketClick, onNodeCl
               {heardPackets.length === 0 && (
                 <div className="no-packets">No packets heard</div>
               )}
+              <LoadMore onLoadMore={loadMoreHeardPackets} hasMore={heardPacketsHasMore} loading={heardPacketsLoadingMore} />
             </div>
           )}
         </div>
       )}
+
+      {/* Telemetry Tab */}
+      {activeTab === 'telemetry' && (
+        <div className="tab-content">
+          <NodeTelemetry
+            nodeId={node.id}
+            nodeNumericId={node.node_id}
+            daysActive={daysActive}
+            onPacketClick={onPacketClick}
+          />
+        </div>
+      )}
+
+      {/* Routing Tab */}
+      {activeTab === 'routing' && (
+        <div className="tab-content">
+          <NodeRouting
+            nodeNumericId={node.node_id}
+            daysActive={daysActive}
+            nodeLookup={nodeLookup}
+            onPacketClick={onPacketClick}
+            onNodeClick={handleNodeLinkClick}
+          />
+        </div>
+      )}
     </div>
       </div>
     </div>
@@ -0,0 +1,112 @@
+import { useMemo } from 'react';
+import { useRoutingEvents } from '../hooks/useRoutingEvents';
+import { nakSummary, routingErrorLabel } from '../utils/routing';
+import { formatNodeId, getNodeDisplayName } from '../utils/portNames';
+import type { NodeLookup } from '../utils/nodeLookup';
+import { ErrorState } from './ui';
+
+interface NodeRoutingProps {
+  nodeNumericId: number;
+  daysActive: number;
+  nodeLookup: NodeLookup | null;
+  onPacketClick: (packetId: number) => void;
+  onNodeClick: (nodeId: number) => void;
+}
+
+const MAX_RECENT_NAKS = 50;
+
+// Routing tab of the node page: how often the ACKs for this node's messages
+// came back as NAKs, and why
+export function NodeRouting({ nodeNumericId, daysActive, nodeLookup, onPacketClick, onNodeClick }: NodeRoutingProps) {
+  // The server narrows to this node; the NAKs it asked for are picked out below
+  const { events, loading, error, truncated } = useRoutingEvents('', daysActive, formatNodeId(nodeNumericId));
+
+  const summary = useMemo(() => nakSummary(events, nodeNumericId), [events, nodeNumericId]);
+  const recentNaks = useMemo(() => events
+    .filter(event => event.requesterId === nodeNumericId && event.reason !== 0)
+    .reverse()
+    .slice(0, MAX_RECENT_NAKS), [events, nodeNumericId]);
+
+  if (loading) {
+    return <div className="packets-loading">Loading routing packets...</div>;
+  }
+  if (error) {
+    return <ErrorState message={`Failed to load routing packets: ${error}`} />;
+  }
+  if (summary.acks + summary.naks === 0) {
+    return <div className="no-packets">No ACKs or NAKs for this node in this time range</div>;
+  }
+
+  return (
+    <div className="node-routing">
+      <div className="node-routing-summary">
+        <div className="stat-card">
+          <h3>Delivery</h3>
+          <div className="stat-item">
+            <span className="stat-label">ACKs:</span>
+            <span className="stat-value">{summary.acks.toLocaleString()}</span>
+          </div>
+          <div className="stat-item">
+            <span className="stat-label">NAKs:</span>
+            <span className="stat-value">{summary.naks.toLocaleString()}</span>
+          </div>
+          <div className="stat-item">
+            <span className="stat-label">NAK rate:</span>
+            <span className="stat-value">
+              {summary.nakPercent !== null ? `${summary.nakPercent.toFixed(1)}%` : '-'}
+            </span>
+          </div>
+        </div>
+        {summary.reasons.length > 0 && (
+          <div className="stat-card">
+            <h3>NAK Reasons</h3>
+            {summary.reasons.map(({ reason, count }) => (
+              <div key={reason} className="stat-item">
+                <span className="stat-label">{routingErrorLabel(reason)}:</span>
+                <span className="stat-value">{count.toLocaleString()}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+      {truncated && <div className="node-routing-note">Based on the most recent routing packets only</div>}
+
+      {recentNaks.length > 0 && (
+        <table className="packets-table">
+          <thead>
+            <tr>
+              <th>Time</th>
+              <th>Reason</th>
+              <th>Reported By</th>
+              <th>Channel</th>
+              <th>Packet</th>
+            </tr>
+          </thead>
+          <tbody>
+            {recentNaks.map(event => (
+              <tr key={event.packetId}>
+                <td>{new Date(event.time).toLocaleString()}</td>
+                <td>{routingErrorLabel(event.reason)}</td>
+                <td>
+                  {event.fromNodeId === nodeNumericId ? (
+                    <span>{getNodeDisplayName(event.fromNodeId, nodeLookup)} (self)</span>
+                  ) : (
+                    <button className="node-link" onClick={() => onNodeClick(event.fromNodeId)}>
+                      {getNodeDisplayName(event.fromNodeId, nodeLookup)}
+                    </button>
+                  )}
+                </td>
+                <td>{event.channel}</td>
+                <td>
+                  <button className="packet-id-link" onClick={() => onPacketClick(event.packetId)}>
+                    {event.packetId}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
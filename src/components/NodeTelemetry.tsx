@@ -0,0 +1,123 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useNodeTelemetry } from '../hooks/useNodeTelemetry';
+import type { TelemetrySample } from '../hooks/useNodeTelemetry';
+import { EXTERNAL_POWER_LEVEL, formatMetric, metricLabel } from '../utils/telemetry';
+import { ErrorState } from './ui';
+import { TimeSeriesChart } from './TimeSeriesChart';
+import type { TimeSeriesPoint } from './TimeSeriesChart';
+
+interface NodeTelemetryProps {
+  nodeId: string;
+  nodeNumericId: number;
+  daysActive: number;
+  onPacketClick: (packetId: number) => void;
+}
+
+interface ChartDef {
+  group: 'device' | 'environment';
+  metric: string;
+  color: string;
+}
+
+const DEVICE_CHARTS: ChartDef[] = [
+  { group: 'device', metric: 'battery_level', color: '#22c55e' },
+  { group: 'device', metric: 'voltage', color: '#0366d6' },
+  { group: 'device', metric: 'channel_utilization', color: '#f97316' },
+  { group: 'device', metric: 'air_util_tx', color: '#a855f7' },
+  { group: 'device', metric: 'uptime_seconds', color: '#6b7280' },
+];
+
+const ENVIRONMENT_CHARTS: ChartDef[] = [
+  { group: 'environment', metric: 'temperature', color: '#ef4444' },
+  { group: 'environment', metric: 'relative_humidity', color: '#0ea5e9' },
+  { group: 'environment', metric: 'barometric_pressure', color: '#6366f1' },
+  { group: 'environment', metric: 'gas_resistance', color: '#84cc16' },
+  { group: 'environment', metric: 'lux', color: '#eab308' },
+];
+
+// Lone readings still get a readable time axis
+const MIN_DOMAIN_MS = 60 * 60 * 1000;
+
+function seriesFor(samples: TelemetrySample[], { group, metric }: ChartDef): TimeSeriesPoint[] {
+  return samples.flatMap(sample => {
+    const value = sample[group][metric];
+    if (value === undefined) return [];
+    // Externally powered nodes report 101%; that's not a charge level
+    if (metric === 'battery_level' && value >= EXTERNAL_POWER_LEVEL) return [];
+    return [{ time: sample.time, value, packetId: sample.packetId }];
+  });
+}
+
+// Telemetry tab of the node page: device and environment metrics over the
+// selected time range, with charts that zoom together
+export function NodeTelemetry({ nodeId, nodeNumericId, daysActive, onPacketClick }: NodeTelemetryProps) {
+  const { samples, loading, error, truncated } = useNodeTelemetry(nodeId, nodeNumericId, daysActive);
+  const [zoom, setZoom] = useState<[number, number] | null>(null);
+
+  useEffect(() => {
+    setZoom(null);
+  }, [nodeId, daysActive]);
+
+  const fullDomain = useMemo((): [number, number] => {
+    if (samples.length === 0) return [0, 1];
+    const first = samples[0].time;
+    const last = samples[samples.length - 1].time;
+    const padding = Math.max(0, MIN_DOMAIN_MS - (last - first)) / 2;
+    return [first - padding, last + padding];
+  }, [samples]);
+
+  const chartGroups = useMemo(() => [
+    { title: 'Device Metrics', charts: DEVICE_CHARTS },
+    { title: 'Environment', charts: ENVIRONMENT_CHARTS },
+  ].map(({ title, charts }) => ({
+    title,
+    charts: charts
+      .map(def => ({ def, points: seriesFor(samples, def) }))
+      .filter(chart => chart.points.length > 0),
+  })).filter(group => group.charts.length > 0), [samples]);
+
+  if (loading) {
+    return <div className="packets-loading">Loading telemetry...</div>;
+  }
+  if (error) {
+    return <ErrorState message={`Failed to load telemetry: ${error}`} />;
+  }
+  if (chartGroups.length === 0) {
+    return <div className="no-packets">No telemetry in this time range</div>;
+  }
+
+  return (
+    <div className="node-telemetry">
+      <div className="node-telemetry-toolbar">
+        <span>
+          {samples.length} reading{samples.length === 1 ? '' : 's'}
+          {truncated && ' (most recent only)'}
+        </span>
+        <span className="node-telemetry-hint">Drag across a chart to zoom; click a point to open its packet</span>
+        {zoom && (
+          <button className="btn-secondary" onClick={() => setZoom(null)}>Reset Zoom</button>
+        )}
+      </div>
+
+      {chartGroups.map(group => (
+        <section key={group.title} className="node-telemetry-group">
+          <h3>{group.title}</h3>
+          <div className="node-telemetry-charts">
+            {group.charts.map(({ def, points }) => (
+              <TimeSeriesChart
+                key={`${def.group}.${def.metric}`}
+                title={metricLabel(def.metric)}
+                points={points}
+                domain={zoom ?? fullDomain}
+                formatValue={(value) => formatMetric(def.metric, value)}
+                onZoom={setZoom}
+                onPointClick={onPacketClick}
+                color={def.color}
+              />
+            ))}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+}
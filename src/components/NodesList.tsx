@@ -1,4 +1,5 @@
 import type { Node } from '../types';
+import { formatModemPreset } from '../utils/mapReports';
 
 interface NodesListProps {
   nodes: Node[];
@@ -19,6 +20,7 @@ export function NodesList({ nodes, onNodeClick }: NodesListProps) {
               <th>Role</th>
               <th>Hardware</th>
               <th>Firmware</th>
+              <th>Preset</th>
               <th>Channel</th>
               <th>Location</th>
               <th>Last Update</th>
@@ -48,9 +50,12 @@ export function NodesList({ nodes, onNodeClick }: NodesListProps) {
                 </td>
                 <td>{node.hw_model}</td>
                 <td>{node.firmware || 'N/A'}</td>
+                <td>{node.modem_preset ? formatModemPreset(node.modem_preset) : 'N/A'}</td>
                 <td>{node.channel}</td>
                 <td>
-                  {node.last_lat !== null && node.last_long !== null ? (
+                  {node.position_approximate ? (
+                    <span className="approximate-location" title="Approximate position from a map report">≈</span>
+                  ) : node.last_lat !== null && node.last_long !== null ? (
                     <span className="has-location">✓</span>
                   ) : (
                     <span className="no-location">✗</span>
@@ -1,12 +1,15 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { MapContainer, TileLayer, Marker, Popup, Polyline, LayersControl } from 'react-leaflet';
 import L from 'leaflet';
-import { api } from '../api';
+import { api, isAbortError } from '../api';
 import { formatNodeId, getPortNumName, formatLocalDateTime, getNodeDisplayName } from '../utils/portNames';
 import type { NodeLookup } from '../utils/nodeLookup';
-import { TracerouteVisualization } from './TracerouteVisualization';
-import { NeighborInfoVisualization } from './NeighborInfoVisualization';
-import { parseTraceroutePayload } from '../utils/tracerouteParser';
+import type { PacketDetailResponse } from '../types';
+import { ProtobufInspector } from './ProtobufInspector';
+import { useDecryptedPackets } from '../hooks/useDecryptedPackets';
+import { getPortHandler, resolvePortPayload } from '../ports';
+import { getRssiQuality, getSnrQuality } from '../utils/signalQuality';
+import { nodeDistance } from '../utils/geo';
 import { LoadingState, ErrorState, BackButton, InfoItem } from './ui';
 import { 
   COORDINATE_SCALE_FACTOR,
@@ -46,18 +49,6 @@ const ViaIcon = L.divIcon({
   popupAnchor: [0, -15]
 });
 
-// RSSI Quality thresholds for different Meshtastic channel presets (in dBm)
-const RSSI_THRESHOLDS: Record<string, { excellent: number; good: number; fair: number; marginal: number }> = {
-  ShortTurbo: { excellent: -70, good: -85, fair: -95, marginal: -105 },
-  ShortFast: { excellent: -72, good: -88, fair: -98, marginal: -110 },
-  ShortSlow: { excellent: -75, good: -90, fair: -102, marginal: -115 },
-  MediumFast: { excellent: -78, good: -92, fair: -105, marginal: -120 },
-  MediumSlow: { excellent: -80, good: -95, fair: -110, marginal: -125 },
-  LongFast: { excellent: -85, good: -100, fair: -115, marginal: -130 },
-  LongSlow: { excellent: -90, good: -105, fair: -120, marginal: -135 },
-  default: { excellent: -78, good: -92, fair: -105, marginal: -120 }, // Use MediumFast as default
-};
-
 interface PacketDetailProps {
   packetId: number;
   nodeLookup: NodeLookup | null;
@@ -67,34 +58,10 @@ interface PacketDetailProps {
   onTracerouteClick?: (packetId: number) => void;
 }
 
-interface PacketData {
-  id: number;
-  from_node_id: number;
-  to_node_id: number;
-  channel: string;
-  portnum: number;
-  import_time: string;
-  payload: string | { type: string; [key: string]: unknown };
-  payload_hex?: string;
-  hop_start?: number;
-  hop_limit?: number;
-  gateways?: Array<{
-    node_id: number;
-    node_name?: string;
-    rx_rssi?: number;
-    rx_snr?: number;
-    hop_start?: number;
-    hop_limit?: number;
-    relay_node?: number;
-  }>;
-}
-
 export function PacketDetail({ packetId, nodeLookup, onBack, onNodeClick, onChannelMismatch, onTracerouteClick }: PacketDetailProps) {
-  const [packet, setPacket] = useState<PacketData | null>(null);
+  const [packet, setPacket] = useState<PacketDetailResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [hasTracerouteData, setHasTracerouteData] = useState<boolean>(false);
-  const [checkingTraceroute, setCheckingTraceroute] = useState<boolean>(false);
   const [relayMatches, setRelayMatches] = useState<Map<number, number[]>>(new Map());
   const [_ambiguousRelayCount, setAmbiguousRelayCount] = useState<number>(0);
   const [refiningGateways, setRefiningGateways] = useState<Set<number>>(new Set());
@@ -119,7 +86,13 @@ export function PacketDetail({ packetId, nodeLookup, onBack, onNodeClick, onChan
     };
   }, []);
 
+  // Relay refinement requests belong to the packet being shown; cancel them when it changes
+  const refineControllerRef = useRef<AbortController | null>(null);
+
   useEffect(() => {
+    const controller = new AbortController();
+    refineControllerRef.current = controller;
+
     const fetchPacketDetail = async () => {
       try {
         setLoading(true);
@@ -128,7 +101,7 @@ export function PacketDetail({ packetId, nodeLookup, onBack, onNodeClick, onChan
           decode_payload: true,
           includeGateways: true,
           gatewayLimit: 100
-        });
+        }, { signal: controller.signal });
         setPacket(data);
         
         // Check for channel mismatch and notify (only once per packet)
@@ -137,14 +110,18 @@ export function PacketDetail({ packetId, nodeLookup, onBack, onNodeClick, onChan
           hasShownNotification.current = true;
         }
       } catch (err) {
+        if (isAbortError(err)) return;
         setError(err instanceof Error ? err.message : 'Failed to fetch packet details');
         console.error('Error fetching packet details:', err);
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
       }
     };
 
     fetchPacketDetail();
+    return () => controller.abort();
   }, [packetId, onChannelMismatch]);
 
   // Phase 1: Quick local lookup for relay nodes using only gateway data
@@ -196,7 +173,7 @@ export function PacketDetail({ packetId, nodeLookup, onBack, onNodeClick, onChan
     setRefiningGateways(prev => new Set(prev).add(gwNodeId));
     
     try {
-      const neighbors = await api.getNodeNeighbors(gwNodeId);
+      const neighbors = await api.getNodeNeighbors(gwNodeId, { signal: refineControllerRef.current?.signal });
       
       // Prefer heard_from (nodes this gateway heard from), fallback to heard_by
       let matchingNeighbors = neighbors.heard_from
@@ -220,6 +197,7 @@ export function PacketDetail({ packetId, nodeLookup, onBack, onNodeClick, onChan
         });
       }
     } catch (err) {
+      if (isAbortError(err)) return;
       console.error(`Error fetching neighbors for node ${gwNodeId}:`, err);
     } finally {
       // Remove from refining set
@@ -256,16 +234,9 @@ export function PacketDetail({ packetId, nodeLookup, onBack, onNodeClick, onChan
     
     setAutoRefining(true);
     
-    // Process each gateway with 1 second delay
-    for (let i = 0; i < ambiguousGateways.length; i++) {
-      const gw = ambiguousGateways[i];
-      await refineSingleRelay(gw.node_id, gw.relay_node!);
-      
-      // Wait 3 seconds before next request (except for last one)
-      if (i < ambiguousGateways.length - 1) {
-        await new Promise(resolve => setTimeout(resolve, 3000));
-      }
-    }
+    // The api client limits concurrency and retries rate-limited requests, so
+    // these can all be started at once
+    await Promise.all(ambiguousGateways.map(gw => refineSingleRelay(gw.node_id, gw.relay_node!)));
     
     setAutoRefining(false);
   };
@@ -291,122 +262,36 @@ export function PacketDetail({ packetId, nodeLookup, onBack, onNodeClick, onChan
     }
   };
 
-  // Check if this packet has traceroute observations (only for portnum 70)
-  // If the payload has request_id, use that as the traceroute ID, otherwise use packet ID
-  useEffect(() => {
-    if (!packet || packet.portnum !== 70) {
-      setHasTracerouteData(false);
-      return;
-    }
-
-    // Check if payload has request_id
-    let tracerouteId = packetId;
-    if (typeof packet.payload === 'object' && packet.payload !== null && 'request_id' in packet.payload) {
-      tracerouteId = packet.payload.request_id as number;
-    }
-
-    // If we have a request_id, we know there's traceroute data
-    setHasTracerouteData(tracerouteId !== packetId || true);
-    setCheckingTraceroute(false);
-  }, [packet, packetId]);
-
   const getNodeName = (nodeId: number): string => {
     return getNodeDisplayName(nodeId, nodeLookup);
   };
 
-  const getPayloadDisplay = (payload: string | { type: string; [key: string]: unknown }): string => {
-    if (typeof payload === 'object' && payload !== null) {
-      return JSON.stringify(payload, null, 2);
-    }
-    return payload || '(empty)';
-  };
-
-  // Check if this is a traceroute packet
-  const isTraceroute = packet?.portnum === 70;
-  
-  // Try to get route from decoded payload first, fallback to parsing hex
-  let tracerouteData: { route: number[] } | null = null;
-  if (isTraceroute) {
-    if (typeof packet?.payload === 'object' && packet.payload !== null && 'route' in packet.payload) {
-      // Use decoded route from payload
-      tracerouteData = { route: packet.payload.route as number[] };
-    } else if (packet?.payload_hex) {
-      // Fallback to parsing hex payload
-      tracerouteData = parseTraceroutePayload(packet.payload_hex);
-    }
-  }
-  
-  const tracerouteDone = isTraceroute && typeof packet?.payload === 'object' && packet.payload !== null && 'done' in packet.payload
-    ? (packet.payload.done as boolean)
-    : false;
+  // Packets on private channels can be opened with a stored channel key
+  const decryptablePackets = useMemo(() => packet ? [packet] : [], [packet]);
+  const decrypted = useDecryptedPackets(decryptablePackets).get(packetId) ?? null;
+  const portnum = decrypted?.portnum ?? packet?.portnum;
+  const payloadHex = decrypted?.payload_hex ?? packet?.payload_hex;
 
-  // Check if this is a neighbor info packet and extract neighbors
-  const isNeighborInfo = packet?.portnum === 71;
-  const neighborData = isNeighborInfo && typeof packet?.payload === 'object' && packet.payload !== null && 'neighbors' in packet.payload
-    ? (packet.payload.neighbors as Array<{ node_id: number; snr?: number }>)
-    : null;
+  // Use the server's decoded payload, or decode payload_hex ourselves when it didn't
+  const resolvedPayload = decrypted
+    ? { payload: decrypted.payload, decodedLocally: true }
+    : packet
+      ? resolvePortPayload(packet.portnum, packet.payload, packet.payload_hex)
+      : { payload: null, decodedLocally: false };
+  const payload = resolvedPayload.payload;
 
-  // Get the traceroute ID to use (request_id if available, otherwise packet ID)
-  const getTracerouteId = (): number => {
-    if (packet && typeof packet.payload === 'object' && packet.payload !== null && 'request_id' in packet.payload) {
-      return packet.payload.request_id as number;
+  const getPayloadDisplay = (): string => {
+    if (payload) {
+      return JSON.stringify(payload, null, 2);
     }
-    return packetId;
+    return (typeof packet?.payload === 'string' && packet.payload) || '(empty)';
   };
 
-  // Calculate distance between two points using Haversine formula
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-    const R = 3959; // Earth's radius in miles
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLon = (lon2 - lon1) * Math.PI / 180;
-    const a = 
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-      Math.sin(dLon / 2) * Math.sin(dLon / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-  };
+  // Port-specific card (map, gauges, route...) from the port registry
+  const PortCard = portnum !== undefined ? getPortHandler(portnum)?.Card : undefined;
 
   const getDistance = (fromNodeId: number, toNodeId: number): number | null => {
-    if (!nodeLookup) return null;
-    
-    const fromNode = nodeLookup.getNode(fromNodeId);
-    const toNode = nodeLookup.getNode(toNodeId);
-    
-    if (!fromNode || !toNode) return null;
-    if (!fromNode.last_lat || !fromNode.last_long || !toNode.last_lat || !toNode.last_long) return null;
-    if (fromNode.last_lat === 0 || fromNode.last_long === 0 || toNode.last_lat === 0 || toNode.last_long === 0) return null;
-    
-    // Convert from integer coordinates to decimal degrees (Meshtastic stores coords * 10^7)
-    const fromLatDeg = fromNode.last_lat / 10000000;
-    const fromLonDeg = fromNode.last_long / 10000000;
-    const toLatDeg = toNode.last_lat / 10000000;
-    const toLonDeg = toNode.last_long / 10000000;
-    
-    return calculateDistance(fromLatDeg, fromLonDeg, toLatDeg, toLonDeg);
-  };
-
-  const getRssiQuality = (rssi: number | undefined, channel?: string): { label: string; color: string } => {
-    if (rssi === undefined) return { label: 'Unknown', color: '#6b7280' };
-    
-    const thresholds = RSSI_THRESHOLDS[channel || 'default'] || RSSI_THRESHOLDS.default;
-    
-    if (rssi >= thresholds.excellent) return { label: 'Excellent', color: '#22c55e' };
-    if (rssi >= thresholds.good) return { label: 'Good', color: '#84cc16' };
-    if (rssi >= thresholds.fair) return { label: 'Fair', color: '#eab308' };
-    if (rssi >= thresholds.marginal) return { label: 'Marginal', color: '#f97316' };
-    return { label: 'Poor', color: '#ef4444' };
-  };
-
-  const getSnrQuality = (snr: number | undefined): { label: string; color: string } => {
-    if (snr === undefined) return { label: 'Unknown', color: '#6b7280' };
-    
-    // SNR quality is generally consistent across presets
-    if (snr >= 8) return { label: 'Excellent', color: '#22c55e' };
-    if (snr >= 3) return { label: 'Good', color: '#84cc16' };
-    if (snr >= -4) return { label: 'Fair', color: '#eab308' };
-    if (snr >= -12.5) return { label: 'Marginal', color: '#f97316' };
-    return { label: 'Poor', color: '#ef4444' };
+    return nodeDistance(nodeLookup, fromNodeId, toNodeId);
   };
 
   const getHopInfo = (gw: { node_id: number; node_name?: string; rx_rssi?: number; rx_snr?: number; hop_start?: number; hop_limit?: number }, packetFromNodeId: number): { hopText: string; hopCount: number; showSignal: boolean } => {
@@ -453,45 +338,15 @@ export function PacketDetail({ packetId, nodeLookup, onBack, onNodeClick, onChan
       </div>
 
       <div className="packet-info-cards">
-        {isNeighborInfo && neighborData && neighborData.length > 0 && (
-          <div className="packet-neighbor-card">
-            <NeighborInfoVisualization
-              neighbors={neighborData}
-              sourceNodeId={packet.from_node_id}
-              nodeLookup={nodeLookup}
-              onNodeClick={onNodeClick}
-              channel={packet.channel}
-            />
-          </div>
-        )}
-
-        {isTraceroute && tracerouteData && tracerouteData.route.length > 0 && (
-          <div className="packet-traceroute-card">
-            <TracerouteVisualization
-              packetId={packet.id}
-              route={tracerouteData.route}
-              fromNodeId={packet.from_node_id}
-              toNodeId={packet.to_node_id}
-              isDone={tracerouteDone}
-              nodeLookup={nodeLookup}
-              onNodeClick={onNodeClick}
-            />
-            {/* Show button if this traceroute observation packet has full traceroute data */}
-            {hasTracerouteData && onTracerouteClick && (
-              <div className="traceroute-actions">
-                <button 
-                  className="btn-primary"
-                  onClick={() => onTracerouteClick(getTracerouteId())}
-                  disabled={checkingTraceroute}
-                >
-                  View Full Traceroute Details →
-                </button>
-                <p className="traceroute-hint">
-                  See all routes observed by different gateways and a comprehensive network graph
-                </p>
-              </div>
-            )}
-          </div>
+        {PortCard && payload && (
+          <PortCard
+            payload={payload}
+            payloadHex={payloadHex}
+            packet={packet}
+            nodeLookup={nodeLookup}
+            onNodeClick={onNodeClick}
+            onTracerouteClick={onTracerouteClick}
+          />
         )}
 
         <div className="packet-info-card">
@@ -521,7 +376,9 @@ export function PacketDetail({ packetId, nodeLookup, onBack, onNodeClick, onChan
             </>
           } />
           <InfoItem label="Channel" value={packet.channel} />
-          <InfoItem label="Port" value={getPortNumName(packet.portnum.toString())} />
+          <InfoItem label="Port" value={decrypted
+            ? `${getPortNumName(decrypted.portnum.toString())} (decrypted)`
+            : getPortNumName(packet.portnum.toString())} />
           <InfoItem label="Time" value={formatLocalDateTime(packet.import_time)} />
           {packet.hop_start !== undefined && (
             <InfoItem label="Hop Limit" value={packet.hop_start} />
@@ -983,12 +840,24 @@ export function PacketDetail({ packetId, nodeLookup, onBack, onNodeClick, onChan
         })()}
 
         <div className="packet-payload-card">
-          <h3>Payload</h3>
-          <pre className="payload-display">{getPayloadDisplay(packet.payload)}</pre>
-          {packet.payload_hex && (
+          <h3>
+            Payload
+            {decrypted && (
+              <span className="payload-source" title="Decrypted in the browser with a stored channel key">
+                🔓 decrypted with {decrypted.keyName}
+              </span>
+            )}
+            {!decrypted && resolvedPayload.decodedLocally && (
+              <span className="payload-source" title="The server did not decode this payload; it was decoded from the raw bytes in the browser">
+                decoded locally
+              </span>
+            )}
+          </h3>
+          <pre className="payload-display">{getPayloadDisplay()}</pre>
+          {payloadHex && portnum !== undefined && (
             <>
-              <h4>Raw Hex</h4>
-              <pre className="payload-hex">{packet.payload_hex}</pre>
+              <h4>{decrypted ? 'Decrypted Bytes' : 'Raw Bytes'}</h4>
+              <ProtobufInspector payloadHex={payloadHex} portnum={portnum} />
             </>
           )}
         </div>
@@ -1144,10 +1013,10 @@ export function PacketDetail({ packetId, nodeLookup, onBack, onNodeClick, onChan
                                   <span className="signal-value">{gw.rx_snr} dB</span>
                                   <span 
                                     className="quality-badge quality-badge-compact" 
-                                    style={{ backgroundColor: getSnrQuality(gw.rx_snr).color }}
-                                    title={`SNR Quality: ${getSnrQuality(gw.rx_snr).label}`}
+                                    style={{ backgroundColor: getSnrQuality(gw.rx_snr, packet.channel).color }}
+                                    title={`SNR Quality: ${getSnrQuality(gw.rx_snr, packet.channel).label}`}
                                   >
-                                    {getSnrQuality(gw.rx_snr).label}
+                                    {getSnrQuality(gw.rx_snr, packet.channel).label}
                                   </span>
                                 </div>
                                 <div className="signal-row">
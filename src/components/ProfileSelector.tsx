@@ -0,0 +1,163 @@
+import { useState } from 'react';
+import type { MeshProfile } from '../utils/meshProfiles';
+import {
+  getMeshProfiles,
+  getActiveProfile,
+  setActiveProfile,
+  saveCustomProfile,
+  deleteCustomProfile,
+  deriveWebSocketUrl,
+  BUILT_IN_PROFILES
+} from '../utils/meshProfiles';
+
+const ADD_PROFILE_OPTION = '__add__';
+
+export function ProfileSelector() {
+  const [profiles, setProfiles] = useState<MeshProfile[]>(() => getMeshProfiles());
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState('');
+  const [apiBaseUrl, setApiBaseUrl] = useState('');
+  const [websocketUrl, setWebsocketUrl] = useState('');
+  const [lat, setLat] = useState('');
+  const [lng, setLng] = useState('');
+  const [zoom, setZoom] = useState('9');
+  const [defaultChannel, setDefaultChannel] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const activeProfile = getActiveProfile();
+  const isCustomActive = !BUILT_IN_PROFILES.some(p => p.id === activeProfile.id);
+
+  const switchProfile = (profileId: string) => {
+    if (profileId === activeProfile.id) return;
+    setActiveProfile(profileId);
+    // Everything loaded so far belongs to the old mesh
+    window.location.reload();
+  };
+
+  const handleSelect = (value: string) => {
+    if (value === ADD_PROFILE_OPTION) {
+      setShowForm(true);
+      return;
+    }
+    switchProfile(value);
+  };
+
+  const handleSave = () => {
+    const centerLat = parseFloat(lat);
+    const centerLng = parseFloat(lng);
+    const zoomLevel = parseInt(zoom, 10);
+
+    if (!name.trim() || !apiBaseUrl.trim()) {
+      setFormError('Name and API URL are required');
+      return;
+    }
+    if (!/^https?:\/\//.test(apiBaseUrl.trim())) {
+      setFormError('API URL must start with http:// or https://');
+      return;
+    }
+    if (isNaN(centerLat) || isNaN(centerLng) || Math.abs(centerLat) > 90 || Math.abs(centerLng) > 180) {
+      setFormError('Enter a valid map center latitude and longitude');
+      return;
+    }
+
+    const trimmedApiUrl = apiBaseUrl.trim().replace(/\/+$/, '');
+    const profile: MeshProfile = {
+      id: `custom-${Date.now()}`,
+      name: name.trim(),
+      apiBaseUrl: trimmedApiUrl,
+      websocketUrl: websocketUrl.trim() || deriveWebSocketUrl(trimmedApiUrl),
+      defaultCenter: [centerLat, centerLng],
+      defaultZoom: isNaN(zoomLevel) ? 9 : zoomLevel,
+      defaultChannel: defaultChannel.trim(),
+    };
+
+    saveCustomProfile(profile);
+    setProfiles(getMeshProfiles());
+    setShowForm(false);
+    setFormError(null);
+    switchProfile(profile.id);
+  };
+
+  const handleDelete = () => {
+    deleteCustomProfile(activeProfile.id);
+    switchProfile(BUILT_IN_PROFILES[0].id);
+  };
+
+  return (
+    <div className="profile-selector">
+      <select
+        value={activeProfile.id}
+        onChange={(e) => handleSelect(e.target.value)}
+        className="compact-select"
+        title={`Backend: ${activeProfile.apiBaseUrl}`}
+        aria-label="Mesh profile"
+      >
+        {profiles.map(profile => (
+          <option key={profile.id} value={profile.id}>
+            {profile.name}
+          </option>
+        ))}
+        <option value={ADD_PROFILE_OPTION}>+ Add mesh...</option>
+      </select>
+      {isCustomActive && (
+        <button
+          className="profile-delete-btn"
+          onClick={handleDelete}
+          title="Remove this mesh profile"
+          aria-label="Remove this mesh profile"
+        >
+          ×
+        </button>
+      )}
+
+      {showForm && (
+        <div className="modal-overlay" onClick={() => setShowForm(false)}>
+          <div className="modal-panel" onClick={(e) => e.stopPropagation()}>
+            <h3>Add Mesh Profile</h3>
+            <div className="modal-form">
+              <label>
+                Name
+                <input value={name} onChange={(e) => setName(e.target.value)} placeholder="My Mesh" />
+              </label>
+              <label>
+                API URL
+                <input value={apiBaseUrl} onChange={(e) => setApiBaseUrl(e.target.value)} placeholder="https://meshql.example.org" />
+              </label>
+              <label>
+                WebSocket URL
+                <input
+                  value={websocketUrl}
+                  onChange={(e) => setWebsocketUrl(e.target.value)}
+                  placeholder={apiBaseUrl ? deriveWebSocketUrl(apiBaseUrl.trim()) : 'Derived from API URL'}
+                />
+              </label>
+              <div className="modal-form-row">
+                <label>
+                  Latitude
+                  <input value={lat} onChange={(e) => setLat(e.target.value)} placeholder="37.5" />
+                </label>
+                <label>
+                  Longitude
+                  <input value={lng} onChange={(e) => setLng(e.target.value)} placeholder="-122.0" />
+                </label>
+                <label>
+                  Zoom
+                  <input type="number" min="1" max="18" value={zoom} onChange={(e) => setZoom(e.target.value)} />
+                </label>
+              </div>
+              <label>
+                Default Channel
+                <input value={defaultChannel} onChange={(e) => setDefaultChannel(e.target.value)} placeholder="LongFast (empty for all channels)" />
+              </label>
+              {formError && <div className="modal-error" role="alert">{formError}</div>}
+            </div>
+            <div className="filter-actions">
+              <button className="btn-primary" onClick={handleSave}>Save & Switch</button>
+              <button className="btn-secondary" onClick={() => { setShowForm(false); setFormError(null); }}>Cancel</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
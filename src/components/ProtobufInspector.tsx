@@ -0,0 +1,205 @@
+import { useMemo, useState } from 'react';
+import {
+  WIRE_VARINT,
+  WIRE_I64,
+  WIRE_I32,
+  WIRE_LEN,
+  WIRE_TYPE_NAMES,
+  decodeFields,
+  hexToBytes,
+  bytesToHex,
+  readFixed32,
+  readFloat,
+  readFixed64,
+  toInt32,
+  toSint32,
+  decodeUtf8,
+} from '../utils/protobuf';
+import type { ProtoField } from '../utils/protobuf';
+import { PORT_MESSAGES, decodeFieldValues } from '../utils/meshtasticMessages';
+import type { MessageDef } from '../utils/meshtasticMessages';
+
+interface ProtobufInspectorProps {
+  payloadHex: string;
+  portnum: number;
+}
+
+interface FieldNode {
+  key: string;
+  field: ProtoField;
+  name?: string;
+  value: string;
+  children?: FieldNode[];
+}
+
+interface ByteRange {
+  start: number;
+  dataStart: number;
+  end: number;
+}
+
+const BYTES_PER_ROW = 16;
+
+function formatValue(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(formatValue).join(', ')}]`;
+  if (typeof value === 'string') return JSON.stringify(value);
+  return String(value);
+}
+
+// Without a schema, show the plausible interpretations of the raw value
+function describeRawValue(field: ProtoField): string {
+  switch (field.wireType) {
+    case WIRE_VARINT: {
+      const value = field.varint ?? 0n;
+      const parts = [value.toString()];
+      if (value >= 0x80000000n) parts.push(`int32 ${toInt32(value)}`);
+      if (value > 0n && value <= 0xffffffffn) parts.push(`sint32 ${toSint32(value)}`);
+      return parts.join(' · ');
+    }
+    case WIRE_I32:
+      return `${readFixed32(field.data)} · float ${readFloat(field.data).toPrecision(7)}`;
+    case WIRE_I64:
+      return readFixed64(field.data).toString();
+    default: {
+      const text = decodeUtf8(field.data);
+      return text !== null && /^[\P{Cc}\n\r\t]*$/u.test(text)
+        ? JSON.stringify(text)
+        : `${field.data.length} bytes`;
+    }
+  }
+}
+
+// Try to read a len field as a nested message: it must parse cleanly
+function tryNestedFields(field: ProtoField): ProtoField[] | null {
+  if (field.data.length === 0) return null;
+  try {
+    return decodeFields(field.data, field.dataOffset);
+  } catch {
+    return null;
+  }
+}
+
+function buildTree(fields: ProtoField[], def: MessageDef | null, path: string): FieldNode[] {
+  return fields.map((field, idx) => {
+    const key = `${path}.${idx}`;
+    const fieldDef = def?.fields[field.fieldNumber];
+
+    if (field.wireType === WIRE_LEN && (!fieldDef || fieldDef.type === 'message')) {
+      const nested = tryNestedFields(field);
+      // Unknown len fields are often strings that happen to parse as fields
+      const isKnownMessage = fieldDef?.type === 'message';
+      if (nested && (isKnownMessage || decodeUtf8(field.data) === null)) {
+        return {
+          key,
+          field,
+          name: fieldDef?.name,
+          value: fieldDef?.message?.name ?? 'message',
+          children: buildTree(nested, fieldDef?.message ?? null, key),
+        };
+      }
+    }
+
+    const values = fieldDef ? decodeFieldValues(fieldDef, field) : [];
+    const value = values.length === 0
+      ? describeRawValue(field)
+      : formatValue(values.length === 1 && !fieldDef?.repeated ? values[0] : values);
+    return { key, field, name: fieldDef?.name, value };
+  });
+}
+
+function FieldTree({ nodes, onHover }: { nodes: FieldNode[]; onHover: (range: ByteRange | null) => void }) {
+  return (
+    <ul className="pb-tree">
+      {nodes.map(node => (
+        <li key={node.key}>
+          <div
+            className="pb-tree-row"
+            onMouseEnter={() => onHover({ start: node.field.offset, dataStart: node.field.dataOffset, end: node.field.end })}
+            onMouseLeave={() => onHover(null)}
+          >
+            <span className="pb-field-number">#{node.field.fieldNumber}</span>
+            {node.name && <span className="pb-field-name">{node.name}</span>}
+            <span className="pb-wire-type">{WIRE_TYPE_NAMES[node.field.wireType]}</span>
+            <span className="pb-field-value">{node.value}</span>
+            <span className="pb-field-offset">@{node.field.offset}</span>
+          </div>
+          {node.children && <FieldTree nodes={node.children} onHover={onHover} />}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Hex dump of a payload alongside its protobuf field tree. Hovering a field
+// highlights its tag and value bytes in the dump.
+export function ProtobufInspector({ payloadHex, portnum }: ProtobufInspectorProps) {
+  const [highlight, setHighlight] = useState<ByteRange | null>(null);
+
+  const { bytes, tree, error } = useMemo(() => {
+    let bytes: Uint8Array;
+    try {
+      bytes = hexToBytes(payloadHex);
+    } catch (err) {
+      return { bytes: new Uint8Array(0), tree: [], error: err instanceof Error ? err.message : 'Invalid hex' };
+    }
+
+    const port = PORT_MESSAGES[portnum];
+    // Text messages are plain UTF-8, not a protobuf
+    if (port && port.message === null) {
+      return { bytes, tree: [], error: null };
+    }
+    try {
+      return { bytes, tree: buildTree(decodeFields(bytes), port?.message ?? null, 'root'), error: null };
+    } catch (err) {
+      return { bytes, tree: [], error: err instanceof Error ? err.message : 'Not a protobuf message' };
+    }
+  }, [payloadHex, portnum]);
+
+  const rows = useMemo(() => {
+    const result: Uint8Array[] = [];
+    for (let i = 0; i < bytes.length; i += BYTES_PER_ROW) {
+      result.push(bytes.subarray(i, i + BYTES_PER_ROW));
+    }
+    return result;
+  }, [bytes]);
+
+  const byteClass = (index: number): string => {
+    if (!highlight || index < highlight.start || index >= highlight.end) return 'pb-byte';
+    return index < highlight.dataStart ? 'pb-byte pb-byte-tag' : 'pb-byte pb-byte-value';
+  };
+
+  return (
+    <div className="protobuf-inspector">
+      <div className="pb-hexdump" aria-label="Payload hex dump">
+        {rows.map((row, rowIdx) => {
+          const rowOffset = rowIdx * BYTES_PER_ROW;
+          return (
+            <div key={rowOffset} className="pb-hex-row">
+              <span className="pb-offset">{rowOffset.toString(16).padStart(4, '0')}</span>
+              <span className="pb-hex-bytes">
+                {Array.from(row, (b, i) => (
+                  <span key={i} className={byteClass(rowOffset + i)}>{bytesToHex(Uint8Array.of(b))}</span>
+                ))}
+              </span>
+              <span className="pb-ascii">
+                {Array.from(row, (b, i) => (
+                  <span key={i} className={byteClass(rowOffset + i)}>
+                    {b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : '.'}
+                  </span>
+                ))}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      {error ? (
+        <div className="pb-error">Could not decode as protobuf: {error}</div>
+      ) : tree.length > 0 && (
+        <div className="pb-tree-container">
+          <FieldTree nodes={tree} onHover={setHighlight} />
+        </div>
+      )}
+    </div>
+  );
+}
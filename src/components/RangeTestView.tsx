@@ -0,0 +1,298 @@
+import { useState, useMemo } from 'react';
+import { MapContainer, TileLayer, CircleMarker, Polyline, Popup, Tooltip } from 'react-leaflet';
+import type { LatLngBoundsExpression } from 'leaflet';
+import { useRangeTestSessions, useRangeTestDetails } from '../hooks/useRangeTest';
+import { summarizeRangeTest } from '../utils/rangeTest';
+import type { RangeTestPacket } from '../utils/rangeTest';
+import { getSnrQuality, QUALITY_COLORS } from '../utils/signalQuality';
+import { formatNodeId, getNodeDisplayName } from '../utils/portNames';
+import { getActiveProfile } from '../utils/meshProfiles';
+import type { NodeLookup } from '../utils/nodeLookup';
+import { ErrorState } from './ui';
+
+interface RangeTestViewProps {
+  nodeLookup: NodeLookup | null;
+  selectedChannel: string;
+  daysActive: number;
+  onPacketClick: (packetId: number) => void;
+  onNodeClick: (nodeId: string) => void;
+}
+
+function bestSnr(packet: RangeTestPacket): number | undefined {
+  const values = packet.receptions.map(r => r.snr).filter((snr): snr is number => snr !== undefined);
+  return values.length > 0 ? Math.max(...values) : undefined;
+}
+
+function maxDistance(packet: RangeTestPacket): number | null {
+  const values = packet.receptions.map(r => r.distance).filter((d): d is number => d !== null);
+  return values.length > 0 ? Math.max(...values) : null;
+}
+
+function formatTimeRange(start: number, end: number): string {
+  const startText = new Date(start).toLocaleString();
+  const endTime = new Date(end).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return `${startText} – ${endTime}`;
+}
+
+// Range test sessions per sender: where each packet was heard, by which
+// gateways and how far away, with range and loss for the whole session
+export function RangeTestView({ nodeLookup, selectedChannel, daysActive, onPacketClick, onNodeClick }: RangeTestViewProps) {
+  const { sessions, loading, error, truncated } = useRangeTestSessions(selectedChannel, daysActive);
+  const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
+
+  // Default to the most recent session
+  const session = sessions.find(s => s.id === selectedSessionId) ?? sessions[0] ?? null;
+  const details = useRangeTestDetails(session, nodeLookup);
+  const summary = useMemo(
+    () => summarizeRangeTest(session?.packets ?? [], details.packets),
+    [session, details.packets]
+  );
+
+  const getNodeName = (nodeId: number) => getNodeDisplayName(nodeId, nodeLookup);
+  // Packets with no sender position close in time have no distances
+  const unplaced = details.packets.filter(packet => packet.senderPosition === null).length;
+
+  const bounds = useMemo((): LatLngBoundsExpression | null => {
+    const points = details.packets.flatMap(packet => [
+      ...(packet.senderPosition ? [packet.senderPosition] : []),
+      ...packet.receptions.flatMap(r => (r.gatewayPosition ? [r.gatewayPosition] : [])),
+    ]);
+    return points.length > 0 ? points : null;
+  }, [details.packets]);
+
+  // Every gateway that heard the session, with how many packets it heard
+  const gateways = useMemo(() => {
+    const heard = new Map<number, { position: [number, number]; count: number }>();
+    details.packets.forEach(packet => packet.receptions.forEach(reception => {
+      if (!reception.gatewayPosition) return;
+      const entry = heard.get(reception.gatewayId) ?? { position: reception.gatewayPosition, count: 0 };
+      entry.count++;
+      heard.set(reception.gatewayId, entry);
+    }));
+    return Array.from(heard.entries());
+  }, [details.packets]);
+
+  if (loading) {
+    return <div className="loading">Loading range tests...</div>;
+  }
+  if (error) {
+    return <ErrorState message={`Error: ${error}`} />;
+  }
+
+  return (
+    <div className="range-test-view">
+      <div className="recent-packets-header">
+        <h2>Range Tests</h2>
+        <div className="filter-info">
+          {selectedChannel && <span>Channel: {selectedChannel}</span>}
+          {truncated && <span> (most recent packets only)</span>}
+        </div>
+        {sessions.length > 0 && (
+          <div className="packet-filters">
+            <label>
+              Session:
+              <select value={session?.id ?? ''} onChange={(e) => setSelectedSessionId(e.target.value)}>
+                {sessions.map(s => (
+                  <option key={s.id} value={s.id}>
+                    {getNodeName(s.senderId)} · {formatTimeRange(s.start, s.end)} · {s.packets.length} packets
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+        )}
+      </div>
+
+      {!session ? (
+        <div className="no-packets">
+          No range test packets in this time range. Enable the Range Test module on a sender
+          to start a session.
+        </div>
+      ) : (
+        <>
+          <div className="range-test-sender">
+            Sender:{' '}
+            <button className="node-link" onClick={() => onNodeClick(formatNodeId(session.senderId))}>
+              {getNodeName(session.senderId)}
+            </button>
+            {details.loading && <span className="loading-indicator">Loading receptions...</span>}
+            {details.truncated && <span className="range-test-note">Showing the newest packets of this session</span>}
+            {unplaced > 0 && (
+              <span className="range-test-note">
+                {unplaced} packet{unplaced === 1 ? '' : 's'} sent with no position report nearby; distance unknown
+              </span>
+            )}
+          </div>
+          {details.error && <ErrorState message={`Error: ${details.error}`} />}
+
+          <div className="stats-grid range-test-summary">
+            <div className="stat-card">
+              <h3>Delivery</h3>
+              <div className="stat-item">
+                <span className="stat-label">Packets received:</span>
+                <span className="stat-value">
+                  {summary.received}{summary.expected !== null && ` of ${summary.expected}`}
+                </span>
+              </div>
+              <div className="stat-item">
+                <span className="stat-label">Loss:</span>
+                <span className="stat-value">
+                  {summary.lossPercent !== null ? `${summary.lossPercent.toFixed(1)}%` : '-'}
+                </span>
+              </div>
+              <div className="stat-item">
+                <span className="stat-label">Gateways:</span>
+                <span className="stat-value">{summary.gateways}</span>
+              </div>
+            </div>
+            <div className="stat-card">
+              <h3>Range</h3>
+              <div className="stat-item">
+                <span className="stat-label">Max distance:</span>
+                <span className="stat-value">
+                  {summary.maxDistance ? `${summary.maxDistance.miles.toFixed(1)} mi` : '-'}
+                </span>
+              </div>
+              <div className="stat-item">
+                <span className="stat-label">Heard by:</span>
+                <span className="stat-value">
+                  {summary.maxDistance ? (
+                    <button className="node-link" onClick={() => onNodeClick(formatNodeId(summary.maxDistance!.gatewayId))}>
+                      {getNodeName(summary.maxDistance.gatewayId)}
+                    </button>
+                  ) : '-'}
+                </span>
+              </div>
+              <div className="stat-item">
+                <span className="stat-label">SNR (best / worst):</span>
+                <span className="stat-value">
+                  {summary.bestSnr !== null && summary.worstSnr !== null
+                    ? `${summary.bestSnr} / ${summary.worstSnr} dB`
+                    : '-'}
+                </span>
+              </div>
+            </div>
+          </div>
+
+          <div className="range-test-map">
+            <MapContainer
+              key={`${session.id}-${bounds ? 'fit' : 'default'}`}
+              {...(bounds
+                ? { bounds, boundsOptions: { padding: [30, 30] } }
+                : { center: getActiveProfile().defaultCenter, zoom: getActiveProfile().defaultZoom })}
+              style={{ height: '100%', width: '100%' }}
+            >
+              <TileLayer
+                attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+                url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+              />
+
+              {details.packets.map(packet => packet.senderPosition && packet.receptions.map(reception => (
+                reception.gatewayPosition && (
+                  <Polyline
+                    key={`${packet.packetId}-${reception.gatewayId}`}
+                    positions={[packet.senderPosition!, reception.gatewayPosition]}
+                    pathOptions={{ color: getSnrQuality(reception.snr, selectedChannel).color, weight: 1.5, opacity: 0.5 }}
+                  />
+                )
+              )))}
+
+              {gateways.map(([gatewayId, { position, count }]) => (
+                <CircleMarker
+                  key={`gw-${gatewayId}`}
+                  center={position}
+                  radius={7}
+                  pathOptions={{ color: '#1f2937', fillColor: '#ffffff', fillOpacity: 1, weight: 3 }}
+                >
+                  <Tooltip>{getNodeName(gatewayId)}: heard {count} packet{count === 1 ? '' : 's'}</Tooltip>
+                </CircleMarker>
+              ))}
+
+              {details.packets.map(packet => packet.senderPosition && (
+                <CircleMarker
+                  key={`pkt-${packet.packetId}`}
+                  center={packet.senderPosition}
+                  radius={6}
+                  pathOptions={{
+                    color: '#ffffff',
+                    weight: 1,
+                    fillColor: packet.receptions.length > 0
+                      ? getSnrQuality(bestSnr(packet), selectedChannel).color
+                      : QUALITY_COLORS.unknown,
+                    fillOpacity: 0.9,
+                  }}
+                >
+                  <Popup>
+                    <div className="range-test-popup">
+                      <h4>{packet.seq !== null ? `Seq ${packet.seq}` : `Packet ${packet.packetId}`}</h4>
+                      <div>{new Date(packet.time).toLocaleString()}</div>
+                      {packet.receptions.length === 0 ? (
+                        <div>Not heard by any other gateway</div>
+                      ) : (
+                        <ul>
+                          {packet.receptions.map(reception => (
+                            <li key={reception.gatewayId}>
+                              <strong>{getNodeName(reception.gatewayId)}</strong>
+                              {reception.snr !== undefined && ` · SNR ${reception.snr} dB`}
+                              {reception.rssi !== undefined && ` · RSSI ${reception.rssi} dBm`}
+                              {reception.distance !== null && ` · ${reception.distance.toFixed(1)} mi`}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      <button className="node-link" onClick={() => onPacketClick(packet.packetId)}>
+                        View packet →
+                      </button>
+                    </div>
+                  </Popup>
+                </CircleMarker>
+              ))}
+            </MapContainer>
+          </div>
+
+          <div className="packets-table-container">
+            <table className="packets-table">
+              <thead>
+                <tr>
+                  <th>Seq</th>
+                  <th>Time</th>
+                  <th>Gateways</th>
+                  <th>Best SNR</th>
+                  <th>Best RSSI</th>
+                  <th>Max Distance</th>
+                  <th>Packet</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...details.packets].reverse().map(packet => {
+                  const snr = bestSnr(packet);
+                  const rssiValues = packet.receptions.map(r => r.rssi).filter((v): v is number => v !== undefined);
+                  const distance = maxDistance(packet);
+                  return (
+                    <tr key={packet.packetId}>
+                      <td>{packet.seq ?? '-'}</td>
+                      <td>{new Date(packet.time).toLocaleString()}</td>
+                      <td>{packet.receptions.length}</td>
+                      <td style={{ color: snr !== undefined ? getSnrQuality(snr, selectedChannel).color : undefined }}>
+                        {snr !== undefined ? `${snr} dB` : '-'}
+                      </td>
+                      <td>{rssiValues.length > 0 ? `${Math.max(...rssiValues)} dBm` : '-'}</td>
+                      <td>
+                        {packet.senderPosition === null ? 'Unknown' : distance !== null ? `${distance.toFixed(1)} mi` : '-'}
+                      </td>
+                      <td>
+                        <button className="packet-id-link" onClick={() => onPacketClick(packet.packetId)}>
+                          {packet.packetId}
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,12 @@
 import { useState, useEffect, useMemo } from 'react';
-import { api } from '../api';
-import type { Packet } from '../types';
+import type { PacketQueryParams } from '../api';
+import { usePaginatedPackets } from '../hooks/usePaginatedPackets';
+import { useDecryptedPackets } from '../hooks/useDecryptedPackets';
+import { summarizePacket, summarizePayload } from '../ports';
 import { getPortNumName, formatLocalDateTime, getNodeDisplayName } from '../utils/portNames';
 import type { NodeLookup } from '../utils/nodeLookup';
 import { DEFAULT_PACKET_LIMIT, BROADCAST_NODE_ID } from '../utils/constants';
-import { LoadingState, ErrorState } from './ui';
+import { LoadingState, ErrorState, LoadMore } from './ui';
 
 interface RecentPacketsProps {
   nodeLookup: NodeLookup | null;
@@ -24,52 +26,48 @@ export function RecentPackets({
   onPacketClick,
   onNodeClick
 }: RecentPacketsProps) {
-  const [packets, setPackets] = useState<Packet[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [sortField, setSortField] = useState<SortField>('timestamp');
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
   const [selectedPort, setSelectedPort] = useState<string>('all');
+  const [knownPorts, setKnownPorts] = useState<Set<string>>(new Set());
 
-  useEffect(() => {
-    const fetchPackets = async () => {
-      try {
-        setLoading(true);
-        setError(null);
-        
-        const params: {
-          limit: number;
-          decode_payload: boolean;
-          includeGatewayCount: boolean;
-          channel?: string;
-          days_active?: number;
-        } = {
-          limit: DEFAULT_PACKET_LIMIT,
-          decode_payload: false,
-          includeGatewayCount: true,
-        };
-
-        if (selectedChannel) {
-          params.channel = selectedChannel;
-        }
-        
-        if (daysActive > 0) {
-          params.days_active = daysActive;
-        }
-
-        const data = await api.getPackets(params);
-        setPackets(data.packets || []);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to fetch packets');
-        console.error('Error fetching packets:', err);
-      } finally {
-        setLoading(false);
-      }
-    };
+  // The port filter is applied server-side so every page is full of matches
+  const query: PacketQueryParams = {
+    decode_payload: false,
+    includeGatewayCount: true,
+    channel: selectedChannel || undefined,
+    days_active: daysActive > 0 ? daysActive : undefined,
+    portnum: selectedPort !== 'all' ? parseInt(selectedPort) : undefined,
+  };
+  const { packets, loading, loadingMore, error, hasMore, loadMore } = usePaginatedPackets(query, DEFAULT_PACKET_LIMIT);
+  const decrypted = useDecryptedPackets(packets);
 
-    fetchPackets();
+  // Payload summaries for the port column's tooltip
+  const summaries = useMemo(() => {
+    const result = new Map<number, string>();
+    packets.forEach(pkt => {
+      const decryptedPacket = decrypted.get(pkt.id);
+      const summary = decryptedPacket
+        ? summarizePayload(decryptedPacket.portnum, decryptedPacket.payload)
+        : summarizePacket(pkt);
+      if (summary) result.set(pkt.id, summary);
+    });
+    return result;
+  }, [packets, decrypted]);
+
+  // Remember every port seen so the filter keeps offering them once one is selected
+  useEffect(() => {
+    setKnownPorts(new Set());
   }, [selectedChannel, daysActive]);
 
+  useEffect(() => {
+    setKnownPorts(prev => {
+      const next = new Set(prev);
+      packets.forEach(pkt => next.add(pkt.portnum.toString()));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [packets]);
+
   const getNodeName = (nodeId: number): string => {
     return getNodeDisplayName(nodeId, nodeLookup);
   };
@@ -129,9 +127,10 @@ export function RecentPackets({
   }, [packets, sortField, sortDirection, selectedPort]);
 
   const uniquePorts = useMemo(() => {
-    const ports = new Set(packets.map(pkt => pkt.portnum.toString()));
+    const ports = new Set(knownPorts);
+    if (selectedPort !== 'all') ports.add(selectedPort);
     return Array.from(ports).sort((a, b) => parseInt(a) - parseInt(b));
-  }, [packets]);
+  }, [knownPorts, selectedPort]);
 
   if (loading) {
     return (
@@ -199,6 +198,7 @@ export function RecentPackets({
               const timestamp = pkt.timestamp || pkt.import_time || '';
               const fromNodeId = pkt.from_node_id || 0;
               const toNodeId = pkt.to_node_id || 0;
+              const decryptedPacket = decrypted.get(pkt.id);
               
               return (
                 <tr key={pkt.id}>
@@ -235,7 +235,16 @@ export function RecentPackets({
                       getNodeName(toNodeId)
                     )}
                   </td>
-                  <td>{getPortNumName(pkt.portnum.toString())}</td>
+                  <td title={summaries.get(pkt.id)}>
+                    {decryptedPacket ? (
+                      <>
+                        {getPortNumName(decryptedPacket.portnum.toString())}
+                        <span className="decrypted-badge" title={`Decrypted with the "${decryptedPacket.keyName}" key`}>🔓</span>
+                      </>
+                    ) : (
+                      getPortNumName(pkt.portnum.toString())
+                    )}
+                  </td>
                   <td>{pkt.channel}</td>
                   <td>{pkt.gateway_count ?? '-'}</td>
                 </tr>
@@ -246,6 +255,7 @@ export function RecentPackets({
         {packets.length === 0 && (
           <div className="no-packets">No packets found</div>
         )}
+        <LoadMore onLoadMore={loadMore} hasMore={hasMore} loading={loadingMore} />
       </div>
     </div>
   );
@@ -0,0 +1,32 @@
+import { useState, useEffect, useSyncExternalStore } from 'react';
+import { getRetryStatuses, onRetryStatusChange } from '../api';
+
+// Shows a countdown while api requests are waiting to be retried
+export function RetryIndicator() {
+  const statuses = useSyncExternalStore(onRetryStatusChange, getRetryStatuses);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (statuses.length === 0) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [statuses.length]);
+
+  if (statuses.length === 0) return null;
+
+  // The soonest retry drives the countdown
+  const next = statuses.reduce((a, b) => (a.retryAt <= b.retryAt ? a : b));
+  const seconds = Math.max(0, Math.ceil((next.retryAt - now) / 1000));
+  const details = statuses
+    .map(s => `${s.operation} (attempt ${s.attempt})`)
+    .join('\n');
+
+  return (
+    <div className="retry-indicator" role="status" title={details}>
+      <span className="retry-indicator-spinner" aria-hidden="true">↻</span>
+      Retrying in {seconds}s
+      {statuses.length > 1 && <span className="retry-indicator-count">({statuses.length} requests)</span>}
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import { useMemo } from 'react';
+import { useRoutingEvents } from '../hooks/useRoutingEvents';
+import {
+  routingErrorLabel,
+  routingErrorsByNode,
+  routingErrorsByReason,
+  routingErrorTimeline,
+} from '../utils/routing';
+import { formatNodeId, getNodeDisplayName } from '../utils/portNames';
+import type { NodeLookup } from '../utils/nodeLookup';
+import { ErrorState } from './ui';
+
+interface RoutingHealthProps {
+  channel: string;
+  daysActive: number;
+  nodeLookup?: NodeLookup;
+  onNodeClick?: (nodeId: string) => void;
+}
+
+// Error reasons take these colors in order of how common they are
+const REASON_COLORS = ['#ef4444', '#f97316', '#eab308', '#a855f7', '#0ea5e9', '#6b7280'];
+const MAX_NODES = 25;
+const HOUR_MS = 60 * 60 * 1000;
+
+function formatPercent(part: number, total: number): string {
+  return total > 0 ? `${((part / total) * 100).toFixed(1)}%` : '-';
+}
+
+// Routing health for the stats page: NAKs by error reason, by the node whose
+// message failed, and over time
+export function RoutingHealth({ channel, daysActive, nodeLookup, onNodeClick }: RoutingHealthProps) {
+  const { events, loading, error, truncated } = useRoutingEvents(channel, daysActive);
+
+  const byReason = useMemo(() => routingErrorsByReason(events), [events]);
+  const byNode = useMemo(() => routingErrorsByNode(events).slice(0, MAX_NODES), [events]);
+  const timeline = useMemo(() => routingErrorTimeline(events), [events]);
+
+  const reasonColor = (reason: number) => {
+    const index = byReason.findIndex(entry => entry.reason === reason);
+    return REASON_COLORS[Math.min(index, REASON_COLORS.length - 1)];
+  };
+
+  const naks = byReason.reduce((sum, entry) => sum + entry.count, 0);
+  const acks = events.length - naks;
+  const maxBucket = Math.max(1, ...timeline.map(bucket => bucket.total));
+  const hourly = timeline.length > 1 && timeline[1].start - timeline[0].start === HOUR_MS;
+  const formatBucket = (start: number) => hourly
+    ? new Date(start).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+    : new Date(start).toLocaleDateString([], { month: 'short', day: 'numeric' });
+
+  const renderNode = (nodeId: number) => {
+    const name = getNodeDisplayName(nodeId, nodeLookup ?? null);
+    return onNodeClick ? (
+      <button className="node-link" onClick={() => onNodeClick(formatNodeId(nodeId))}>{name}</button>
+    ) : (
+      <span>{name}</span>
+    );
+  };
+
+  return (
+    <div className="routing-health">
+      <div className="stats-header">
+        <h2>Routing Health</h2>
+        {loading && <span className="loading-indicator">Loading...</span>}
+        {truncated && <span className="loading-indicator">Most recent {events.length.toLocaleString()} only</span>}
+      </div>
+
+      {error ? (
+        <ErrorState message={`Error: ${error}`} />
+      ) : (
+        <div className="stats-grid">
+          <div className="stat-card">
+            <h3>ACK / NAK</h3>
+            <div className="stat-item">
+              <span className="stat-label">ACKs:</span>
+              <span className="stat-value">{acks.toLocaleString()}</span>
+            </div>
+            <div className="stat-item">
+              <span className="stat-label">NAKs:</span>
+              <span className="stat-value">{naks.toLocaleString()}</span>
+            </div>
+            <div className="stat-item">
+              <span className="stat-label">NAK rate:</span>
+              <span className="stat-value">{formatPercent(naks, events.length)}</span>
+            </div>
+          </div>
+
+          <div className="stat-card">
+            <h3>Errors by Reason</h3>
+            {byReason.length > 0 ? byReason.map(({ reason, count }) => (
+              <div key={reason} className="stat-item">
+                <span className="stat-label">
+                  <span className="routing-reason-swatch" style={{ background: reasonColor(reason) }} />
+                  {routingErrorLabel(reason)}:
+                </span>
+                <span className="stat-value">{count.toLocaleString()}</span>
+              </div>
+            )) : (
+              <div className="stat-item">
+                <span className="stat-label">No routing errors</span>
+              </div>
+            )}
+          </div>
+
+          <div className="stat-card stat-card-wide">
+            <h3>NAKs by Requesting Node ({MAX_NODES})</h3>
+            {byNode.length > 0 ? (
+              <div className="gateways-table-container">
+                <table className="gateways-list-table">
+                  <thead>
+                    <tr>
+                      <th className="rank-col">#</th>
+                      <th className="name-col">Node</th>
+                      <th className="count-col">NAKs</th>
+                      <th className="count-col">ACKs</th>
+                      <th className="count-col">NAK Rate</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {byNode.map((entry, index) => (
+                      <tr key={entry.nodeId}>
+                        <td className="rank-col">{index + 1}</td>
+                        <td className="name-col">{renderNode(entry.nodeId)}</td>
+                        <td className="count-col">{entry.naks.toLocaleString()}</td>
+                        <td className="count-col">{entry.acks.toLocaleString()}</td>
+                        <td className="count-col">{formatPercent(entry.naks, entry.naks + entry.acks)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <div className="stat-item">
+                <span className="stat-label">No data available</span>
+              </div>
+            )}
+          </div>
+
+          <div className="stat-card stat-card-four-wide">
+            <h3>Errors Over Time</h3>
+            {naks > 0 ? (
+              <>
+                <div className="routing-timeline">
+                  {timeline.map(bucket => (
+                    <div
+                      key={bucket.start}
+                      className="routing-timeline-bar"
+                      title={[
+                        `${formatBucket(bucket.start)}: ${bucket.total} NAK${bucket.total === 1 ? '' : 's'}`,
+                        ...bucket.naks.map(({ reason, count }) => `${routingErrorLabel(reason)}: ${count}`),
+                      ].join('\n')}
+                    >
+                      {bucket.naks.map(({ reason, count }) => (
+                        <div
+                          key={reason}
+                          style={{ height: `${(count / maxBucket) * 100}%`, background: reasonColor(reason) }}
+                        />
+                      ))}
+                    </div>
+                  ))}
+                </div>
+                <div className="routing-timeline-axis">
+                  <span>{formatBucket(timeline[0].start)}</span>
+                  <span>{formatBucket(timeline[timeline.length - 1].start)}</span>
+                </div>
+              </>
+            ) : (
+              <div className="stat-item">
+                <span className="stat-label">No routing errors</span>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+import { useState, useEffect, useMemo } from 'react';
+import { MapContainer, TileLayer, CircleMarker, Popup } from 'react-leaflet';
+import type { LatLngBoundsExpression } from 'leaflet';
+import { usePaxcounters, useDetectionEvents } from '../hooks/useSensors';
+import type { DetectionEvent, PaxcountSample } from '../utils/sensors';
+import { nodePosition } from '../utils/geo';
+import { formatNodeId, getNodeDisplayName } from '../utils/portNames';
+import { getActiveProfile } from '../utils/meshProfiles';
+import type { NodeLookup } from '../utils/nodeLookup';
+import { ErrorState } from './ui';
+import { TimeSeriesChart } from './TimeSeriesChart';
+import type { TimeSeriesPoint } from './TimeSeriesChart';
+
+interface SensorsViewProps {
+  nodeLookup: NodeLookup | null;
+  selectedChannel: string;
+  daysActive: number;
+  onPacketClick: (packetId: number) => void;
+  onNodeClick: (nodeId: string) => void;
+}
+
+interface SensorPin {
+  nodeId: number;
+  position: [number, number];
+  events: DetectionEvent[]; // newest first
+}
+
+const PAX_CHARTS: Array<{ title: string; value: (sample: PaxcountSample) => number; color: string }> = [
+  { title: 'Total', value: sample => sample.wifi + sample.ble, color: '#0366d6' },
+  { title: 'WiFi', value: sample => sample.wifi, color: '#f97316' },
+  { title: 'BLE', value: sample => sample.ble, color: '#a855f7' },
+];
+
+// A sensor that fired this recently is highlighted on the map
+const RECENT_DETECTION_MS = 5 * 60 * 1000;
+const MAX_LOGGED_EVENTS = 200;
+// Lone readings still get a readable time axis
+const MIN_DOMAIN_MS = 60 * 60 * 1000;
+
+function formatAgo(time: number, now: number): string {
+  const minutes = Math.max(0, Math.round((now - time) / 60000));
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 24 ? `${hours}h ago` : `${Math.floor(hours / 24)}d ago`;
+}
+
+// Paxcounter charts and a live detection sensor log for event crews: crowd
+// counts per counter node, and which gate sensors fired where
+export function SensorsView({ nodeLookup, selectedChannel, daysActive, onPacketClick, onNodeClick }: SensorsViewProps) {
+  const pax = usePaxcounters(selectedChannel, daysActive);
+  const detections = useDetectionEvents(selectedChannel, daysActive);
+  const [zoom, setZoom] = useState<[number, number] | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Keeps "recent" highlighting and "ago" labels current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    setZoom(null);
+  }, [selectedChannel, daysActive]);
+
+  const getNodeName = (nodeId: number) => getNodeDisplayName(nodeId, nodeLookup);
+
+  // Busiest counters first
+  const counters = useMemo(() => Array.from(pax.counters.entries())
+    .map(([nodeId, samples]) => ({ nodeId, samples, latest: samples[samples.length - 1] }))
+    .sort((a, b) => (b.latest.wifi + b.latest.ble) - (a.latest.wifi + a.latest.ble)), [pax.counters]);
+
+  const fullDomain = useMemo((): [number, number] => {
+    const times = counters.flatMap(counter => [counter.samples[0].time, counter.latest.time]);
+    if (times.length === 0) return [0, 1];
+    const first = Math.min(...times);
+    const last = Math.max(...times);
+    const padding = Math.max(0, MIN_DOMAIN_MS - (last - first)) / 2;
+    return [first - padding, last + padding];
+  }, [counters]);
+
+  const pins = useMemo((): SensorPin[] => {
+    const byNode = new Map<number, DetectionEvent[]>();
+    detections.events.forEach(event => {
+      const events = byNode.get(event.nodeId) ?? [];
+      events.push(event);
+      byNode.set(event.nodeId, events);
+    });
+    return Array.from(byNode, ([nodeId, events]) => {
+      const node = nodeLookup?.getNode(nodeId);
+      const position = node ? nodePosition(node) : null;
+      return position ? { nodeId, position, events } : null;
+    }).filter((pin): pin is SensorPin => pin !== null);
+  }, [detections.events, nodeLookup]);
+
+  const bounds = useMemo(
+    (): LatLngBoundsExpression | null => (pins.length > 0 ? pins.map(pin => pin.position) : null),
+    [pins]
+  );
+  // Refit only when the set of sensors changes, not on every event
+  const boundsKey = pins.map(pin => pin.nodeId).sort((a, b) => a - b).join(',');
+
+  const seriesFor = (samples: PaxcountSample[], value: (sample: PaxcountSample) => number): TimeSeriesPoint[] =>
+    samples.map(sample => ({ time: sample.time, value: value(sample), packetId: sample.packetId }));
+
+  return (
+    <div className="sensors-view">
+      <div className="recent-packets-header">
+        <h2>Sensors</h2>
+        <div className="filter-info">
+          {selectedChannel && <span>Channel: {selectedChannel}</span>}
+          <span>Live</span>
+        </div>
+      </div>
+
+      <section className="sensors-section">
+        <div className="sensors-section-header">
+          <h3>Pax Counters</h3>
+          {pax.truncated && <span className="sensors-note">Most recent readings only</span>}
+          {zoom && <button className="btn-secondary" onClick={() => setZoom(null)}>Reset Zoom</button>}
+        </div>
+        {pax.loading && counters.length === 0 ? (
+          <div className="packets-loading">Loading paxcounters...</div>
+        ) : pax.error ? (
+          <ErrorState message={`Error: ${pax.error}`} />
+        ) : counters.length === 0 ? (
+          <div className="no-packets">No paxcounter reports in this time range</div>
+        ) : counters.map(({ nodeId, samples, latest }) => (
+          <div key={nodeId} className="sensors-counter">
+            <div className="sensors-counter-header">
+              <button className="node-link" onClick={() => onNodeClick(formatNodeId(nodeId))}>
+                {getNodeName(nodeId)}
+              </button>
+              <span className="sensors-counter-now">{latest.wifi + latest.ble} nearby</span>
+              <span className="sensors-note">
+                WiFi {latest.wifi} · BLE {latest.ble} · {formatAgo(latest.time, now)}
+              </span>
+            </div>
+            <div className="node-telemetry-charts">
+              {PAX_CHARTS.map(chart => (
+                <TimeSeriesChart
+                  key={chart.title}
+                  title={chart.title}
+                  points={seriesFor(samples, chart.value)}
+                  domain={zoom ?? fullDomain}
+                  formatValue={(value) => value.toString()}
+                  onZoom={setZoom}
+                  onPointClick={onPacketClick}
+                  color={chart.color}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+      </section>
+
+      <section className="sensors-section">
+        <div className="sensors-section-header">
+          <h3>Detection Events</h3>
+          {detections.truncated && <span className="sensors-note">Most recent events only</span>}
+        </div>
+        {detections.loading && detections.events.length === 0 ? (
+          <div className="packets-loading">Loading detection events...</div>
+        ) : detections.error ? (
+          <ErrorState message={`Error: ${detections.error}`} />
+        ) : detections.events.length === 0 ? (
+          <div className="no-packets">No detection sensor events in this time range</div>
+        ) : (
+          <>
+            <div className="sensors-map">
+              <MapContainer
+                key={boundsKey || 'default'}
+                {...(bounds
+                  ? { bounds, boundsOptions: { padding: [40, 40], maxZoom: 16 } }
+                  : { center: getActiveProfile().defaultCenter, zoom: getActiveProfile().defaultZoom })}
+                style={{ height: '100%', width: '100%' }}
+              >
+                <TileLayer
+                  attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+                  url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+                />
+                {pins.map(pin => {
+                  const recent = now - pin.events[0].time < RECENT_DETECTION_MS;
+                  return (
+                    <CircleMarker
+                      key={pin.nodeId}
+                      center={pin.position}
+                      radius={recent ? 12 : 8}
+                      pathOptions={{
+                        color: '#ffffff',
+                        weight: 2,
+                        fillColor: recent ? '#ef4444' : '#6b7280',
+                        fillOpacity: 0.9,
+                      }}
+                    >
+                      <Popup>
+                        <div className="sensors-popup">
+                          <h4>{getNodeName(pin.nodeId)}</h4>
+                          <div>{pin.events.length} event{pin.events.length === 1 ? '' : 's'}</div>
+                          <div>Last: {pin.events[0].text} ({formatAgo(pin.events[0].time, now)})</div>
+                          <button className="node-link" onClick={() => onNodeClick(formatNodeId(pin.nodeId))}>
+                            View node →
+                          </button>
+                        </div>
+                      </Popup>
+                    </CircleMarker>
+                  );
+                })}
+              </MapContainer>
+            </div>
+
+            <div className="packets-table-container">
+              <table className="packets-table">
+                <thead>
+                  <tr>
+                    <th>Time</th>
+                    <th>Sensor</th>
+                    <th>Event</th>
+                    <th>Channel</th>
+                    <th>Packet</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {detections.events.slice(0, MAX_LOGGED_EVENTS).map(event => (
+                    <tr key={event.packetId} className={now - event.time < RECENT_DETECTION_MS ? 'sensors-event-recent' : ''}>
+                      <td>{new Date(event.time).toLocaleString()}</td>
+                      <td>
+                        <button className="node-link" onClick={() => onNodeClick(formatNodeId(event.nodeId))}>
+                          {getNodeName(event.nodeId)}
+                        </button>
+                      </td>
+                      <td>{event.text}</td>
+                      <td>{event.channel}</td>
+                      <td>
+                        <button className="packet-id-link" onClick={() => onPacketClick(event.packetId)}>
+                          {event.packetId}
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </section>
+    </div>
+  );
+}
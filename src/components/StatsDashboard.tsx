@@ -1,8 +1,9 @@
 import { useState, useEffect } from 'react';
 import type { Stats, TopGateway, Node } from '../types';
 import { getPortNumName } from '../utils/portNames';
-import { api } from '../api';
+import { api, isAbortError } from '../api';
 import { LoadingState, ErrorState } from './ui';
+import { RoutingHealth } from './RoutingHealth';
 import type { NodeLookup } from '../utils/nodeLookup';
 
 interface StatsDashboardProps {
@@ -37,6 +38,7 @@ export function StatsDashboard({ stats: initialStats, loading: initialLoading, g
   }, [initialStats, globalChannel]);
 
   useEffect(() => {
+    const controller = new AbortController();
     const fetchFilteredStats = async () => {
       if (!globalChannel && !globalDaysActive) {
         setStats(initialStats);
@@ -50,20 +52,25 @@ export function StatsDashboard({ stats: initialStats, loading: initialLoading, g
         if (globalChannel) params.channel = globalChannel;
         if (globalDaysActive) params.days_active = globalDaysActive;
         
-        const filteredStats = await api.getStats(params);
+        const filteredStats = await api.getStats(params, { signal: controller.signal });
         setStats(filteredStats);
       } catch (err) {
+        if (isAbortError(err)) return;
         console.error('Error fetching filtered stats:', err);
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
       }
     };
 
     fetchFilteredStats();
+    return () => controller.abort();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [globalChannel, globalDaysActive]);
 
   useEffect(() => {
+    const controller = new AbortController();
     const fetchTopGateways = async () => {
       try {
         setGatewaysLoading(true);
@@ -81,9 +88,9 @@ export function StatsDashboard({ stats: initialStats, loading: initialLoading, g
         
         // Fetch all packets, direct-only gateways, and top relays
         const [allPacketsData, directOnlyData, relaysData] = await Promise.all([
-          api.getTopGateways(baseParams),
-          api.getTopGateways({ ...baseParams, direct_only: true }),
-          api.getTopRelays({ ...baseParams, limit: 10 })
+          api.getTopGateways(baseParams, { signal: controller.signal }),
+          api.getTopGateways({ ...baseParams, direct_only: true }, { signal: controller.signal }),
+          api.getTopRelays({ ...baseParams, limit: 10 }, { signal: controller.signal })
         ]);
         
         setTopGateways(allPacketsData.gateways);
@@ -130,16 +137,20 @@ export function StatsDashboard({ stats: initialStats, loading: initialLoading, g
           setTopRelays([]);
         }
       } catch (err) {
+        if (isAbortError(err)) return;
         console.error('Error fetching top gateways and relays:', err);
         setTopGateways([]);
         setTopDirectGateways([]);
         setTopRelays([]);
       } finally {
-        setGatewaysLoading(false);
+        if (!controller.signal.aborted) {
+          setGatewaysLoading(false);
+        }
       }
     };
 
     fetchTopGateways();
+    return () => controller.abort();
   }, [globalChannel, globalDaysActive, nodeLookup]);
 
   // Show initial loading state from parent
@@ -371,6 +382,13 @@ export function StatsDashboard({ stats: initialStats, loading: initialLoading, g
           )}
         </div>
       </div>
+
+      <RoutingHealth
+        channel={globalChannel ?? ''}
+        daysActive={globalDaysActive ?? 0}
+        nodeLookup={nodeLookup}
+        onNodeClick={onNodeClick}
+      />
     </div>
   );
 }
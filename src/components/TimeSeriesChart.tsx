@@ -0,0 +1,193 @@
+import { useState, useRef, useEffect, useMemo } from 'react';
+import type { MouseEvent } from 'react';
+
+export interface TimeSeriesPoint {
+  time: number; // ms since epoch
+  value: number;
+  packetId: number;
+}
+
+interface TimeSeriesChartProps {
+  title: string;
+  points: TimeSeriesPoint[]; // oldest first
+  domain: [number, number];  // visible time range, shared between charts
+  formatValue: (value: number) => string;
+  onZoom: (domain: [number, number]) => void;
+  onPointClick: (packetId: number) => void;
+  color?: string;
+}
+
+const HEIGHT = 160;
+const MARGIN = { top: 10, right: 12, bottom: 22, left: 64 };
+const Y_TICKS = 4;
+const X_TICKS = 5;
+// Drags shorter than this are clicks
+const MIN_ZOOM_DRAG = 6;
+// Above this many visible points the dots are left out and only the line drawn
+const MAX_DOTS = 150;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatTimeTick(time: number, span: number): string {
+  const date = new Date(time);
+  return span <= 2 * DAY_MS
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
+
+// Index of the point closest in time (points sorted by time)
+function nearestIndex(points: TimeSeriesPoint[], time: number): number {
+  let lo = 0;
+  let hi = points.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (points[mid].time < time) lo = mid + 1;
+    else hi = mid;
+  }
+  if (lo > 0 && Math.abs(points[lo - 1].time - time) <= Math.abs(points[lo].time - time)) return lo - 1;
+  return lo;
+}
+
+// Line chart of one metric over time. Hovering shows the nearest reading,
+// clicking it opens its packet, and dragging across the plot zooms in.
+export function TimeSeriesChart({ title, points, domain, formatValue, onZoom, onPointClick, color = '#0366d6' }: TimeSeriesChartProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(600);
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const [drag, setDrag] = useState<{ from: number; to: number } | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(entries => {
+      setWidth(Math.max(240, Math.floor(entries[0].contentRect.width)));
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const [start, end] = domain;
+  const span = Math.max(1, end - start);
+  const plotWidth = width - MARGIN.left - MARGIN.right;
+  const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+
+  const visible = useMemo(() => points.filter(p => p.time >= start && p.time <= end), [points, start, end]);
+
+  const [yMin, yMax] = useMemo(() => {
+    if (visible.length === 0) return [0, 1];
+    let min = Infinity;
+    let max = -Infinity;
+    visible.forEach(p => {
+      min = Math.min(min, p.value);
+      max = Math.max(max, p.value);
+    });
+    if (min === max) return [min - 1, max + 1];
+    const padding = (max - min) * 0.1;
+    return [min - padding, max + padding];
+  }, [visible]);
+
+  const x = (time: number) => MARGIN.left + ((time - start) / span) * plotWidth;
+  const y = (value: number) => MARGIN.top + (1 - (value - yMin) / (yMax - yMin)) * plotHeight;
+  const timeAt = (px: number) => start + ((px - MARGIN.left) / plotWidth) * span;
+
+  const path = visible
+    .map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.time).toFixed(1)},${y(p.value).toFixed(1)}`)
+    .join(' ');
+
+  const plotX = (event: MouseEvent<SVGSVGElement>): number => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return Math.max(MARGIN.left, Math.min(MARGIN.left + plotWidth, event.clientX - rect.left));
+  };
+
+  const handleMouseMove = (event: MouseEvent<SVGSVGElement>) => {
+    const px = plotX(event);
+    if (drag) setDrag({ ...drag, to: px });
+    setHoverIndex(visible.length > 0 ? nearestIndex(visible, timeAt(px)) : null);
+  };
+
+  const handleMouseUp = () => {
+    if (drag && Math.abs(drag.to - drag.from) >= MIN_ZOOM_DRAG) {
+      onZoom([timeAt(Math.min(drag.from, drag.to)), timeAt(Math.max(drag.from, drag.to))]);
+    } else if (hoverIndex !== null && visible[hoverIndex]) {
+      onPointClick(visible[hoverIndex].packetId);
+    }
+    setDrag(null);
+  };
+
+  const hovered = hoverIndex !== null ? visible[hoverIndex] : undefined;
+  const latest = points[points.length - 1];
+
+  return (
+    <div className="timeseries-chart">
+      <div className="timeseries-header">
+        <h4>{title}</h4>
+        {latest && <span className="timeseries-latest">{formatValue(latest.value)}</span>}
+      </div>
+      <div className="timeseries-plot" ref={containerRef}>
+        <svg
+          width={width}
+          height={HEIGHT}
+          onMouseDown={(e) => { const px = plotX(e); setDrag({ from: px, to: px }); }}
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleMouseUp}
+          onMouseLeave={() => { setHoverIndex(null); setDrag(null); }}
+          role="img"
+          aria-label={`${title} over time`}
+        >
+          {Array.from({ length: Y_TICKS + 1 }, (_, i) => {
+            const value = yMin + ((yMax - yMin) * i) / Y_TICKS;
+            return (
+              <g key={`y${i}`} className="timeseries-grid">
+                <line x1={MARGIN.left} x2={MARGIN.left + plotWidth} y1={y(value)} y2={y(value)} />
+                <text x={MARGIN.left - 6} y={y(value)} textAnchor="end" dominantBaseline="middle">{formatValue(value)}</text>
+              </g>
+            );
+          })}
+          {Array.from({ length: X_TICKS }, (_, i) => {
+            const time = start + (span * (i + 0.5)) / X_TICKS;
+            return (
+              <text key={`x${i}`} className="timeseries-axis" x={x(time)} y={HEIGHT - 6} textAnchor="middle">
+                {formatTimeTick(time, span)}
+              </text>
+            );
+          })}
+
+          <path d={path} fill="none" stroke={color} strokeWidth={1.5} />
+          {visible.length <= MAX_DOTS && visible.map(p => (
+            <circle key={p.packetId} cx={x(p.time)} cy={y(p.value)} r={2.5} fill={color} />
+          ))}
+
+          {hovered && !drag && (
+            <g className="timeseries-hover">
+              <line x1={x(hovered.time)} x2={x(hovered.time)} y1={MARGIN.top} y2={MARGIN.top + plotHeight} />
+              <circle cx={x(hovered.time)} cy={y(hovered.value)} r={4.5} fill={color} />
+            </g>
+          )}
+          {drag && (
+            <rect
+              className="timeseries-selection"
+              x={Math.min(drag.from, drag.to)}
+              y={MARGIN.top}
+              width={Math.abs(drag.to - drag.from)}
+              height={plotHeight}
+            />
+          )}
+          {visible.length === 0 && (
+            <text className="timeseries-axis" x={MARGIN.left + plotWidth / 2} y={MARGIN.top + plotHeight / 2} textAnchor="middle">
+              No readings in this range
+            </text>
+          )}
+        </svg>
+        {hovered && !drag && (
+          <div
+            className="timeseries-tooltip"
+            style={{ left: x(hovered.time), transform: x(hovered.time) > width / 2 ? 'translateX(-100%)' : undefined }}
+          >
+            <strong>{formatValue(hovered.value)}</strong>
+            <span>{new Date(hovered.time).toLocaleString()}</span>
+            <span className="timeseries-tooltip-hint">Click to open packet {hovered.packetId}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,9 +4,10 @@ interface ToastProps {
   message: string;
   onClose: () => void;
   duration?: number;
+  variant?: 'info' | 'alert';
 }
 
-export function Toast({ message, onClose, duration = 5000 }: ToastProps) {
+export function Toast({ message, onClose, duration = 5000, variant = 'info' }: ToastProps) {
   useEffect(() => {
     const timer = setTimeout(() => {
       onClose();
@@ -16,9 +17,9 @@ export function Toast({ message, onClose, duration = 5000 }: ToastProps) {
   }, [onClose, duration]);
 
   return (
-    <div className="toast">
+    <div className={`toast toast-${variant}`}>
       <div className="toast-content">
-        <span className="toast-icon">ℹ️</span>
+        <span className="toast-icon">{variant === 'alert' ? '⚠️' : 'ℹ️'}</span>
         <span className="toast-message">{message}</span>
         <button className="toast-close" onClick={onClose} aria-label="Close notification">×</button>
       </div>
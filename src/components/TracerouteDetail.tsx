@@ -1,7 +1,9 @@
 import { useState, useEffect, useRef, useMemo } from 'react';
-import { api } from '../api';
+import { api, isAbortError } from '../api';
 import { formatNodeId, formatLocalDateTime, getNodeDisplayName } from '../utils/portNames';
 import type { NodeLookup } from '../utils/nodeLookup';
+import type { TracerouteRecord, TracerouteResponse } from '../types';
+import { resolveTraceroute, formatSnr } from '../utils/tracerouteParser';
 import { ErrorState, BackButton, InfoItem } from './ui';
 
 interface TracerouteDetailProps {
@@ -11,25 +13,6 @@ interface TracerouteDetailProps {
   onNodeClick: (nodeId: string) => void;
 }
 
-interface TraceroutePacket {
-  id: number;
-  packet_id: number;
-  gateway_node_id: number;
-  done: boolean;
-  import_time: string;
-  route: {
-    type: string;
-    route: number[];
-    raw_hex?: string;
-  };
-  route_hex: string;
-}
-
-interface TracerouteData {
-  packet_id: number;
-  traceroutes: TraceroutePacket[];
-}
-
 interface GraphNode {
   id: number;
   name: string;
@@ -46,34 +29,39 @@ interface GraphEdge {
 }
 
 export function TracerouteDetail({ packetId, nodeLookup, onBack, onNodeClick }: TracerouteDetailProps) {
-  const [data, setData] = useState<TracerouteData | null>(null);
+  const [data, setData] = useState<TracerouteResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [sourceNode, setSourceNode] = useState<number | null>(null);
   const [destNode, setDestNode] = useState<number | null>(null);
 
   useEffect(() => {
+    const controller = new AbortController();
     const fetchTracerouteData = async () => {
       try {
         setLoading(true);
         setError(null);
-        const result = await api.getTracerouteDetail(packetId);
+        const result = await api.getTracerouteDetail(packetId, { signal: controller.signal });
         
         setData(result);
 
         // Get source and dest from the original packet
-        const packetDetail = await api.getPacketDetail(packetId, { decode_payload: true });
+        const packetDetail = await api.getPacketDetail(packetId, { decode_payload: true }, { signal: controller.signal });
         setSourceNode(packetDetail.from_node_id);
         setDestNode(packetDetail.to_node_id);
       } catch (err) {
+        if (isAbortError(err)) return;
         setError(err instanceof Error ? err.message : 'Failed to fetch traceroute data');
         console.error('Error fetching traceroute data:', err);
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
       }
     };
 
     fetchTracerouteData();
+    return () => controller.abort();
   }, [packetId]);
 
   const getNodeName = (nodeId: number): string => {
@@ -85,7 +73,7 @@ export function TracerouteDetail({ packetId, nodeLookup, onBack, onNodeClick }:
     if (!data) return [];
 
     const routeMap = new Map<string, {
-      route: TraceroutePacket;
+      route: TracerouteRecord;
       gateways: number[];
       count: number;
       completed: boolean;
@@ -497,6 +485,13 @@ export function TracerouteDetail({ packetId, nodeLookup, onBack, onNodeClick }:
               {completedRoutes.map((routeGroup, idx) => {
                 const tr = routeGroup.route;
                 const hasHops = tr.route?.route && tr.route.route.length > 0;
+                // The server may only decode the route; SNR and the return path come from route_hex
+                const discovery = resolveTraceroute(tr.route, tr.route_hex);
+                const snrTowards = discovery?.snr_towards;
+                const renderSnr = (raw: number | undefined) => {
+                  const snr = formatSnr(raw);
+                  return snr && <span className="route-snr">{snr}</span>;
+                };
                 return (
                   <div key={`${tr.id}-${idx}`} className="route-item route-completed">
                     <div className="route-header">
@@ -538,8 +533,9 @@ export function TracerouteDetail({ packetId, nodeLookup, onBack, onNodeClick }:
                       {hasHops ? (
                         <>
                           {tr.route.route.map((nodeId, hopIdx) => (
-                            <span key={hopIdx}>
+                            <span key={hopIdx} className="route-step">
                               <span className="route-arrow">→</span>
+                              {renderSnr(snrTowards?.[hopIdx])}
                               <button
                                 className="route-node route-hop"
                                 onClick={() => onNodeClick(formatNodeId(nodeId))}
@@ -550,17 +546,50 @@ export function TracerouteDetail({ packetId, nodeLookup, onBack, onNodeClick }:
                           ))}
                         </>
                       ) : (
-                        <span className="route-arrow">→</span>
+                        <>
+                          <span className="route-arrow">→</span>
+                          {renderSnr(snrTowards?.[0])}
+                        </>
                       )}
                       {destNode && (
                         <>
-                          {hasHops && <span className="route-arrow">→</span>}
+                          {hasHops && (
+                            <>
+                              <span className="route-arrow">→</span>
+                              {renderSnr(snrTowards?.[tr.route.route.length])}
+                            </>
+                          )}
                           <span className="route-node route-dest">
                             {getNodeName(destNode)}
                           </span>
                         </>
                       )}
                     </div>
+                    {discovery?.route_back && sourceNode && destNode && (
+                      <div className="route-path route-return" title="Return path">
+                        <span className="route-node route-dest">
+                          {getNodeName(destNode)}
+                        </span>
+                        {[...discovery.route_back, sourceNode].map((nodeId, hopIdx, path) => (
+                          <span key={hopIdx} className="route-step">
+                            <span className="route-arrow">→</span>
+                            {renderSnr(discovery.snr_back?.[hopIdx])}
+                            {hopIdx === path.length - 1 ? (
+                              <span className="route-node route-source">
+                                {getNodeName(nodeId)}
+                              </span>
+                            ) : (
+                              <button
+                                className="route-node route-hop"
+                                onClick={() => onNodeClick(formatNodeId(nodeId))}
+                              >
+                                {getNodeName(nodeId)}
+                              </button>
+                            )}
+                          </span>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 );
               })}
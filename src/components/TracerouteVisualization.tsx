@@ -1,10 +1,14 @@
 import { useMemo } from 'react';
 import { formatNodeId, getNodeDisplayName } from '../utils/portNames';
 import type { NodeLookup } from '../utils/nodeLookup';
+import { formatSnr } from '../utils/tracerouteParser';
 
 interface TracerouteVisualizationProps {
   packetId: number;
   route: number[]; // Array of node IDs in the route
+  snrTowards?: number[]; // Raw SNR (dB * 4) received at each hop of the route
+  routeBack?: number[]; // Return path hops, only present on traceroute replies
+  snrBack?: number[];
   fromNodeId: number;
   toNodeId: number;
   isDone: boolean; // Whether the traceroute reached its destination
@@ -14,6 +18,9 @@ interface TracerouteVisualizationProps {
 
 export function TracerouteVisualization({ 
   route, 
+  snrTowards,
+  routeBack,
+  snrBack,
   fromNodeId, 
   toNodeId,
   isDone,
@@ -57,6 +64,7 @@ export function TracerouteVisualization({
             {nodes.slice(0, -1).map((_, idx) => {
               const x1 = startX + idx * nodeSpacing;
               const x2 = startX + (idx + 1) * nodeSpacing;
+              const snr = formatSnr(snrTowards?.[idx]);
               return (
                 <g key={`edge-${idx}`}>
                   <line
@@ -77,6 +85,17 @@ export function TracerouteVisualization({
                   >
                     hop {idx + 1}
                   </text>
+                  {snr && (
+                    <text
+                      x={(x1 + x2) / 2}
+                      y={centerY + 20}
+                      textAnchor="middle"
+                      fontSize="11"
+                      fill="var(--text-secondary)"
+                    >
+                      {snr}
+                    </text>
+                  )}
                 </g>
               );
             })}
@@ -170,6 +189,35 @@ export function TracerouteVisualization({
           </g>
         </svg>
       </div>
+
+      {routeBack && (
+        <div className="traceroute-return-path">
+          <h4>Return Path ({routeBack.length + 1} hops)</h4>
+          <div className="route-path">
+            {[toNodeId, ...routeBack, fromNodeId].map((nodeId, idx, path) => {
+              const isFirst = idx === 0;
+              const isLast = idx === path.length - 1;
+              const snr = formatSnr(snrBack?.[idx - 1]);
+              return (
+                <span key={`${nodeId}-${idx}`} className="route-step">
+                  {!isFirst && (
+                    <>
+                      <span className="route-arrow">→</span>
+                      {snr && <span className="route-snr">{snr}</span>}
+                    </>
+                  )}
+                  <button
+                    className={`route-node ${isFirst ? 'route-dest' : isLast ? 'route-source' : 'route-hop'}`}
+                    onClick={() => onNodeClick(formatNodeId(nodeId))}
+                  >
+                    {getNodeName(nodeId)}
+                  </button>
+                </span>
+              );
+            })}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
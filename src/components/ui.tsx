@@ -1,5 +1,6 @@
 // Reusable UI components for better maintainability
 
+import { useEffect, useRef } from 'react';
 import type { ReactNode } from 'react';
 
 interface LoadingStateProps {
@@ -84,4 +85,40 @@ export function InfoItem({ label, value, className = 'info-item' }: InfoItemProp
       <span className="info-value">{value}</span>
     </div>
   );
-}
\ No newline at end of file
+}
+
+interface LoadMoreProps {
+  onLoadMore: () => void;
+  hasMore: boolean;
+  loading: boolean;
+  className?: string;
+}
+
+// Footer for paged lists: loads the next page when scrolled into view, with a
+// button as a fallback
+export function LoadMore({ onLoadMore, hasMore, loading, className = 'load-more' }: LoadMoreProps) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || loading) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        onLoadMore();
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [onLoadMore, hasMore, loading]);
+
+  if (!hasMore) return null;
+
+  return (
+    <div className={className} ref={sentinelRef}>
+      <button className="btn-secondary" onClick={onLoadMore} disabled={loading}>
+        {loading ? 'Loading...' : 'Load more'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { useState, useEffect, useSyncExternalStore } from 'react';
+import { getChannelKeys, onChannelKeysChange } from '../utils/channelKeys';
+import { decryptPacket, isEncryptedPacket } from '../utils/channelCrypto';
+import type { DecryptedPacket, EncryptedPacket } from '../utils/channelCrypto';
+
+// Decrypt whichever of the given packets the stored channel keys can open.
+// Returns a map from packet id to the decrypted contents; packets that aren't
+// encrypted, or that no key fits, are absent.
+export function useDecryptedPackets(packets: EncryptedPacket[]): Map<number, DecryptedPacket> {
+  const keys = useSyncExternalStore(onChannelKeysChange, getChannelKeys);
+  const [decrypted, setDecrypted] = useState<Map<number, DecryptedPacket>>(new Map());
+
+  useEffect(() => {
+    const encrypted = packets.filter(isEncryptedPacket);
+    if (keys.length === 0 || encrypted.length === 0) {
+      setDecrypted(prev => prev.size === 0 ? prev : new Map());
+      return;
+    }
+
+    let cancelled = false;
+    Promise.all(encrypted.map(packet => decryptPacket(packet, keys))).then(results => {
+      if (cancelled) return;
+      const next = new Map<number, DecryptedPacket>();
+      results.forEach((result, idx) => {
+        if (result) next.set(encrypted[idx].id, result);
+      });
+      setDecrypted(next);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [packets, keys]);
+
+  return decrypted;
+}
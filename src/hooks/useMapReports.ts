@@ -0,0 +1,68 @@
+import { useState, useEffect } from 'react';
+import { isAbortError } from '../api';
+import { meshSocket } from '../websocket';
+import { resolvePortPayload } from '../ports';
+import { MAP_REPORT_PORTNUM } from '../utils/constants';
+import { latestMapReports, readMapReport, sameMapReport } from '../utils/mapReports';
+import type { NodeMapReport } from '../utils/mapReports';
+import { fetchPacketPages, packetTime } from './usePaginatedPackets';
+import type { Packet } from '../types';
+
+// Nodes report at most hourly, so a couple of days covers every active one
+const MAP_REPORT_DAYS = 2;
+const MAX_MAP_REPORT_PACKETS = 3000;
+
+function toMapReport(packet: Packet): NodeMapReport | null {
+  const { payload } = resolvePortPayload(packet.portnum, packet.payload, packet.payload_hex);
+  const time = Date.parse(packetTime(packet));
+  if (!payload || packet.from_node_id === undefined || Number.isNaN(time)) return null;
+  return { ...readMapReport(payload), nodeId: packet.from_node_id, packetId: packet.id, time };
+}
+
+// The latest map report of every node heard recently, on any channel, kept
+// up to date from the live stream
+export function useMapReports(): Map<number, NodeMapReport> {
+  const [reports, setReports] = useState<Map<number, NodeMapReport>>(() => new Map());
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const fetchReports = async () => {
+      try {
+        const { packets } = await fetchPacketPages({
+          portnum: MAP_REPORT_PORTNUM,
+          days_active: MAP_REPORT_DAYS,
+          decode_payload: true,
+        }, MAX_MAP_REPORT_PACKETS, { signal: controller.signal });
+        const fetched = packets
+          .map(toMapReport)
+          .filter((report): report is NodeMapReport => report !== null);
+
+        // Keep anything newer that streamed in while the pages loaded
+        setReports(prev => latestMapReports([...prev.values(), ...fetched]));
+      } catch (err) {
+        if (isAbortError(err)) return;
+        console.error('Error fetching map reports:', err);
+      }
+    };
+    fetchReports();
+
+    const unsubscribe = meshSocket.subscribe({ portnum: MAP_REPORT_PORTNUM }, (message) => {
+      if (message.type !== 'packet') return;
+      const report = toMapReport(message);
+      if (!report) return;
+      setReports(prev => {
+        const current = prev.get(report.nodeId);
+        if (current && (current.time >= report.time || sameMapReport(current, report))) return prev;
+        return new Map(prev).set(report.nodeId, report);
+      });
+    });
+
+    return () => {
+      controller.abort();
+      unsubscribe();
+    };
+  }, []);
+
+  return reports;
+}
@@ -0,0 +1,81 @@
+import { useState, useEffect } from 'react';
+import { isAbortError } from '../api';
+import { resolvePortPayload } from '../ports';
+import { TELEMETRY_PORTNUM } from '../utils/constants';
+import { telemetryReadings } from '../utils/telemetry';
+import type { TelemetryReadings } from '../utils/telemetry';
+import { fetchPacketPages, packetTime } from './usePaginatedPackets';
+import type { Packet } from '../types';
+
+export interface TelemetrySample extends TelemetryReadings {
+  packetId: number;
+  time: number; // ms since epoch, when the packet was imported
+}
+
+export interface NodeTelemetry {
+  samples: TelemetrySample[]; // oldest first
+  loading: boolean;
+  error: string | null;
+  truncated: boolean; // the range had more packets than we fetch
+}
+
+// A reading every few minutes for two weeks; older packets in the range are skipped
+const MAX_TELEMETRY_PACKETS = 5000;
+
+function toSample(packet: Packet): TelemetrySample | null {
+  const { payload } = resolvePortPayload(packet.portnum, packet.payload, packet.payload_hex);
+  const readings = telemetryReadings(payload);
+  const time = Date.parse(packetTime(packet));
+  if (!readings || Number.isNaN(time)) return null;
+  return { packetId: packet.id, time, ...readings };
+}
+
+// Fetch every telemetry packet a node sent in the last `daysActive` days.
+// Pass a null node ID to hold off loading.
+export function useNodeTelemetry(nodeId: string | null, nodeNumericId: number | undefined, daysActive: number): NodeTelemetry {
+  const [samples, setSamples] = useState<TelemetrySample[]>([]);
+  const [loading, setLoading] = useState(nodeId !== null);
+  const [error, setError] = useState<string | null>(null);
+  const [truncated, setTruncated] = useState(false);
+
+  useEffect(() => {
+    if (nodeId === null) return;
+    const controller = new AbortController();
+
+    const fetchTelemetry = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const { packets, truncated } = await fetchPacketPages({
+          node_id: nodeId,
+          portnum: TELEMETRY_PORTNUM,
+          days_active: daysActive > 0 ? daysActive : undefined,
+          decode_payload: true,
+        }, MAX_TELEMETRY_PACKETS, { signal: controller.signal });
+
+        // Only readings the node reported about itself, whichever direction node_id matches
+        const sent = packets.filter(packet => nodeNumericId === undefined || packet.from_node_id === nodeNumericId);
+        setSamples(
+          sent
+            .map(toSample)
+            .filter((sample): sample is TelemetrySample => sample !== null)
+            .sort((a, b) => a.time - b.time)
+        );
+        setTruncated(truncated);
+      } catch (err) {
+        if (isAbortError(err)) return;
+        setError(err instanceof Error ? err.message : 'Failed to fetch telemetry');
+        console.error('Error fetching telemetry:', err);
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchTelemetry();
+    return () => controller.abort();
+  }, [nodeId, nodeNumericId, daysActive]);
+
+  return { samples, loading, error, truncated };
+}
@@ -0,0 +1,146 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import { api, isAbortError } from '../api';
+import type { PacketQueryParams, RequestOptions } from '../api';
+import { DEFAULT_PACKET_LIMIT } from '../utils/constants';
+import type { Packet } from '../types';
+
+export interface PaginatedPackets {
+  packets: Packet[];
+  setPackets: Dispatch<SetStateAction<Packet[]>>;
+  loading: boolean;
+  loadingMore: boolean;
+  error: string | null;
+  hasMore: boolean;
+  loadMore: () => void;
+}
+
+export function packetTime(packet: { import_time?: string; timestamp?: string }): string {
+  return packet.import_time || packet.timestamp || '';
+}
+
+// A `before` cursor for the page after these packets. The server compares
+// strictly, and packets sharing the oldest timestamp may not have fit in the
+// page, so the cursor sits just past it; the repeats it brings back are
+// dropped by id.
+export function pageCursor(packets: Packet[]): string {
+  const oldest = packetTime(packets.reduce((a, b) => (packetTime(a) <= packetTime(b) ? a : b)));
+  const time = Date.parse(oldest);
+  return Number.isNaN(time) ? oldest : new Date(time + 1).toISOString();
+}
+
+export interface PacketPages {
+  packets: Packet[];
+  truncated: boolean; // stopped at maxPackets before the range ran out
+}
+
+// Every packet matching a query, paging back from the newest with a `before`
+// cursor until the range runs out or `maxPackets` are loaded
+export async function fetchPacketPages(
+  params: PacketQueryParams,
+  maxPackets: number,
+  options?: RequestOptions
+): Promise<PacketPages> {
+  const pageSize = params.limit ?? DEFAULT_PACKET_LIMIT;
+  const packets = new Map<number, Packet>();
+  let before = params.before;
+
+  while (packets.size < maxPackets) {
+    const data = await api.getPackets({ ...params, limit: pageSize, before }, options);
+    const page = data.packets || [];
+    const loadedBefore = packets.size;
+    page.forEach(packet => packets.set(packet.id, packet));
+    // A page of nothing but repeats can't move the cursor any further
+    if (page.length < pageSize || packets.size === loadedBefore) break;
+    before = pageCursor(page);
+  }
+
+  return { packets: Array.from(packets.values()), truncated: packets.size >= maxPackets };
+}
+
+// Load packets a page at a time, newest first. Each further page is requested
+// with a `before` cursor at the oldest packet loaded so far. Pass null to
+// hold off loading (e.g. until a tab is opened).
+export function usePaginatedPackets(query: PacketQueryParams | null, pageSize: number): PaginatedPackets {
+  const [packets, setPackets] = useState<Packet[]>([]);
+  const [loading, setLoading] = useState(query !== null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+  const loadingMoreRef = useRef(false);
+
+  // Query objects are usually rebuilt every render; key on their contents
+  const queryKey = query ? JSON.stringify(query) : null;
+
+  useEffect(() => {
+    if (queryKey === null) return;
+    const params: PacketQueryParams = JSON.parse(queryKey);
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    loadingMoreRef.current = false;
+
+    const fetchFirstPage = async () => {
+      try {
+        setLoading(true);
+        setLoadingMore(false);
+        setError(null);
+        const data = await api.getPackets({ ...params, limit: pageSize }, { signal: controller.signal });
+        const page = data.packets || [];
+        setPackets(page);
+        setHasMore(page.length === pageSize);
+      } catch (err) {
+        if (isAbortError(err)) return;
+        setError(err instanceof Error ? err.message : 'Failed to fetch packets');
+        console.error('Error fetching packets:', err);
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchFirstPage();
+    return () => controller.abort();
+  }, [queryKey, pageSize]);
+
+  const loadMore = useCallback(() => {
+    const controller = controllerRef.current;
+    if (queryKey === null || !controller || loadingMoreRef.current || !hasMore || packets.length === 0) return;
+
+    // The oldest loaded packet is the cursor, whatever order the caller displays
+    const params: PacketQueryParams = { ...JSON.parse(queryKey), limit: pageSize, before: pageCursor(packets) };
+
+    const fetchNextPage = async () => {
+      try {
+        loadingMoreRef.current = true;
+        setLoadingMore(true);
+        const data = await api.getPackets(params, { signal: controller.signal });
+        const page = data.packets || [];
+        const seen = new Set(packets.map(p => p.id));
+        const fresh = page.filter(p => !seen.has(p.id));
+        setPackets(prev => {
+          const loaded = new Set(prev.map(p => p.id));
+          return [...prev, ...fresh.filter(p => !loaded.has(p.id))];
+        });
+        // A full page of repeats means more packets share one instant than fit
+        // in a page; the cursor can't get past them
+        setHasMore(page.length === pageSize && fresh.length > 0);
+      } catch (err) {
+        if (isAbortError(err)) return;
+        setError(err instanceof Error ? err.message : 'Failed to fetch more packets');
+        console.error('Error fetching more packets:', err);
+      } finally {
+        if (!controller.signal.aborted) {
+          loadingMoreRef.current = false;
+          setLoadingMore(false);
+        }
+      }
+    };
+
+    fetchNextPage();
+  }, [queryKey, pageSize, hasMore, packets]);
+
+  return { packets, setPackets, loading, loadingMore, error, hasMore, loadMore };
+}
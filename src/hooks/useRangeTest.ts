@@ -0,0 +1,200 @@
+import { useState, useEffect, useMemo } from 'react';
+import { api, isAbortError } from '../api';
+import { resolvePortPayload } from '../ports';
+import { numberField } from '../ports/fields';
+import { COORDINATE_SCALE_FACTOR, POSITION_PORTNUM, RANGE_TEST_PORTNUM } from '../utils/constants';
+import { nodePosition } from '../utils/geo';
+import { formatNodeId } from '../utils/portNames';
+import { groupRangeTestSessions, parseRangeTestSeq, withDistances } from '../utils/rangeTest';
+import type { RangeTestListing, RangeTestPacket, RangeTestSession } from '../utils/rangeTest';
+import type { NodeLookup } from '../utils/nodeLookup';
+import { fetchPacketPages, packetTime } from './usePaginatedPackets';
+import type { Packet, PacketDetailResponse } from '../types';
+
+// Most range test packets listed for a time range
+const MAX_RANGE_TEST_PACKETS = 2000;
+// Most packets per session whose receptions are loaded, newest first
+const MAX_DETAIL_PACKETS = 200;
+// Packet detail requests in flight at once
+const DETAIL_CONCURRENCY = 4;
+// A position report this close in time says where the sender was
+const POSITION_MATCH_MS = 10 * 60 * 1000;
+// Most sender position reports loaded for a session
+const MAX_POSITION_PACKETS = 2000;
+
+interface SenderPosition {
+  time: number;
+  position: [number, number];
+}
+
+function toListing(packet: Packet): RangeTestListing | null {
+  const time = Date.parse(packetTime(packet));
+  if (packet.from_node_id === undefined || Number.isNaN(time)) return null;
+  const { payload } = resolvePortPayload(packet.portnum, packet.payload, packet.payload_hex);
+  const text = typeof payload?.text === 'string' ? payload.text : undefined;
+  return { packetId: packet.id, senderId: packet.from_node_id, seq: parseRangeTestSeq(text), time };
+}
+
+function toSenderPosition(packet: Packet): SenderPosition | null {
+  const { payload } = resolvePortPayload(packet.portnum, packet.payload, packet.payload_hex);
+  const latI = payload ? numberField(payload, 'latitude_i') : undefined;
+  const lngI = payload ? numberField(payload, 'longitude_i') : undefined;
+  const time = Date.parse(packetTime(packet));
+  // 0,0 is what nodes without a fix send
+  if (!latI || !lngI || Number.isNaN(time)) return null;
+  return { time, position: [latI / COORDINATE_SCALE_FACTOR, lngI / COORDINATE_SCALE_FACTOR] };
+}
+
+// Range test packets on a channel over the last `daysActive` days, grouped
+// into sessions per sender
+export function useRangeTestSessions(channel: string, daysActive: number) {
+  const [sessions, setSessions] = useState<RangeTestSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [truncated, setTruncated] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const fetchRangeTests = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const { packets, truncated } = await fetchPacketPages({
+          portnum: RANGE_TEST_PORTNUM,
+          channel: channel || undefined,
+          days_active: daysActive > 0 ? daysActive : undefined,
+          decode_payload: true,
+        }, MAX_RANGE_TEST_PACKETS, { signal: controller.signal });
+
+        const listings = packets
+          .map(toListing)
+          .filter((listing): listing is RangeTestListing => listing !== null);
+        setSessions(groupRangeTestSessions(listings));
+        setTruncated(truncated);
+      } catch (err) {
+        if (isAbortError(err)) return;
+        setError(err instanceof Error ? err.message : 'Failed to fetch range tests');
+        console.error('Error fetching range tests:', err);
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchRangeTests();
+    return () => controller.abort();
+  }, [channel, daysActive]);
+
+  return { sessions, loading, error, truncated };
+}
+
+// Receptions of a session's packets, with the sender's position at the time
+// of each and the distance to every gateway that heard it
+export function useRangeTestDetails(session: RangeTestSession | null, nodeLookup: NodeLookup | null) {
+  const [details, setDetails] = useState<PacketDetailResponse[]>([]);
+  const [positions, setPositions] = useState<SenderPosition[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDetails([]);
+    setPositions([]);
+    if (!session) return;
+    const controller = new AbortController();
+
+    const fetchDetails = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        // Only positions from around the session: a mobile sender's current
+        // position says nothing about where it was then
+        const positionData = await fetchPacketPages({
+          node_id: formatNodeId(session.senderId),
+          portnum: POSITION_PORTNUM,
+          since: new Date(session.start - POSITION_MATCH_MS).toISOString(),
+          before: new Date(session.end + POSITION_MATCH_MS).toISOString(),
+          decode_payload: true,
+        }, MAX_POSITION_PACKETS, { signal: controller.signal });
+        setPositions(positionData.packets
+          .filter(packet => packet.from_node_id === session.senderId)
+          .map(toSenderPosition)
+          .filter((position): position is SenderPosition => position !== null));
+
+        // A few requests at a time; each packet's gateways come from its detail
+        const queue = session.packets.slice(-MAX_DETAIL_PACKETS).map(packet => packet.packetId);
+        const loaded: PacketDetailResponse[] = [];
+        const worker = async () => {
+          for (let packetId = queue.shift(); packetId !== undefined; packetId = queue.shift()) {
+            loaded.push(await api.getPacketDetail(packetId, {
+              includeGateways: true,
+              gatewayLimit: 100,
+            }, { signal: controller.signal }));
+          }
+        };
+        await Promise.all(Array.from({ length: DETAIL_CONCURRENCY }, worker));
+        setDetails(loaded);
+      } catch (err) {
+        if (isAbortError(err)) return;
+        setError(err instanceof Error ? err.message : 'Failed to fetch range test packets');
+        console.error('Error fetching range test packets:', err);
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchDetails();
+    return () => controller.abort();
+  }, [session]);
+
+  const packets = useMemo((): RangeTestPacket[] => {
+    if (!session) return [];
+    const detailById = new Map(details.map(detail => [detail.id, detail]));
+    // Where the sender was: the nearest position report, if one is close
+    // enough in time; otherwise unknown, and so are its distances
+    const senderPositionAt = (time: number): [number, number] | null => {
+      let nearest: SenderPosition | null = null;
+      for (const position of positions) {
+        if (Math.abs(position.time - time) > POSITION_MATCH_MS) continue;
+        if (!nearest || Math.abs(position.time - time) < Math.abs(nearest.time - time)) nearest = position;
+      }
+      return nearest ? nearest.position : null;
+    };
+
+    return session.packets.flatMap(listing => {
+      const detail = detailById.get(listing.packetId);
+      if (!detail) return [];
+      const receptions = (detail.gateways || [])
+        // The sender hearing itself isn't range
+        .filter(gateway => gateway.node_id !== session.senderId)
+        .map(gateway => {
+          const gatewayNode = nodeLookup?.getNode(gateway.node_id);
+          const hopStart = gateway.hop_start ?? detail.hop_start;
+          const hopLimit = gateway.hop_limit ?? detail.hop_limit;
+          return {
+            gatewayId: gateway.node_id,
+            snr: gateway.rx_snr,
+            rssi: gateway.rx_rssi,
+            hops: hopStart !== undefined && hopLimit !== undefined ? hopStart - hopLimit : undefined,
+            gatewayPosition: gatewayNode ? nodePosition(gatewayNode) : null,
+            distance: null,
+          };
+        });
+      return [withDistances({
+        packetId: listing.packetId,
+        seq: listing.seq,
+        time: listing.time,
+        senderPosition: senderPositionAt(listing.time),
+        receptions,
+      })];
+    });
+  }, [session, details, positions, nodeLookup]);
+
+  // Only the newest packets of a long session are loaded
+  const truncated = session !== null && session.packets.length > MAX_DETAIL_PACKETS;
+  return { packets, loading, error, truncated };
+}
@@ -0,0 +1,77 @@
+import { useState, useEffect } from 'react';
+import { isAbortError } from '../api';
+import { resolvePortPayload } from '../ports';
+import { ROUTING_PORTNUM } from '../utils/constants';
+import { routingErrorReason } from '../utils/routing';
+import type { RoutingEvent } from '../utils/routing';
+import { fetchPacketPages, packetTime } from './usePaginatedPackets';
+import type { Packet } from '../types';
+
+// Most routing packets fetched for a time range, newest first
+const MAX_ROUTING_PACKETS = 3000;
+
+function toRoutingEvent(packet: Packet): RoutingEvent | null {
+  const { payload } = resolvePortPayload(packet.portnum, packet.payload, packet.payload_hex);
+  const reason = payload ? routingErrorReason(payload) : null;
+  const time = Date.parse(packetTime(packet));
+  if (reason === null || packet.from_node_id === undefined || packet.to_node_id === undefined || Number.isNaN(time)) {
+    return null;
+  }
+  return {
+    packetId: packet.id,
+    time,
+    fromNodeId: packet.from_node_id,
+    requesterId: packet.to_node_id,
+    channel: packet.channel,
+    reason,
+  };
+}
+
+// ACKs and NAKs on a channel (all channels when empty) over the last
+// `daysActive` days, oldest first. A node ID narrows the query to packets
+// to or from that node.
+export function useRoutingEvents(channel: string, daysActive: number, nodeId?: string) {
+  const [events, setEvents] = useState<RoutingEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [truncated, setTruncated] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const fetchRouting = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const { packets, truncated } = await fetchPacketPages({
+          node_id: nodeId,
+          portnum: ROUTING_PORTNUM,
+          channel: channel || undefined,
+          days_active: daysActive > 0 ? daysActive : undefined,
+          decode_payload: true,
+        }, MAX_ROUTING_PACKETS, { signal: controller.signal });
+
+        setEvents(
+          packets
+            .map(toRoutingEvent)
+            .filter((event): event is RoutingEvent => event !== null)
+            .sort((a, b) => a.time - b.time)
+        );
+        setTruncated(truncated);
+      } catch (err) {
+        if (isAbortError(err)) return;
+        setError(err instanceof Error ? err.message : 'Failed to fetch routing packets');
+        console.error('Error fetching routing packets:', err);
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchRouting();
+    return () => controller.abort();
+  }, [channel, daysActive, nodeId]);
+
+  return { events, loading, error, truncated };
+}
@@ -0,0 +1,118 @@
+import { useState, useEffect, useMemo } from 'react';
+import { isAbortError } from '../api';
+import { meshSocket } from '../websocket';
+import { resolvePortPayload } from '../ports';
+import { DETECTION_SENSOR_PORTNUM, PAXCOUNTER_PORTNUM } from '../utils/constants';
+import { readDetectionText, readPaxcount } from '../utils/sensors';
+import type { DetectionEvent, PaxcountSample } from '../utils/sensors';
+import { fetchPacketPages, packetTime } from './usePaginatedPackets';
+import type { Packet } from '../types';
+
+// Most packets fetched per port for a time range, newest first
+const MAX_SENSOR_PACKETS = 3000;
+
+// Packets on one port over the last `daysActive` days, with live packets
+// added as they arrive
+function useLivePortPackets(portnum: number, channel: string, daysActive: number) {
+  const [packets, setPackets] = useState<Packet[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [truncated, setTruncated] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const fetchPackets = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const fetched = await fetchPacketPages({
+          portnum,
+          channel: channel || undefined,
+          days_active: daysActive > 0 ? daysActive : undefined,
+          decode_payload: true,
+        }, MAX_SENSOR_PACKETS, { signal: controller.signal });
+
+        // Keep anything that streamed in while the pages loaded
+        const ids = new Set(fetched.packets.map(packet => packet.id));
+        setPackets(prev => [...prev.filter(packet => !ids.has(packet.id)), ...fetched.packets]);
+        setTruncated(fetched.truncated);
+      } catch (err) {
+        if (isAbortError(err)) return;
+        setError(err instanceof Error ? err.message : 'Failed to fetch sensor packets');
+        console.error('Error fetching sensor packets:', err);
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    setPackets([]);
+    fetchPackets();
+
+    const unsubscribe = meshSocket.subscribe(
+      { portnum, channel: channel || undefined },
+      (message) => {
+        if (message.type !== 'packet') return;
+        setPackets(prev => prev.some(packet => packet.id === message.id) ? prev : [...prev, message]);
+      }
+    );
+
+    return () => {
+      controller.abort();
+      unsubscribe();
+    };
+  }, [portnum, channel, daysActive]);
+
+  return { packets, loading, error, truncated };
+}
+
+function toPaxcountSample(packet: Packet): PaxcountSample | null {
+  const { payload } = resolvePortPayload(packet.portnum, packet.payload, packet.payload_hex);
+  const reading = payload ? readPaxcount(payload) : null;
+  const time = Date.parse(packetTime(packet));
+  if (!reading || packet.from_node_id === undefined || Number.isNaN(time)) return null;
+  return { ...reading, packetId: packet.id, nodeId: packet.from_node_id, time };
+}
+
+function toDetectionEvent(packet: Packet): DetectionEvent | null {
+  const { payload } = resolvePortPayload(packet.portnum, packet.payload, packet.payload_hex);
+  const text = payload ? readDetectionText(payload) : null;
+  const time = Date.parse(packetTime(packet));
+  if (text === null || packet.from_node_id === undefined || Number.isNaN(time)) return null;
+  return { packetId: packet.id, nodeId: packet.from_node_id, channel: packet.channel, text, time };
+}
+
+// Paxcount readings per counter node, oldest first, kept up to date live
+export function usePaxcounters(channel: string, daysActive: number) {
+  const { packets, loading, error, truncated } = useLivePortPackets(PAXCOUNTER_PORTNUM, channel, daysActive);
+
+  const counters = useMemo(() => {
+    const byNode = new Map<number, PaxcountSample[]>();
+    packets
+      .map(toPaxcountSample)
+      .filter((sample): sample is PaxcountSample => sample !== null)
+      .sort((a, b) => a.time - b.time)
+      .forEach(sample => {
+        const samples = byNode.get(sample.nodeId) ?? [];
+        samples.push(sample);
+        byNode.set(sample.nodeId, samples);
+      });
+    return byNode;
+  }, [packets]);
+
+  return { counters, loading, error, truncated };
+}
+
+// Detection sensor events, newest first, kept up to date live
+export function useDetectionEvents(channel: string, daysActive: number) {
+  const { packets, loading, error, truncated } = useLivePortPackets(DETECTION_SENSOR_PORTNUM, channel, daysActive);
+
+  const events = useMemo(() => packets
+    .map(toDetectionEvent)
+    .filter((event): event is DetectionEvent => event !== null)
+    .sort((a, b) => b.time - a.time), [packets]);
+
+  return { events, loading, error, truncated };
+}
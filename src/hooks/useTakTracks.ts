@@ -0,0 +1,71 @@
+import { useState, useEffect, useMemo } from 'react';
+import { api, isAbortError } from '../api';
+import { meshSocket } from '../websocket';
+import { resolvePortPayload } from '../ports';
+import { ATAK_PORTNUM, DEFAULT_PACKET_LIMIT } from '../utils/constants';
+import { readTakPli, takTracks } from '../utils/tak';
+import type { TakPosition, TakTrack } from '../utils/tak';
+import type { Packet } from '../types';
+
+// Positions kept per TAK user for the track behind their marker
+const TRACK_LENGTH = 10;
+
+function toTakPosition(packet: Packet): TakPosition | null {
+  const { payload } = resolvePortPayload(packet.portnum, packet.payload, packet.payload_hex);
+  const pli = payload ? readTakPli(payload) : null;
+  const time = Date.parse(packet.import_time || packet.timestamp || '');
+  if (!pli || packet.from_node_id === undefined || Number.isNaN(time)) return null;
+  return { ...pli, packetId: packet.id, nodeId: packet.from_node_id, time };
+}
+
+// TAK users seen on a channel over the last `daysActive` days, each with a
+// short track of recent positions, kept up to date from the live stream.
+// Nothing is fetched while disabled.
+export function useTakTracks(channel: string, daysActive: number, enabled: boolean): TakTrack[] {
+  const [positions, setPositions] = useState<TakPosition[]>([]);
+
+  useEffect(() => {
+    if (!enabled) {
+      setPositions([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const fetchPositions = async () => {
+      try {
+        const data = await api.getPackets({
+          portnum: ATAK_PORTNUM,
+          channel: channel || undefined,
+          days_active: daysActive > 0 ? daysActive : undefined,
+          decode_payload: true,
+          limit: DEFAULT_PACKET_LIMIT,
+        }, { signal: controller.signal });
+        const fetched = (data.packets || [])
+          .map(toTakPosition)
+          .filter((position): position is TakPosition => position !== null);
+        setPositions(prev => [...prev.filter(p => !fetched.some(f => f.packetId === p.packetId)), ...fetched]);
+      } catch (err) {
+        if (isAbortError(err)) return;
+        console.error('Error fetching TAK positions:', err);
+      }
+    };
+    fetchPositions();
+
+    const unsubscribe = meshSocket.subscribe(
+      { portnum: ATAK_PORTNUM, channel: channel || undefined },
+      (message) => {
+        if (message.type !== 'packet') return;
+        const position = toTakPosition(message);
+        if (!position) return;
+        setPositions(prev => prev.some(p => p.packetId === position.packetId) ? prev : [...prev, position]);
+      }
+    );
+
+    return () => {
+      controller.abort();
+      unsubscribe();
+    };
+  }, [channel, daysActive, enabled]);
+
+  return useMemo(() => takTracks(positions, TRACK_LENGTH), [positions]);
+}
@@ -0,0 +1,49 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import { meshSocket } from '../websocket';
+import { resolvePortPayload } from '../ports';
+import { TELEMETRY_PORTNUM } from '../utils/constants';
+import { checkTelemetry, describeThreshold, formatBreachValue, getAlertRules, onAlertsChange } from '../utils/alerts';
+import { telemetryReadings } from '../utils/telemetry';
+import { getNodeDisplayName } from '../utils/portNames';
+import type { NodeLookup } from '../utils/nodeLookup';
+
+// Check live telemetry against the alert rules while any exist. Each new
+// breach is passed to onAlert as a message and, for rules that ask for it,
+// shown as a browser notification.
+export function useTelemetryAlerts(nodeLookup: NodeLookup | null, onAlert: (message: string) => void) {
+  const rules = useSyncExternalStore(onAlertsChange, getAlertRules);
+  const hasRules = rules.length > 0;
+
+  // Read through refs so node list reloads don't resubscribe
+  const nodeLookupRef = useRef(nodeLookup);
+  const onAlertRef = useRef(onAlert);
+  useEffect(() => {
+    nodeLookupRef.current = nodeLookup;
+    onAlertRef.current = onAlert;
+  }, [nodeLookup, onAlert]);
+
+  useEffect(() => {
+    if (!hasRules) return;
+
+    return meshSocket.subscribe({ portnum: TELEMETRY_PORTNUM }, (message) => {
+      if (message.type !== 'packet' || message.from_node_id === undefined) return;
+      const { payload } = resolvePortPayload(message.portnum, message.payload, message.payload_hex);
+      const readings = telemetryReadings(payload);
+      if (!readings) return;
+
+      const lookup = nodeLookupRef.current;
+      const node = lookup?.getNode(message.from_node_id);
+      // Without the node's role only node and all-node rules can apply
+      const raised = checkTelemetry({ node_id: message.from_node_id, role: node?.role ?? '' }, message.id, readings);
+
+      raised.forEach(({ rule, breach }) => {
+        const text = `${getNodeDisplayName(breach.nodeId, lookup)}: ${formatBreachValue(breach)} (alert: ${describeThreshold(rule)})`;
+        onAlertRef.current(text);
+
+        if (rule.notify && 'Notification' in window && Notification.permission === 'granted') {
+          new Notification('Meshyview alert', { body: text, tag: `${rule.id}:${breach.nodeId}` });
+        }
+      });
+    });
+  }, [hasRules]);
+}
@@ -0,0 +1,68 @@
+import { useState, useEffect } from 'react';
+import { api, isAbortError } from '../api';
+import { meshSocket } from '../websocket';
+import { resolvePortPayload } from '../ports';
+import { WAYPOINT_PORTNUM, DEFAULT_PACKET_LIMIT } from '../utils/constants';
+import { readWaypoint, latestWaypoints } from '../utils/waypoints';
+import type { MeshWaypoint } from '../utils/waypoints';
+import type { Packet } from '../types';
+
+function toMeshWaypoint(packet: Packet): MeshWaypoint | null {
+  const { payload } = resolvePortPayload(packet.portnum, packet.payload, packet.payload_hex);
+  const waypoint = payload ? readWaypoint(payload) : null;
+  const time = Date.parse(packet.import_time || packet.timestamp || '');
+  if (!waypoint || Number.isNaN(time)) return null;
+  return { ...waypoint, packetId: packet.id, fromNodeId: packet.from_node_id, channel: packet.channel, time };
+}
+
+// Waypoints shared on a channel over the last `daysActive` days, kept up to
+// date from the live stream. Nothing is fetched while disabled.
+export function useWaypoints(channel: string, daysActive: number, enabled: boolean): MeshWaypoint[] {
+  const [waypoints, setWaypoints] = useState<MeshWaypoint[]>([]);
+
+  useEffect(() => {
+    if (!enabled) {
+      setWaypoints([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const fetchWaypoints = async () => {
+      try {
+        const data = await api.getPackets({
+          portnum: WAYPOINT_PORTNUM,
+          channel: channel || undefined,
+          days_active: daysActive > 0 ? daysActive : undefined,
+          decode_payload: true,
+          limit: DEFAULT_PACKET_LIMIT,
+        }, { signal: controller.signal });
+        const fetched = (data.packets || [])
+          .map(toMeshWaypoint)
+          .filter((waypoint): waypoint is MeshWaypoint => waypoint !== null);
+        setWaypoints(latestWaypoints(fetched));
+      } catch (err) {
+        if (isAbortError(err)) return;
+        console.error('Error fetching waypoints:', err);
+      }
+    };
+    fetchWaypoints();
+
+    const unsubscribe = meshSocket.subscribe(
+      { portnum: WAYPOINT_PORTNUM, channel: channel || undefined },
+      (message) => {
+        if (message.type !== 'packet') return;
+        const waypoint = toMeshWaypoint(message);
+        if (!waypoint) return;
+        // Re-run the merge so an edit replaces its waypoint and a delete removes it
+        setWaypoints(prev => latestWaypoints([...prev.filter(w => w.id !== waypoint.id), waypoint]));
+      }
+    );
+
+    return () => {
+      controller.abort();
+      unsubscribe();
+    };
+  }, [channel, daysActive, enabled]);
+
+  return waypoints;
+}
@@ -0,0 +1,19 @@
+import { ATAK_PORTNUM } from '../utils/constants';
+import { formatTakEnum, readTakChat, readTakPli } from '../utils/tak';
+import { TakCard } from './cards/TakCard';
+import type { PortHandler } from './types';
+
+export const atakPort: PortHandler = {
+  portnum: ATAK_PORTNUM,
+  summarize: payload => {
+    const pli = readTakPli(payload);
+    if (pli) {
+      const details = [formatTakEnum(pli.team), formatTakEnum(pli.role)].filter(Boolean).join(', ');
+      const who = pli.callsign ?? 'TAK user';
+      return details ? `PLI: ${who} (${details})` : `PLI: ${who}`;
+    }
+    const chat = readTakChat(payload);
+    return chat !== null ? `TAK chat: ${chat}` : null;
+  },
+  Card: TakCard,
+};
@@ -0,0 +1,20 @@
+import { NeighborInfoVisualization } from '../../components/NeighborInfoVisualization';
+import { readNeighbors } from '../fields';
+import type { PortCardProps } from '../types';
+
+export function NeighborInfoCard({ payload, packet, nodeLookup, onNodeClick }: PortCardProps) {
+  const neighbors = readNeighbors(payload);
+  if (neighbors.length === 0) return null;
+
+  return (
+    <div className="packet-neighbor-card">
+      <NeighborInfoVisualization
+        neighbors={neighbors}
+        sourceNodeId={packet.from_node_id}
+        nodeLookup={nodeLookup}
+        onNodeClick={onNodeClick}
+        channel={packet.channel}
+      />
+    </div>
+  );
+}
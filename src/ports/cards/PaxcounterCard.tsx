@@ -0,0 +1,19 @@
+import { InfoItem } from '../../components/ui';
+import { readPaxcount } from '../../utils/sensors';
+import { formatDuration } from '../../utils/telemetry';
+import type { PortCardProps } from '../types';
+
+export function PaxcounterCard({ payload }: PortCardProps) {
+  const reading = readPaxcount(payload);
+  if (!reading) return null;
+
+  return (
+    <div className="packet-paxcounter-card">
+      <h3>Paxcounter</h3>
+      <InfoItem label="Devices nearby:" value={reading.wifi + reading.ble} />
+      <InfoItem label="WiFi:" value={reading.wifi} />
+      <InfoItem label="BLE:" value={reading.ble} />
+      {reading.uptime !== undefined && <InfoItem label="Uptime:" value={formatDuration(reading.uptime)} />}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { MapContainer, TileLayer, CircleMarker } from 'react-leaflet';
+import { MAP_NODE_DETAIL_ZOOM } from '../../utils/constants';
+import { InfoItem } from '../../components/ui';
+import { readPosition } from '../fields';
+import type { PortCardProps } from '../types';
+
+export function PositionCard({ payload }: PortCardProps) {
+  const position = readPosition(payload);
+  if (!position) return null;
+
+  return (
+    <div className="packet-position-card">
+      <h3>Reported Position</h3>
+      <div className="packet-position-map">
+        <MapContainer
+          key={`${position.lat},${position.lng}`}
+          center={[position.lat, position.lng]}
+          zoom={MAP_NODE_DETAIL_ZOOM}
+          scrollWheelZoom={false}
+          style={{ height: '100%', width: '100%' }}
+        >
+          <TileLayer
+            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+          />
+          <CircleMarker center={[position.lat, position.lng]} radius={8} pathOptions={{ color: '#0366d6', fillOpacity: 0.6 }} />
+        </MapContainer>
+      </div>
+      <InfoItem label="Coordinates" value={`${position.lat.toFixed(5)}, ${position.lng.toFixed(5)}`} />
+      {position.altitude !== undefined && <InfoItem label="Altitude" value={`${position.altitude} m`} />}
+      {position.satsInView !== undefined && <InfoItem label="Satellites" value={position.satsInView} />}
+      {position.groundSpeed !== undefined && <InfoItem label="Ground Speed" value={`${position.groundSpeed} m/s`} />}
+      {position.precisionBits !== undefined && position.precisionBits < 32 && (
+        <InfoItem label="Precision" value={`${position.precisionBits} bits (reduced)`} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { MapContainer, TileLayer, CircleMarker } from 'react-leaflet';
+import { MAP_NODE_DETAIL_ZOOM } from '../../utils/constants';
+import { InfoItem } from '../../components/ui';
+import { formatTakEnum, readTakChat, readTakPli, teamColor } from '../../utils/tak';
+import { formatNumber } from '../fields';
+import type { PortCardProps } from '../types';
+
+export function TakCard({ payload }: PortCardProps) {
+  const pli = readTakPli(payload);
+  const chat = readTakChat(payload);
+  if (!pli && chat === null) return null;
+
+  const team = formatTakEnum(pli?.team);
+  const role = formatTakEnum(pli?.role);
+  return (
+    <div className="packet-position-card">
+      <h3>{pli ? `TAK Position${pli.callsign ? `: ${pli.callsign}` : ''}` : 'TAK Chat'}</h3>
+      {pli && (
+        <div className="packet-position-map">
+          <MapContainer
+            key={`${pli.lat},${pli.lng}`}
+            center={[pli.lat, pli.lng]}
+            zoom={MAP_NODE_DETAIL_ZOOM}
+            scrollWheelZoom={false}
+            style={{ height: '100%', width: '100%' }}
+          >
+            <TileLayer
+              attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+              url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+            />
+            <CircleMarker
+              center={[pli.lat, pli.lng]}
+              radius={8}
+              pathOptions={{ color: '#1f2937', weight: 2, fillColor: teamColor(pli.team), fillOpacity: 0.9 }}
+            />
+          </MapContainer>
+        </div>
+      )}
+      {chat !== null && <InfoItem label="Message" value={chat} />}
+      {pli && (
+        <>
+          <InfoItem label="Coordinates" value={`${pli.lat.toFixed(5)}, ${pli.lng.toFixed(5)}`} />
+          {team && (
+            <InfoItem
+              label="Team"
+              value={<><span className="tak-team-swatch" style={{ background: teamColor(pli.team) }} />{team}</>}
+            />
+          )}
+          {role && <InfoItem label="Role" value={role} />}
+          {pli.altitude !== undefined && <InfoItem label="Altitude" value={`${pli.altitude} m`} />}
+          {pli.speed !== undefined && <InfoItem label="Speed" value={`${formatNumber(pli.speed)} m/s`} />}
+          {pli.course !== undefined && <InfoItem label="Course" value={`${pli.course}°`} />}
+          {pli.battery !== undefined && <InfoItem label="Battery" value={`${pli.battery}%`} />}
+        </>
+      )}
+      {payload.is_compressed === true && <InfoItem label="Note" value="Callsigns are compressed and not shown" />}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { InfoItem } from '../../components/ui';
+import { EXTERNAL_POWER_LEVEL, TELEMETRY_VARIANTS, formatMetric, metricLabel } from '../../utils/telemetry';
+import { numberField, messageField } from '../fields';
+import type { PortCardProps } from '../types';
+
+// Percentages worth showing as a gauge rather than a number
+const GAUGE_METRICS = ['battery_level', 'channel_utilization', 'air_util_tx', 'relative_humidity'];
+
+function renderGauge(metric: string, value: number) {
+  const percent = Math.max(0, Math.min(100, value));
+  // High channel use is bad; low battery is bad
+  const level = metric === 'battery_level'
+    ? (percent < 20 ? 'low' : percent < 50 ? 'mid' : 'high')
+    : metric === 'channel_utilization' || metric === 'air_util_tx'
+      ? (percent > 50 ? 'low' : percent > 25 ? 'mid' : 'high')
+      : 'neutral';
+
+  return (
+    <div key={metric} className="telemetry-gauge">
+      <span className="telemetry-gauge-label">{metricLabel(metric)}</span>
+      <div className="telemetry-gauge-track" role="meter" aria-valuenow={percent} aria-valuemin={0} aria-valuemax={100}>
+        <div className={`telemetry-gauge-fill gauge-${level}`} style={{ width: `${percent}%` }} />
+      </div>
+      <span className="telemetry-gauge-value">{formatMetric(metric, value)}</span>
+    </div>
+  );
+}
+
+export function TelemetryCard({ payload }: PortCardProps) {
+  const variants = TELEMETRY_VARIANTS
+    .map(variant => ({ ...variant, metrics: messageField(payload, variant.key) }))
+    .filter((variant): variant is { key: string; title: string; metrics: Record<string, unknown> } => variant.metrics !== null);
+  if (variants.length === 0) return null;
+
+  return (
+    <div className="packet-telemetry-card">
+      {variants.map(({ key, title, metrics }) => {
+        const entries = Object.keys(metrics)
+          .map(metric => [metric, numberField(metrics, metric)] as const)
+          .filter((entry): entry is readonly [string, number] => entry[1] !== undefined);
+        const gauges = entries.filter(([metric, value]) =>
+          GAUGE_METRICS.includes(metric) && !(metric === 'battery_level' && value >= EXTERNAL_POWER_LEVEL));
+        const others = entries.filter(entry => !gauges.includes(entry));
+
+        return (
+          <div key={key} className="telemetry-variant">
+            <h3>{title}</h3>
+            {gauges.map(([metric, value]) => renderGauge(metric, value))}
+            {others.map(([metric, value]) => (
+              <InfoItem key={metric} label={metricLabel(metric)} value={formatMetric(metric, value)} />
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
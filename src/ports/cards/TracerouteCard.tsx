@@ -0,0 +1,42 @@
+import { resolveTraceroute } from '../../utils/tracerouteParser';
+import { TracerouteVisualization } from '../../components/TracerouteVisualization';
+import { numberField } from '../fields';
+import type { PortCardProps } from '../types';
+
+export function TracerouteCard({ payload, payloadHex, packet, nodeLookup, onNodeClick, onTracerouteClick }: PortCardProps) {
+  const traceroute = resolveTraceroute(payload, payloadHex);
+  if (!traceroute || traceroute.route.length === 0) return null;
+
+  // Observations of a reply carry the request's id, which the traceroute is stored under
+  const tracerouteId = numberField(payload, 'request_id') ?? packet.id;
+
+  return (
+    <div className="packet-traceroute-card">
+      <TracerouteVisualization
+        packetId={packet.id}
+        route={traceroute.route}
+        snrTowards={traceroute.snr_towards}
+        routeBack={traceroute.route_back}
+        snrBack={traceroute.snr_back}
+        fromNodeId={packet.from_node_id}
+        toNodeId={packet.to_node_id}
+        isDone={payload.done === true}
+        nodeLookup={nodeLookup}
+        onNodeClick={onNodeClick}
+      />
+      {onTracerouteClick && (
+        <div className="traceroute-actions">
+          <button
+            className="btn-primary"
+            onClick={() => onTracerouteClick(tracerouteId)}
+          >
+            View Full Traceroute Details →
+          </button>
+          <p className="traceroute-hint">
+            See all routes observed by different gateways and a comprehensive network graph
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
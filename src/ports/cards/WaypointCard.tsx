@@ -0,0 +1,56 @@
+import { MapContainer, TileLayer, CircleMarker } from 'react-leaflet';
+import { MAP_NODE_DETAIL_ZOOM } from '../../utils/constants';
+import { InfoItem } from '../../components/ui';
+import { formatNodeId, getNodeDisplayName } from '../../utils/portNames';
+import { readWaypoint, waypointStatus, isWaypointDeleted } from '../../utils/waypoints';
+import type { PortCardProps } from '../types';
+
+export function WaypointCard({ payload, nodeLookup, onNodeClick }: PortCardProps) {
+  const waypoint = readWaypoint(payload);
+  if (!waypoint) return null;
+
+  const deleted = isWaypointDeleted(waypoint);
+  const status = waypointStatus(waypoint);
+  let expiry = 'Never';
+  if (deleted) {
+    expiry = 'Deleted';
+  } else if (waypoint.expire !== undefined) {
+    const date = new Date(waypoint.expire * 1000).toLocaleString();
+    expiry = status === 'expired' ? `${date} (expired)` : date;
+  }
+
+  return (
+    <div className="packet-position-card">
+      <h3>{waypoint.icon} {waypoint.name || 'Waypoint'}</h3>
+      <div className="packet-position-map">
+        <MapContainer
+          key={`${waypoint.lat},${waypoint.lng}`}
+          center={[waypoint.lat, waypoint.lng]}
+          zoom={MAP_NODE_DETAIL_ZOOM}
+          scrollWheelZoom={false}
+          style={{ height: '100%', width: '100%' }}
+        >
+          <TileLayer
+            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+          />
+          <CircleMarker center={[waypoint.lat, waypoint.lng]} radius={8} pathOptions={{ color: '#0366d6', fillOpacity: 0.6 }} />
+        </MapContainer>
+      </div>
+      {waypoint.description && <InfoItem label="Description" value={waypoint.description} />}
+      <InfoItem label="Coordinates" value={`${waypoint.lat.toFixed(5)}, ${waypoint.lng.toFixed(5)}`} />
+      <InfoItem label="Expires" value={expiry} />
+      <InfoItem label="Waypoint ID" value={waypoint.id} />
+      {waypoint.lockedTo !== undefined && (
+        <InfoItem
+          label="Locked To"
+          value={
+            <button className="node-link" onClick={() => onNodeClick(formatNodeId(waypoint.lockedTo!))}>
+              {getNodeDisplayName(waypoint.lockedTo, nodeLookup)}
+            </button>
+          }
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,11 @@
+import { DETECTION_SENSOR_PORTNUM } from '../utils/constants';
+import { readDetectionText } from '../utils/sensors';
+import type { PortHandler } from './types';
+
+export const detectionSensorPort: PortHandler = {
+  portnum: DETECTION_SENSOR_PORTNUM,
+  summarize: payload => {
+    const text = readDetectionText(payload);
+    return text ? `Detection: ${text}` : null;
+  },
+};
@@ -0,0 +1,67 @@
+// Typed reads from decoded payloads, which are untyped records
+
+import { COORDINATE_SCALE_FACTOR } from '../utils/constants';
+import type { DecodedPayload } from '../utils/meshtasticMessages';
+
+export function numberField(payload: Record<string, unknown>, key: string): number | undefined {
+  const value = payload[key];
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+export function stringField(payload: Record<string, unknown>, key: string): string | undefined {
+  const value = payload[key];
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+// Enums decode to their names here but may arrive as numbers from the server
+export function enumField(payload: Record<string, unknown>, key: string, names: Record<number, string>): string | undefined {
+  const value = payload[key];
+  if (typeof value === 'number') return names[value];
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+export function messageField(payload: Record<string, unknown>, key: string): Record<string, unknown> | null {
+  const value = payload[key];
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : null;
+}
+
+// Format a number with at most the given decimals, dropping trailing zeros
+export function formatNumber(value: number, maxDecimals: number = 1): string {
+  return Number(value.toFixed(maxDecimals)).toString();
+}
+
+export interface ReportedPosition {
+  lat: number;
+  lng: number;
+  altitude?: number;
+  satsInView?: number;
+  groundSpeed?: number;
+  precisionBits?: number;
+}
+
+// Positions come as scaled integers off the wire, but some servers send degrees
+export function readPosition(payload: DecodedPayload): ReportedPosition | null {
+  const latI = numberField(payload, 'latitude_i');
+  const lngI = numberField(payload, 'longitude_i');
+  const lat = latI !== undefined ? latI / COORDINATE_SCALE_FACTOR : numberField(payload, 'latitude');
+  const lng = lngI !== undefined ? lngI / COORDINATE_SCALE_FACTOR : numberField(payload, 'longitude');
+  // 0,0 is what nodes without a fix send
+  if (lat === undefined || lng === undefined || (lat === 0 && lng === 0)) return null;
+
+  return {
+    lat,
+    lng,
+    altitude: numberField(payload, 'altitude'),
+    satsInView: numberField(payload, 'sats_in_view'),
+    groundSpeed: numberField(payload, 'ground_speed'),
+    precisionBits: numberField(payload, 'precision_bits'),
+  };
+}
+
+export function readNeighbors(payload: DecodedPayload): Array<{ node_id: number; snr?: number }> {
+  return Array.isArray(payload.neighbors)
+    ? payload.neighbors as Array<{ node_id: number; snr?: number }>
+    : [];
+}
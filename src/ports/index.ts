@@ -0,0 +1,100 @@
+// Registry of per-port payload handling: how each app port is decoded,
+// summarized in packet lists, and shown on the packet detail page.
+// Supporting a new port means writing a module like ./position and adding it here.
+
+import { resolvePayload } from '../utils/meshtasticMessages';
+import type { DecodedPayload } from '../utils/meshtasticMessages';
+import type { PortHandler } from './types';
+import { textPort } from './text';
+import { positionPort } from './position';
+import { nodeinfoPort } from './nodeinfo';
+import { routingPort } from './routing';
+import { waypointPort } from './waypoint';
+import { detectionSensorPort } from './detection';
+import { paxcounterPort } from './paxcounter';
+import { rangeTestPort } from './rangetest';
+import { telemetryPort } from './telemetry';
+import { traceroutePort } from './traceroute';
+import { neighborinfoPort } from './neighborinfo';
+import { atakPort } from './atak';
+import { mapReportPort } from './mapreport';
+
+export type { PortHandler, PortCardProps, PortPacket } from './types';
+
+const PORT_HANDLERS: PortHandler[] = [
+  textPort,
+  positionPort,
+  nodeinfoPort,
+  routingPort,
+  waypointPort,
+  detectionSensorPort,
+  paxcounterPort,
+  rangeTestPort,
+  telemetryPort,
+  traceroutePort,
+  neighborinfoPort,
+  atakPort,
+  mapReportPort,
+];
+
+const handlersByPort = new Map(PORT_HANDLERS.map(handler => [handler.portnum, handler]));
+
+// Summaries end up in table cells and tooltips; keep them to a line
+const MAX_SUMMARY_LENGTH = 120;
+
+export function getPortHandler(portnum: number): PortHandler | undefined {
+  return handlersByPort.get(portnum);
+}
+
+// Prefer the server's decoded payload; otherwise decode payload_hex with the
+// port's own decoder, or its schema in PORT_MESSAGES
+export function resolvePortPayload(
+  portnum: number,
+  payload: string | DecodedPayload | null | undefined,
+  payloadHex: string | undefined | null
+): { payload: DecodedPayload | null; decodedLocally: boolean } {
+  const decode = getPortHandler(portnum)?.decode;
+  if (decode && payloadHex && (typeof payload !== 'object' || payload === null)) {
+    const decoded = decode(payloadHex);
+    return { payload: decoded, decodedLocally: decoded !== null };
+  }
+  return resolvePayload(portnum, payload, payloadHex);
+}
+
+export function summarizePayload(portnum: number, payload: DecodedPayload | null): string | null {
+  const summarize = getPortHandler(portnum)?.summarize;
+  if (!summarize || !payload) return null;
+
+  let summary: string | null;
+  try {
+    summary = summarize(payload);
+  } catch (err) {
+    console.warn(`Could not summarize port ${portnum} payload:`, err);
+    return null;
+  }
+  if (!summary) return null;
+  return summary.length > MAX_SUMMARY_LENGTH ? `${summary.slice(0, MAX_SUMMARY_LENGTH - 1)}…` : summary;
+}
+
+interface ListedPacket {
+  id: number;
+  portnum: number;
+  payload?: string | DecodedPayload | null;
+  payload_hex?: string;
+}
+
+// Summary of a packet as listed by the API, decoding its payload if needed
+export function summarizePacket(packet: ListedPacket): string | null {
+  const { payload } = resolvePortPayload(packet.portnum, packet.payload, packet.payload_hex);
+  return summarizePayload(packet.portnum, payload);
+}
+
+// Summaries for a list of packets, keyed by packet id; packets with nothing to say are absent
+export function summarizePackets(packets: ListedPacket[]): Map<number, string> {
+  const summaries = new Map<number, string>();
+  packets.forEach(packet => {
+    const summary = summarizePacket(packet);
+    if (summary) summaries.set(packet.id, summary);
+  });
+  return summaries;
+}
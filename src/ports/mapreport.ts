@@ -0,0 +1,16 @@
+import { MAP_REPORT_PORTNUM } from '../utils/constants';
+import { formatModemPreset, readMapReport } from '../utils/mapReports';
+import type { PortHandler } from './types';
+
+export const mapReportPort: PortHandler = {
+  portnum: MAP_REPORT_PORTNUM,
+  summarize: payload => {
+    const report = readMapReport(payload);
+    const details = [
+      report.firmware,
+      formatModemPreset(report.modemPreset),
+      report.region,
+    ].filter(Boolean).join(', ');
+    return `Map report: ${details}`;
+  },
+};
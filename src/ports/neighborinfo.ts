@@ -0,0 +1,13 @@
+import { NEIGHBORINFO_PORTNUM } from '../utils/constants';
+import { NeighborInfoCard } from './cards/NeighborInfoCard';
+import { readNeighbors } from './fields';
+import type { PortHandler } from './types';
+
+export const neighborinfoPort: PortHandler = {
+  portnum: NEIGHBORINFO_PORTNUM,
+  summarize: payload => {
+    const count = readNeighbors(payload).length;
+    return `${count} neighbor${count === 1 ? '' : 's'}`;
+  },
+  Card: NeighborInfoCard,
+};
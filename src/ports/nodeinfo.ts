@@ -0,0 +1,14 @@
+import { NODEINFO_PORTNUM } from '../utils/constants';
+import { stringField } from './fields';
+import type { PortHandler } from './types';
+
+export const nodeinfoPort: PortHandler = {
+  portnum: NODEINFO_PORTNUM,
+  summarize: payload => {
+    const longName = stringField(payload, 'long_name');
+    const shortName = stringField(payload, 'short_name');
+    const hwModel = stringField(payload, 'hw_model');
+    const name = longName && shortName ? `${longName} (${shortName})` : longName ?? shortName;
+    return [name, hwModel].filter(Boolean).join(' · ') || null;
+  },
+};
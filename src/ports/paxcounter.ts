@@ -0,0 +1,13 @@
+import { PAXCOUNTER_PORTNUM } from '../utils/constants';
+import { readPaxcount } from '../utils/sensors';
+import { PaxcounterCard } from './cards/PaxcounterCard';
+import type { PortHandler } from './types';
+
+export const paxcounterPort: PortHandler = {
+  portnum: PAXCOUNTER_PORTNUM,
+  summarize: payload => {
+    const reading = readPaxcount(payload);
+    return reading ? `${reading.wifi + reading.ble} nearby (WiFi ${reading.wifi}, BLE ${reading.ble})` : null;
+  },
+  Card: PaxcounterCard,
+};
@@ -0,0 +1,15 @@
+import { POSITION_PORTNUM } from '../utils/constants';
+import { PositionCard } from './cards/PositionCard';
+import { formatNumber, readPosition } from './fields';
+import type { PortHandler } from './types';
+
+export const positionPort: PortHandler = {
+  portnum: POSITION_PORTNUM,
+  summarize: payload => {
+    const position = readPosition(payload);
+    if (!position) return null;
+    const coords = `${position.lat.toFixed(5)}, ${position.lng.toFixed(5)}`;
+    return position.altitude !== undefined ? `${coords} · ${formatNumber(position.altitude, 0)} m` : coords;
+  },
+  Card: PositionCard,
+};
@@ -0,0 +1,13 @@
+import { RANGE_TEST_PORTNUM } from '../utils/constants';
+import { parseRangeTestSeq } from '../utils/rangeTest';
+import { stringField } from './fields';
+import type { PortHandler } from './types';
+
+export const rangeTestPort: PortHandler = {
+  portnum: RANGE_TEST_PORTNUM,
+  summarize: payload => {
+    const text = stringField(payload, 'text');
+    const seq = parseRangeTestSeq(text);
+    return seq !== null ? `Range test #${seq}` : text ?? null;
+  },
+};
@@ -0,0 +1,15 @@
+import { ROUTING_PORTNUM } from '../utils/constants';
+import { routingErrorReason, routingErrorLabel } from '../utils/routing';
+import { messageField } from './fields';
+import type { PortHandler } from './types';
+
+export const routingPort: PortHandler = {
+  portnum: ROUTING_PORTNUM,
+  summarize: payload => {
+    if (messageField(payload, 'route_request')) return 'Route request';
+    if (messageField(payload, 'route_reply')) return 'Route reply';
+    const reason = routingErrorReason(payload);
+    if (reason === null) return `NAK: ${String(payload.error_reason)}`;
+    return reason === 0 ? 'ACK' : `NAK: ${routingErrorLabel(reason)}`;
+  },
+};
@@ -0,0 +1,33 @@
+import { TELEMETRY_PORTNUM } from '../utils/constants';
+import type { DecodedPayload } from '../utils/meshtasticMessages';
+import { TELEMETRY_VARIANTS, formatMetric, metricLabel } from '../utils/telemetry';
+import { TelemetryCard } from './cards/TelemetryCard';
+import { numberField, messageField } from './fields';
+import type { PortHandler } from './types';
+
+function summarizeTelemetry(payload: DecodedPayload): string | null {
+  const device = messageField(payload, 'device_metrics');
+  const environment = messageField(payload, 'environment_metrics');
+  const parts: string[] = [];
+
+  for (const [metrics, keys] of [
+    [device, ['battery_level', 'voltage', 'channel_utilization']],
+    [environment, ['temperature', 'relative_humidity', 'barometric_pressure']],
+  ] as const) {
+    if (!metrics) continue;
+    for (const key of keys) {
+      const value = numberField(metrics, key);
+      if (value !== undefined) parts.push(`${metricLabel(key)} ${formatMetric(key, value)}`);
+    }
+  }
+
+  if (parts.length > 0) return parts.join(' · ');
+  // Fall back to naming the variant
+  return TELEMETRY_VARIANTS.find(variant => messageField(payload, variant.key))?.title ?? null;
+}
+
+export const telemetryPort: PortHandler = {
+  portnum: TELEMETRY_PORTNUM,
+  summarize: summarizeTelemetry,
+  Card: TelemetryCard,
+};
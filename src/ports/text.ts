@@ -0,0 +1,8 @@
+import { TEXT_MESSAGE_PORTNUM } from '../utils/constants';
+import { stringField } from './fields';
+import type { PortHandler } from './types';
+
+export const textPort: PortHandler = {
+  portnum: TEXT_MESSAGE_PORTNUM,
+  summarize: payload => stringField(payload, 'text') ?? null,
+};
@@ -0,0 +1,16 @@
+import { TRACEROUTE_PORTNUM } from '../utils/constants';
+import { resolveTraceroute } from '../utils/tracerouteParser';
+import { TracerouteCard } from './cards/TracerouteCard';
+import type { PortHandler } from './types';
+
+export const traceroutePort: PortHandler = {
+  portnum: TRACEROUTE_PORTNUM,
+  summarize: payload => {
+    const traceroute = resolveTraceroute(payload, null);
+    if (!traceroute) return null;
+    const hops = traceroute.route.length;
+    const summary = hops === 0 ? 'Direct' : `${hops} hop${hops === 1 ? '' : 's'}`;
+    return traceroute.route_back ? `${summary}, ${traceroute.route_back.length} back` : summary;
+  },
+  Card: TracerouteCard,
+};
@@ -0,0 +1,32 @@
+import type { ComponentType } from 'react';
+import type { DecodedPayload } from '../utils/meshtasticMessages';
+import type { NodeLookup } from '../utils/nodeLookup';
+
+// The parts of a packet a port's card can use
+export interface PortPacket {
+  id: number;
+  from_node_id: number;
+  to_node_id: number;
+  channel: string;
+}
+
+export interface PortCardProps {
+  payload: DecodedPayload;
+  payloadHex?: string;
+  packet: PortPacket;
+  nodeLookup: NodeLookup | null;
+  onNodeClick: (nodeId: string) => void;
+  onTracerouteClick?: (packetId: number) => void;
+}
+
+// Everything the UI knows about one app port. Register new ones in ports/index.ts.
+export interface PortHandler {
+  portnum: number;
+  // Decode payload_hex when the server didn't. Ports listed in PORT_MESSAGES
+  // are decoded from their schema and don't need this.
+  decode?: (payloadHex: string) => DecodedPayload | null;
+  // One line for packet lists and tooltips; null when there's nothing to say
+  summarize?: (payload: DecodedPayload) => string | null;
+  // Card shown at the top of the packet detail page
+  Card?: ComponentType<PortCardProps>;
+}
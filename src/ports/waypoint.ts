@@ -0,0 +1,16 @@
+import { WAYPOINT_PORTNUM } from '../utils/constants';
+import { readWaypoint, isWaypointDeleted } from '../utils/waypoints';
+import { WaypointCard } from './cards/WaypointCard';
+import type { PortHandler } from './types';
+
+export const waypointPort: PortHandler = {
+  portnum: WAYPOINT_PORTNUM,
+  summarize: payload => {
+    const waypoint = readWaypoint(payload);
+    if (!waypoint) return null;
+    if (isWaypointDeleted(waypoint)) return `${waypoint.icon} ${waypoint.name || 'Waypoint'} (deleted)`;
+    const title = `${waypoint.icon} ${waypoint.name || 'Waypoint'}`;
+    return waypoint.description ? `${title} — ${waypoint.description}` : title;
+  },
+  Card: WaypointCard,
+};
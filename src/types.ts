@@ -10,8 +10,19 @@ export interface Node {
   last_long: number | null;
   channel: string;
   last_update: string;
+  // Filled in on the client from the node's map reports
+  modem_preset?: string;
+  region?: string;
+  has_default_channel?: boolean;
+  position_approximate?: boolean; // last_lat/last_long came from a map report
 }
 
+// Node fields the client fills in itself; the server never sends them
+export type ClientNodeField = 'modem_preset' | 'region' | 'has_default_channel' | 'position_approximate';
+
+// A node as the server describes it
+export type ServerNode = Omit<Node, ClientNodeField>;
+
 export interface NodesResponse {
   nodes: Node[];
 }
@@ -71,6 +82,57 @@ export interface Packet {
   gateway_count?: number;
 }
 
+export interface PacketsResponse {
+  packets: Packet[];
+}
+
+// Reception report from one gateway that heard a packet
+export interface PacketGateway {
+  node_id: number;
+  node_name?: string;
+  rx_rssi?: number;
+  rx_snr?: number;
+  hop_start?: number;
+  hop_limit?: number;
+  relay_node?: number;
+}
+
+export interface PacketDetailResponse {
+  id: number;
+  from_node_id: number;
+  to_node_id: number;
+  channel: string;
+  portnum: number;
+  import_time: string;
+  payload: string | { type: string; [key: string]: unknown };
+  payload_hex?: string;
+  hop_start?: number;
+  hop_limit?: number;
+  gateways?: PacketGateway[];
+}
+
+export interface TracerouteRecord {
+  id: number;
+  packet_id: number;
+  gateway_node_id: number;
+  done: boolean;
+  import_time: string;
+  route: {
+    type: string;
+    route: number[];
+    snr_towards?: number[];
+    route_back?: number[];
+    snr_back?: number[];
+    raw_hex?: string;
+  };
+  route_hex: string;
+}
+
+export interface TracerouteResponse {
+  packet_id: number;
+  traceroutes: TracerouteRecord[];
+}
+
 export interface TopGateway {
   node_id: number;
   packet_count: number;
@@ -105,7 +167,7 @@ export interface NodeGraphEdge {
 export interface NodeGraphResponse {
   edges: NodeGraphEdge[];
   metadata: {
-    channel: string;
+    channel: string | null; // null when the graph spans channels or the channel is unknown
     with_location: boolean;
     hours: number;
     node_count: number;
@@ -122,3 +184,26 @@ export interface TopRelayNode {
 export interface TopRelaysResponse {
   relay_nodes: TopRelayNode[];
 }
+
+// Messages sent by the meshQL WebSocket stream (/ws)
+export interface WsConnectedMessage {
+  type: 'connected';
+  filters?: Record<string, unknown>;
+}
+
+export interface WsSubscribedMessage {
+  type: 'subscribed';
+  filters?: Record<string, unknown>;
+}
+
+// Node updates may carry only the fields that changed
+export interface WsNodeMessage extends Partial<Omit<ServerNode, 'node_id'>> {
+  type: 'node';
+  node_id: number;
+}
+
+export interface WsPacketMessage extends Packet {
+  type: 'packet';
+}
+
+export type WsMessage = WsConnectedMessage | WsSubscribedMessage | WsNodeMessage | WsPacketMessage;
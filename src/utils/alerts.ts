@@ -0,0 +1,213 @@
+// Telemetry threshold alerts: user-defined rules such as "router battery
+// below 20%" checked against live telemetry, and a history of the breaches
+// they raised. Both are stored in localStorage.
+
+import type { Node } from '../types';
+import { EXTERNAL_POWER_LEVEL, formatMetric, metricLabel } from './telemetry';
+import type { TelemetryReadings } from './telemetry';
+
+export type AlertComparison = 'below' | 'above';
+
+export interface AlertRule {
+  id: string;
+  metric: string; // device or environment metric, e.g. 'battery_level'
+  comparison: AlertComparison;
+  threshold: number;
+  // Scope: one node, every node with a role, or all nodes when neither is set
+  nodeId?: number;
+  role?: string;
+  notify: boolean; // also raise a browser notification
+}
+
+export interface AlertBreach {
+  id: string;
+  ruleId: string;
+  nodeId: number;
+  metric: string;
+  comparison: AlertComparison;
+  threshold: number;
+  value: number;
+  packetId: number;
+  time: number; // ms since epoch
+}
+
+// Metrics offered when creating a rule
+export const ALERT_METRICS = [
+  'battery_level',
+  'voltage',
+  'channel_utilization',
+  'air_util_tx',
+  'temperature',
+  'relative_humidity',
+  'barometric_pressure',
+  'gas_resistance',
+  'lux',
+];
+
+const ALERT_RULES_KEY = 'alertRules';
+const ALERT_HISTORY_KEY = 'alertHistory';
+const ALERTS_SEEN_KEY = 'alertsSeenAt';
+
+// Oldest breaches are dropped beyond this
+const MAX_HISTORY = 200;
+
+let cachedRules: AlertRule[] | null = null;
+let cachedHistory: AlertBreach[] | null = null;
+const listeners = new Set<() => void>();
+
+// Rule/node pairs currently past their threshold. A breach is raised when a
+// node crosses the threshold, not again for every reading until it recovers.
+const activeBreaches = new Set<string>();
+
+function isValidRule(value: unknown): value is AlertRule {
+  if (typeof value !== 'object' || value === null) return false;
+  const r = value as Record<string, unknown>;
+  return typeof r.id === 'string' && typeof r.metric === 'string' &&
+    (r.comparison === 'below' || r.comparison === 'above') &&
+    typeof r.threshold === 'number' && typeof r.notify === 'boolean' &&
+    (r.nodeId === undefined || typeof r.nodeId === 'number') &&
+    (r.role === undefined || typeof r.role === 'string');
+}
+
+function isValidBreach(value: unknown): value is AlertBreach {
+  if (typeof value !== 'object' || value === null) return false;
+  const b = value as Record<string, unknown>;
+  return typeof b.id === 'string' && typeof b.ruleId === 'string' && typeof b.nodeId === 'number' &&
+    typeof b.metric === 'string' && (b.comparison === 'below' || b.comparison === 'above') &&
+    typeof b.threshold === 'number' && typeof b.value === 'number' &&
+    typeof b.packetId === 'number' && typeof b.time === 'number';
+}
+
+function loadList<T>(key: string, isValid: (value: unknown) => value is T): T[] {
+  try {
+    const saved = localStorage.getItem(key);
+    const parsed: unknown = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed.filter(isValid) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Shaped for useSyncExternalStore: return the same arrays until they change
+export function getAlertRules(): AlertRule[] {
+  if (!cachedRules) cachedRules = loadList(ALERT_RULES_KEY, isValidRule);
+  return cachedRules;
+}
+
+// Newest first
+export function getAlertHistory(): AlertBreach[] {
+  if (!cachedHistory) cachedHistory = loadList(ALERT_HISTORY_KEY, isValidBreach);
+  return cachedHistory;
+}
+
+export function onAlertsChange(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function setAlertRules(rules: AlertRule[]): void {
+  localStorage.setItem(ALERT_RULES_KEY, JSON.stringify(rules));
+  cachedRules = rules;
+  listeners.forEach(listener => listener());
+}
+
+function setAlertHistory(history: AlertBreach[]): void {
+  localStorage.setItem(ALERT_HISTORY_KEY, JSON.stringify(history));
+  cachedHistory = history;
+  listeners.forEach(listener => listener());
+}
+
+export function saveAlertRule(rule: Omit<AlertRule, 'id'>): AlertRule {
+  const saved: AlertRule = { ...rule, id: `rule-${Date.now()}-${rule.metric}` };
+  setAlertRules([...getAlertRules(), saved]);
+  return saved;
+}
+
+export function deleteAlertRule(ruleId: string): void {
+  activeBreaches.forEach(key => {
+    if (key.startsWith(`${ruleId}:`)) activeBreaches.delete(key);
+  });
+  setAlertRules(getAlertRules().filter(rule => rule.id !== ruleId));
+}
+
+export function clearAlertHistory(): void {
+  setAlertHistory([]);
+}
+
+// When the alert dialog was last opened, for the unseen count on its button
+export function getAlertsSeenAt(): number {
+  return Number(localStorage.getItem(ALERTS_SEEN_KEY)) || 0;
+}
+
+export function markAlertsSeen(): void {
+  localStorage.setItem(ALERTS_SEEN_KEY, Date.now().toString());
+  listeners.forEach(listener => listener());
+}
+
+export function ruleApplies(rule: AlertRule, node: Pick<Node, 'node_id' | 'role'>): boolean {
+  if (rule.nodeId !== undefined) return rule.nodeId === node.node_id;
+  if (rule.role !== undefined) return rule.role === node.role;
+  return true;
+}
+
+// Battery under 20%, Temperature over 45 °C
+export function describeThreshold(rule: Pick<AlertRule, 'metric' | 'comparison' | 'threshold'>): string {
+  const comparison = rule.comparison === 'below' ? 'under' : 'over';
+  return `${metricLabel(rule.metric)} ${comparison} ${formatMetric(rule.metric, rule.threshold)}`;
+}
+
+// Battery 18%
+export function formatBreachValue(breach: Pick<AlertBreach, 'metric' | 'value'>): string {
+  return `${metricLabel(breach.metric)} ${formatMetric(breach.metric, breach.value)}`;
+}
+
+// Check one telemetry packet against the rules and record the breaches it
+// starts. Returns them with their rules, for toasts and notifications.
+export function checkTelemetry(
+  node: Pick<Node, 'node_id' | 'role'>,
+  packetId: number,
+  readings: TelemetryReadings
+): Array<{ rule: AlertRule; breach: AlertBreach }> {
+  // Proto3 leaves a zero battery_level off the wire, so device metrics without
+  // one mean a flat battery
+  const device = Object.keys(readings.device).length > 0 ? { battery_level: 0, ...readings.device } : readings.device;
+  const metrics = { ...readings.environment, ...device };
+  const raised: Array<{ rule: AlertRule; breach: AlertBreach }> = [];
+
+  for (const rule of getAlertRules()) {
+    if (!ruleApplies(rule, node)) continue;
+    const value = metrics[rule.metric];
+    // Externally powered nodes report 101%; that's not a charge level
+    if (value === undefined || (rule.metric === 'battery_level' && value >= EXTERNAL_POWER_LEVEL)) continue;
+
+    const key = `${rule.id}:${node.node_id}`;
+    const breached = rule.comparison === 'below' ? value < rule.threshold : value > rule.threshold;
+    if (!breached) {
+      activeBreaches.delete(key);
+      continue;
+    }
+    if (activeBreaches.has(key)) continue;
+    activeBreaches.add(key);
+
+    const time = Date.now();
+    raised.push({
+      rule,
+      breach: {
+        id: `breach-${time}-${key}`,
+        ruleId: rule.id,
+        nodeId: node.node_id,
+        metric: rule.metric,
+        comparison: rule.comparison,
+        threshold: rule.threshold,
+        value,
+        packetId,
+        time,
+      },
+    });
+  }
+
+  if (raised.length > 0) {
+    setAlertHistory([...raised.map(({ breach }) => breach).reverse(), ...getAlertHistory()].slice(0, MAX_HISTORY));
+  }
+  return raised;
+}
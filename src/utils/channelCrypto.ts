@@ -0,0 +1,180 @@
+// Meshtastic channel encryption: AES-CTR keyed with the channel PSK
+// Reference: https://meshtastic.org/docs/overview/encryption/
+//
+// Everything here runs in the browser through WebCrypto. Keys are never sent
+// anywhere; see channelKeys.ts for how they are stored.
+
+import { PORT_NUM_NAMES } from './constants';
+import { hexToBytes } from './protobuf';
+import { decodeMessage, decodePortPayload, DATA } from './meshtasticMessages';
+import type { DecodedPayload } from './meshtasticMessages';
+import type { ChannelKey } from './channelKeys';
+
+// The well-known default key ("AQ==" in the apps). A one-byte PSK selects a
+// variant of it: the value is added to the last byte, 1 being the key as is.
+const DEFAULT_PSK = Uint8Array.of(
+  0xd4, 0xf1, 0xbb, 0x3a, 0x20, 0x29, 0x07, 0x59,
+  0xf0, 0xbc, 0xff, 0xab, 0xcf, 0x4e, 0x69, 0x01
+);
+
+// Entries beyond this are evicted, oldest first
+const MAX_CACHED_RESULTS = 2000;
+
+export interface EncryptedPacket {
+  id: number;
+  from_node_id?: number;
+  channel: string;
+  portnum: number;
+  payload_hex?: string;
+}
+
+export interface DecryptedPacket {
+  portnum: number;
+  payload_hex: string;
+  payload: DecodedPayload | null;
+  keyId: string;
+  keyName: string;
+}
+
+export function base64ToBytes(value: string): Uint8Array {
+  // Channel URLs use the URL-safe alphabet and drop the padding
+  const normalized = value.trim().replace(/-/g, '+').replace(/_/g, '/');
+  const padded = normalized + '='.repeat((4 - (normalized.length % 4)) % 4);
+  let binary: string;
+  try {
+    binary = atob(padded);
+  } catch {
+    throw new Error('Key is not valid base64');
+  }
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+// Turn a PSK as configured on a channel into the AES key it stands for
+export function expandPsk(psk: Uint8Array): Uint8Array {
+  if (psk.length === 0 || (psk.length === 1 && psk[0] === 0)) {
+    throw new Error('This channel is not encrypted');
+  }
+  if (psk.length === 1) {
+    const key = DEFAULT_PSK.slice();
+    key[key.length - 1] = (key[key.length - 1] + psk[0] - 1) & 0xff;
+    return key;
+  }
+  if (psk.length !== 16 && psk.length !== 32) {
+    throw new Error(`Keys must be 16 or 32 bytes (AES-128/256), got ${psk.length}`);
+  }
+  return psk;
+}
+
+// The CTR counter block: packet id (64-bit LE), sender node id (32-bit LE), then zeros
+export function buildNonce(packetId: number, fromNodeId: number): Uint8Array<ArrayBuffer> {
+  const nonce = new Uint8Array(16);
+  const view = new DataView(nonce.buffer);
+  view.setBigUint64(0, BigInt(packetId), true);
+  view.setUint32(8, fromNodeId >>> 0, true);
+  return nonce;
+}
+
+const cryptoKeys = new Map<string, Promise<CryptoKey>>();
+
+function importKey(psk: string): Promise<CryptoKey> {
+  let key = cryptoKeys.get(psk);
+  if (!key) {
+    const raw = expandPsk(base64ToBytes(psk));
+    key = crypto.subtle.importKey('raw', raw.slice().buffer, 'AES-CTR', false, ['decrypt']);
+    cryptoKeys.set(psk, key);
+  }
+  return key;
+}
+
+export async function decryptPayload(ciphertext: Uint8Array, psk: string, packetId: number, fromNodeId: number): Promise<Uint8Array> {
+  const key = await importKey(psk);
+  const plaintext = await crypto.subtle.decrypt(
+    // Payloads are far smaller than 2^32 blocks, so a 32-bit counter never wraps
+    { name: 'AES-CTR', counter: buildNonce(packetId, fromNodeId), length: 32 },
+    key,
+    ciphertext.slice().buffer
+  );
+  return new Uint8Array(plaintext);
+}
+
+// Packets the server couldn't decrypt have no port; it's inside the ciphertext
+export function isEncryptedPacket(packet: EncryptedPacket): boolean {
+  return packet.portnum === 0 && !!packet.payload_hex;
+}
+
+// A wrong key yields noise, so only accept output that parses as a Data
+// message for a known port
+function parseDecryptedData(plaintext: Uint8Array): { portnum: number; payloadHex: string; extra: Record<string, unknown> } | null {
+  try {
+    const { portnum, payload, request_id, reply_id, emoji } = decodeMessage(plaintext, DATA);
+    if (typeof portnum !== 'number' || !PORT_NUM_NAMES[String(portnum)]) return null;
+    // Carry these over like the server does for plaintext packets
+    const extra = Object.fromEntries(
+      Object.entries({ request_id, reply_id, emoji }).filter(([, value]) => value !== undefined)
+    );
+    return { portnum, payloadHex: typeof payload === 'string' ? payload : '', extra };
+  } catch {
+    return null;
+  }
+}
+
+async function tryDecrypt(packet: EncryptedPacket, keys: ChannelKey[]): Promise<DecryptedPacket | null> {
+  if (!isEncryptedPacket(packet) || packet.from_node_id === undefined || keys.length === 0) return null;
+  const ciphertext = hexToBytes(packet.payload_hex!);
+
+  // Try the key named after the packet's channel first, then the rest
+  const ordered = [...keys].sort((a, b) => Number(b.name === packet.channel) - Number(a.name === packet.channel));
+  for (const key of ordered) {
+    let plaintext: Uint8Array;
+    try {
+      plaintext = await decryptPayload(ciphertext, key.psk, packet.id, packet.from_node_id);
+    } catch (err) {
+      console.warn(`Could not decrypt with key "${key.name}":`, err);
+      continue;
+    }
+
+    const data = parseDecryptedData(plaintext);
+    if (!data) continue;
+
+    const decoded = decodePortPayload(data.portnum, data.payloadHex);
+    return {
+      portnum: data.portnum,
+      payload_hex: data.payloadHex,
+      payload: decoded ? { ...decoded, ...data.extra } : null,
+      keyId: key.id,
+      keyName: key.name,
+    };
+  }
+  return null;
+}
+
+const results = new Map<string, Promise<DecryptedPacket | null>>();
+
+// Decrypt a packet with whichever stored key fits. Results are cached per
+// packet and key set, so re-rendering lists doesn't redo the work.
+export function decryptPacket(packet: EncryptedPacket, keys: ChannelKey[]): Promise<DecryptedPacket | null> {
+  const cacheKey = `${packet.id}:${keys.map(k => k.psk).join(',')}`;
+  let result = results.get(cacheKey);
+  if (!result) {
+    result = tryDecrypt(packet, keys).catch(err => {
+      console.warn(`Could not decrypt packet ${packet.id}:`, err);
+      return null;
+    });
+    results.set(cacheKey, result);
+    if (results.size > MAX_CACHED_RESULTS) {
+      results.delete(results.keys().next().value!);
+    }
+  }
+  return result;
+}
+
+// Validate a PSK typed or pasted by the user; returns it as canonical base64
+export function normalizePsk(value: string): string {
+  const bytes = base64ToBytes(value);
+  expandPsk(bytes);
+  return bytesToBase64(bytes);
+}
@@ -0,0 +1,122 @@
+// Channel keys (PSKs) added by the user to read private channels. They are
+// stored in localStorage only and never sent to the backend; decryption
+// happens in the browser (channelCrypto.ts).
+
+import { base64ToBytes, bytesToBase64, normalizePsk } from './channelCrypto';
+import { decodeMessage, CHANNEL_SET } from './meshtasticMessages';
+import { hexToBytes } from './protobuf';
+
+export interface ChannelKey {
+  id: string;
+  name: string; // Channel name, matched against packet.channel
+  psk: string;  // Base64, as shown in the Meshtastic apps
+  preset?: string; // Modem preset (e.g. 'MediumFast'), known when imported from a channel URL
+}
+
+export interface ImportedChannel {
+  name: string;
+  psk: string;
+  preset?: string;
+}
+
+const CHANNEL_KEYS_KEY = 'channelKeys';
+
+// Channels with no name use their modem preset's; LongFast is the firmware default
+const DEFAULT_CHANNEL_NAME = 'LongFast';
+
+let cachedKeys: ChannelKey[] | null = null;
+const listeners = new Set<() => void>();
+
+function isValidChannelKey(value: unknown): value is ChannelKey {
+  if (typeof value !== 'object' || value === null) return false;
+  const k = value as Record<string, unknown>;
+  return typeof k.id === 'string' && typeof k.name === 'string' && typeof k.psk === 'string'
+    && (k.preset === undefined || typeof k.preset === 'string');
+}
+
+// Shaped for useSyncExternalStore: returns the same array until keys change
+export function getChannelKeys(): ChannelKey[] {
+  if (cachedKeys) return cachedKeys;
+  try {
+    const saved = localStorage.getItem(CHANNEL_KEYS_KEY);
+    const parsed: unknown = saved ? JSON.parse(saved) : [];
+    cachedKeys = Array.isArray(parsed) ? parsed.filter(isValidChannelKey) : [];
+  } catch {
+    cachedKeys = [];
+  }
+  return cachedKeys;
+}
+
+export function onChannelKeysChange(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function setChannelKeys(keys: ChannelKey[]): void {
+  localStorage.setItem(CHANNEL_KEYS_KEY, JSON.stringify(keys));
+  cachedKeys = keys;
+  listeners.forEach(listener => listener());
+}
+
+// Add a key, replacing any existing key for the same channel
+export function saveChannelKey(name: string, psk: string, preset?: string): ChannelKey {
+  const key: ChannelKey = { id: `key-${Date.now()}-${name}`, name: name.trim(), psk: normalizePsk(psk) };
+  if (preset) key.preset = preset;
+  const others = getChannelKeys().filter(k => k.name !== key.name);
+  setChannelKeys([...others, key]);
+  return key;
+}
+
+export function deleteChannelKey(keyId: string): void {
+  setChannelKeys(getChannelKeys().filter(k => k.id !== keyId));
+}
+
+// LONG_FAST -> LongFast, the way presets are named on the air and in RSSI_THRESHOLDS
+function presetDisplayName(preset: string): string {
+  return preset.toLowerCase().split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('');
+}
+
+// The preset from a ChannelSet's LoRa config; custom modem settings have none
+function channelSetPreset(loraConfig: unknown): string | undefined {
+  if (typeof loraConfig !== 'object' || loraConfig === null) return undefined;
+  const config = loraConfig as Record<string, unknown>;
+  if (config.use_preset !== true) return undefined;
+  // LONG_FAST is 0, which proto3 leaves off the wire
+  const preset = config.modem_preset ?? 'LONG_FAST';
+  return typeof preset === 'string' ? presetDisplayName(preset) : undefined;
+}
+
+// Extract the encrypted channels from a Meshtastic channel URL
+// (https://meshtastic.org/e/#<base64 ChannelSet>). Unencrypted channels are skipped.
+export function parseChannelUrl(url: string): ImportedChannel[] {
+  const fragment = url.trim().split('#')[1];
+  if (!fragment) {
+    throw new Error('Not a Meshtastic channel URL (expected https://meshtastic.org/e/#...)');
+  }
+
+  let channelSet: Record<string, unknown>;
+  try {
+    channelSet = decodeMessage(base64ToBytes(fragment.split('?')[0]), CHANNEL_SET);
+  } catch {
+    throw new Error('Channel URL could not be decoded');
+  }
+
+  const preset = channelSetPreset(channelSet.lora_config);
+  const settings = Array.isArray(channelSet.settings) ? channelSet.settings as Array<Record<string, unknown>> : [];
+  const channels = settings.flatMap(channel => {
+    if (typeof channel.psk !== 'string') return [];
+    const psk = bytesToBase64(hexToBytes(channel.psk));
+    try {
+      normalizePsk(psk);
+    } catch {
+      return [];
+    }
+    const name = typeof channel.name === 'string' && channel.name ? channel.name : preset ?? DEFAULT_CHANNEL_NAME;
+    return [preset ? { name, psk, preset } : { name, psk }];
+  });
+
+  if (channels.length === 0) {
+    throw new Error('The URL has no encrypted channels');
+  }
+  return channels;
+}
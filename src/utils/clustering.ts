@@ -0,0 +1,77 @@
+// Zoom-aware point clustering for maps with too many markers to draw one by
+// one. Points are grouped by screen distance at a zoom level, so clusters
+// split apart as the map zooms in.
+
+export interface Cluster<T> {
+  items: T[];
+  center: [number, number]; // mean lat/lng of the items
+  bounds: [[number, number], [number, number]]; // south-west, north-east
+}
+
+const TILE_SIZE = 256;
+
+// Web Mercator world pixel coordinates at a zoom level, as Leaflet projects them
+function project(lat: number, lng: number, zoom: number): [number, number] {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sin = Math.sin((Math.max(-85.05, Math.min(85.05, lat)) * Math.PI) / 180);
+  const x = ((lng + 180) / 360) * scale;
+  const y = (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale;
+  return [x, y];
+}
+
+// Greedily group points lying within `radius` pixels of a cluster's first
+// point at this zoom. Points are bucketed into a radius-sized grid so each one
+// only checks its neighbouring cells. Input order decides which point seeds a
+// cluster, so a stable order gives stable clusters.
+export function clusterPoints<T>(
+  items: T[],
+  position: (item: T) => [number, number],
+  zoom: number,
+  radius: number
+): Cluster<T>[] {
+  const points = items.map(item => {
+    const [lat, lng] = position(item);
+    const [x, y] = project(lat, lng, zoom);
+    return { item, lat, lng, x, y, cellX: Math.floor(x / radius), cellY: Math.floor(y / radius) };
+  });
+
+  const grid = new Map<string, number[]>();
+  points.forEach((point, index) => {
+    const key = `${point.cellX},${point.cellY}`;
+    const cell = grid.get(key) ?? [];
+    cell.push(index);
+    grid.set(key, cell);
+  });
+
+  const clustered = new Set<number>();
+  const clusters: Cluster<T>[] = [];
+  points.forEach((seed, seedIndex) => {
+    if (clustered.has(seedIndex)) return;
+    const members = [seed];
+    clustered.add(seedIndex);
+
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        grid.get(`${seed.cellX + dx},${seed.cellY + dy}`)?.forEach(index => {
+          if (clustered.has(index)) return;
+          const point = points[index];
+          if (Math.hypot(point.x - seed.x, point.y - seed.y) > radius) return;
+          members.push(point);
+          clustered.add(index);
+        });
+      }
+    }
+
+    const lats = members.map(member => member.lat);
+    const lngs = members.map(member => member.lng);
+    clusters.push({
+      items: members.map(member => member.item),
+      center: [
+        lats.reduce((sum, lat) => sum + lat, 0) / members.length,
+        lngs.reduce((sum, lng) => sum + lng, 0) / members.length,
+      ],
+      bounds: [[Math.min(...lats), Math.min(...lngs)], [Math.max(...lats), Math.max(...lngs)]],
+    });
+  });
+  return clusters;
+}
@@ -40,22 +40,50 @@ export const POSITION_PORTNUM = 3;
 // Port number for text message packets
 export const TEXT_MESSAGE_PORTNUM = 1;
 
+// Port number for node info packets
+export const NODEINFO_PORTNUM = 4;
+
+// Port number for routing (ack/nak) packets
+export const ROUTING_PORTNUM = 5;
+
+// Port number for waypoint packets
+export const WAYPOINT_PORTNUM = 8;
+
+// Port number for detection sensor packets
+export const DETECTION_SENSOR_PORTNUM = 10;
+
+// Port number for paxcounter packets
+export const PAXCOUNTER_PORTNUM = 34;
+
+// Port number for range test packets
+export const RANGE_TEST_PORTNUM = 66;
+
+// Port number for telemetry packets
+export const TELEMETRY_PORTNUM = 67;
+
 // Port number for traceroute packets
 export const TRACEROUTE_PORTNUM = 70;
 
 // Port number for neighbor info packets
 export const NEIGHBORINFO_PORTNUM = 71;
 
+// Port number for ATAK plugin (TAKPacket) packets
+export const ATAK_PORTNUM = 72;
+
+// Port number for map report packets
+export const MAP_REPORT_PORTNUM = 73;
+
 // Special node IDs
 export const BROADCAST_NODE_ID = 0xffffffff; // 4294967295
 
-// WebSocket base URL
-export const WEBSOCKET_URL = 'wss://meshql.bayme.sh/ws';
-
 // Default map zoom levels
 export const MAP_DEFAULT_ZOOM = 10;
 export const MAP_NODE_DETAIL_ZOOM = 13;
 
+// Node marker clustering on the main map
+export const MAP_CLUSTER_RADIUS_PX = 50;
+export const MAP_CLUSTER_MAX_ZOOM = 15; // every node gets its own marker from here in
+
 // Default fetch limits
 export const DEFAULT_NODE_LIMIT = 1000;
 export const DEFAULT_PACKET_LIMIT = 500;
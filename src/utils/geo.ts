@@ -0,0 +1,37 @@
+// Distances between positions on the map
+
+import { COORDINATE_SCALE_FACTOR } from './constants';
+import type { Node } from '../types';
+import type { NodeLookup } from './nodeLookup';
+
+const EARTH_RADIUS_MILES = 3959;
+
+// Great-circle distance in miles (Haversine formula)
+export function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLon = (lon2 - lon1) * Math.PI / 180;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS_MILES * c;
+}
+
+// A node's last known position in decimal degrees. Nodes without a fix
+// report 0 or nothing.
+export function nodePosition(node: Pick<Node, 'last_lat' | 'last_long'>): [number, number] | null {
+  if (!node.last_lat || !node.last_long) return null;
+  return [node.last_lat / COORDINATE_SCALE_FACTOR, node.last_long / COORDINATE_SCALE_FACTOR];
+}
+
+// Miles between two nodes' last known positions, when both have one
+export function nodeDistance(nodeLookup: NodeLookup | null, fromNodeId: number, toNodeId: number): number | null {
+  if (!nodeLookup) return null;
+  const fromNode = nodeLookup.getNode(fromNodeId);
+  const toNode = nodeLookup.getNode(toNodeId);
+  const from = fromNode && nodePosition(fromNode);
+  const to = toNode && nodePosition(toNode);
+  if (!from || !to) return null;
+  return calculateDistance(from[0], from[1], to[0], to[1]);
+}
@@ -0,0 +1,111 @@
+// Map reports (MAP_REPORT_APP): what a node says about itself for the public
+// map. They fill in what the node list is missing, such as firmware and modem
+// preset, and a rounded position for nodes that never sent a position packet.
+
+import type { Node } from '../types';
+import { DEVICE_ROLES, HARDWARE_MODELS, MODEM_PRESETS, REGION_CODES } from './meshtasticMessages';
+import type { DecodedPayload } from './meshtasticMessages';
+import { enumField, numberField, stringField } from '../ports/fields';
+
+export interface MapReport {
+  longName?: string;
+  shortName?: string;
+  role: string;
+  hwModel?: string;
+  firmware?: string;
+  region?: string;
+  modemPreset: string;
+  hasDefaultChannel: boolean;
+  latitudeI?: number; // degrees * 1e7, rounded to positionPrecision bits
+  longitudeI?: number;
+  altitude?: number;
+  positionPrecision?: number;
+  onlineLocalNodes?: number;
+}
+
+// A report as heard, with the packet that carried it
+export interface NodeMapReport extends MapReport {
+  nodeId: number;
+  packetId: number;
+  time: number; // ms since epoch
+}
+
+export function readMapReport(payload: DecodedPayload): MapReport {
+  // Proto3 leaves a zero coordinate off the wire, so one missing axis is the
+  // equator or the prime meridian. Only 0,0 is what nodes without a fix (or
+  // that opted out of location) send.
+  const latitudeI = numberField(payload, 'latitude_i') ?? 0;
+  const longitudeI = numberField(payload, 'longitude_i') ?? 0;
+  const hasPosition = latitudeI !== 0 || longitudeI !== 0;
+  const region = enumField(payload, 'region', REGION_CODES);
+  return {
+    longName: stringField(payload, 'long_name'),
+    shortName: stringField(payload, 'short_name'),
+    // Proto3 leaves zero values off the wire: CLIENT, LONG_FAST and UNSET
+    role: enumField(payload, 'role', DEVICE_ROLES) ?? DEVICE_ROLES[0],
+    hwModel: enumField(payload, 'hw_model', HARDWARE_MODELS),
+    firmware: stringField(payload, 'firmware_version'),
+    region: region === REGION_CODES[0] ? undefined : region,
+    modemPreset: enumField(payload, 'modem_preset', MODEM_PRESETS) ?? MODEM_PRESETS[0],
+    hasDefaultChannel: payload.has_default_channel === true,
+    latitudeI: hasPosition ? latitudeI : undefined,
+    longitudeI: hasPosition ? longitudeI : undefined,
+    altitude: numberField(payload, 'altitude'),
+    positionPrecision: numberField(payload, 'position_precision'),
+    onlineLocalNodes: numberField(payload, 'num_online_local_nodes'),
+  };
+}
+
+// "LONG_FAST" -> "LongFast", as the Meshtastic apps name presets
+export function formatModemPreset(preset: string): string {
+  return preset.toLowerCase().replace(/(^|_)([a-z])/g, (_, _sep, letter: string) => letter.toUpperCase());
+}
+
+// The newest report per node
+export function latestMapReports(reports: NodeMapReport[]): Map<number, NodeMapReport> {
+  const latest = new Map<number, NodeMapReport>();
+  reports.forEach(report => {
+    const current = latest.get(report.nodeId);
+    if (!current || report.time > current.time) latest.set(report.nodeId, report);
+  });
+  return latest;
+}
+
+// Whether two reports would merge into a node the same way; a node's hourly
+// re-reports usually do, and need not rebuild the node lookup
+export function sameMapReport(a: MapReport, b: MapReport): boolean {
+  return a.firmware === b.firmware &&
+    a.region === b.region &&
+    a.modemPreset === b.modemPreset &&
+    a.hasDefaultChannel === b.hasDefaultChannel &&
+    a.latitudeI === b.latitudeI &&
+    a.longitudeI === b.longitudeI;
+}
+
+// Nodes with the gaps their map reports can fill. What the server knows wins:
+// firmware only when it has none, and a position only for nodes without one,
+// marked approximate. Unchanged nodes keep their identity.
+export function mergeMapReports(nodes: Node[], reports: Map<number, NodeMapReport>): Node[] {
+  if (reports.size === 0) return nodes;
+  return nodes.map(node => {
+    const report = reports.get(node.node_id);
+    if (!report) return node;
+
+    const merged: Node = {
+      ...node,
+      firmware: node.firmware || report.firmware || null,
+      modem_preset: report.modemPreset,
+      region: report.region,
+      has_default_channel: report.hasDefaultChannel,
+    };
+    // No position, or 0,0 for no fix
+    const hasPosition = node.last_lat !== null && node.last_long !== null &&
+      !(node.last_lat === 0 && node.last_long === 0);
+    if (!hasPosition && report.latitudeI !== undefined && report.longitudeI !== undefined) {
+      merged.last_lat = report.latitudeI;
+      merged.last_long = report.longitudeI;
+      merged.position_approximate = true;
+    }
+    return merged;
+  });
+}
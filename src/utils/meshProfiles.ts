@@ -0,0 +1,105 @@
+// Mesh profiles let a single build point at different meshQL backends.
+// Each profile bundles the REST base URL, WebSocket URL, map defaults and
+// default channel for one mesh. The active profile is stored in localStorage.
+
+export interface MeshProfile {
+  id: string;
+  name: string;
+  apiBaseUrl: string;
+  websocketUrl: string;
+  defaultCenter: [number, number];
+  defaultZoom: number;
+  defaultChannel: string;
+}
+
+const ACTIVE_PROFILE_KEY = 'meshProfile';
+const CUSTOM_PROFILES_KEY = 'customMeshProfiles';
+
+// Offline demo backend served by the Vite mock plugin (mock/meshqlMock.ts).
+// Only offered where that plugin runs: the dev server, or a preview build made
+// with VITE_ENABLE_MOCK=true.
+const DEMO_PROFILE: MeshProfile = {
+  id: 'demo',
+  name: 'Local demo',
+  apiBaseUrl: `${window.location.origin}/mock`,
+  websocketUrl: `${window.location.origin.replace(/^http/, 'ws')}/mock/ws`,
+  defaultCenter: [37.6, -122.05],
+  defaultZoom: 10,
+  defaultChannel: '',
+};
+
+const MOCK_BACKEND_AVAILABLE = import.meta.env.DEV || import.meta.env.VITE_ENABLE_MOCK === 'true';
+
+// Profiles shipped with the app
+export const BUILT_IN_PROFILES: MeshProfile[] = [
+  {
+    id: 'baymesh',
+    name: 'Bay Area Mesh',
+    apiBaseUrl: 'https://meshql.bayme.sh',
+    websocketUrl: 'wss://meshql.bayme.sh/ws',
+    defaultCenter: [37.557593, -122.006219],
+    defaultZoom: 9,
+    defaultChannel: 'MediumFast',
+  },
+  ...(MOCK_BACKEND_AVAILABLE ? [DEMO_PROFILE] : []),
+];
+
+const DEFAULT_PROFILE = BUILT_IN_PROFILES[0];
+
+function isValidProfile(value: unknown): value is MeshProfile {
+  if (typeof value !== 'object' || value === null) return false;
+  const p = value as Record<string, unknown>;
+  return typeof p.id === 'string' &&
+    typeof p.name === 'string' &&
+    typeof p.apiBaseUrl === 'string' &&
+    typeof p.websocketUrl === 'string' &&
+    Array.isArray(p.defaultCenter) &&
+    p.defaultCenter.length === 2 &&
+    p.defaultCenter.every(coord => typeof coord === 'number') &&
+    typeof p.defaultZoom === 'number' &&
+    typeof p.defaultChannel === 'string';
+}
+
+// Load user-defined profiles, ignoring anything malformed
+export function getCustomProfiles(): MeshProfile[] {
+  try {
+    const saved = localStorage.getItem(CUSTOM_PROFILES_KEY);
+    if (!saved) return [];
+    const parsed: unknown = JSON.parse(saved);
+    return Array.isArray(parsed) ? parsed.filter(isValidProfile) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function getMeshProfiles(): MeshProfile[] {
+  return [...BUILT_IN_PROFILES, ...getCustomProfiles()];
+}
+
+// Add or replace a user-defined profile
+export function saveCustomProfile(profile: MeshProfile): void {
+  const others = getCustomProfiles().filter(p => p.id !== profile.id);
+  localStorage.setItem(CUSTOM_PROFILES_KEY, JSON.stringify([...others, profile]));
+}
+
+export function deleteCustomProfile(profileId: string): void {
+  const remaining = getCustomProfiles().filter(p => p.id !== profileId);
+  localStorage.setItem(CUSTOM_PROFILES_KEY, JSON.stringify(remaining));
+}
+
+export function getActiveProfile(): MeshProfile {
+  const activeId = localStorage.getItem(ACTIVE_PROFILE_KEY);
+  return getMeshProfiles().find(p => p.id === activeId) || DEFAULT_PROFILE;
+}
+
+// Switching meshes invalidates everything loaded so far (nodes, stats, channel
+// selection), so the caller is expected to reload the page afterwards.
+export function setActiveProfile(profileId: string): void {
+  localStorage.setItem(ACTIVE_PROFILE_KEY, profileId);
+  localStorage.removeItem('globalChannel');
+}
+
+// Derive a WebSocket URL from a REST base URL (https -> wss, http -> ws)
+export function deriveWebSocketUrl(apiBaseUrl: string): string {
+  return `${apiBaseUrl.replace(/\/+$/, '').replace(/^http/, 'ws')}/ws`;
+}
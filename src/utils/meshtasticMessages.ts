@@ -0,0 +1,611 @@
+// Meshtastic protobuf message definitions and a schema-driven decoder
+// Reference: https://buf.build/meshtastic/protobufs/docs/main:meshtastic
+//
+// Decoded payloads use the same shape as the server's decode_payload output
+// ({ type, ...snake_case fields }), so components can use either.
+
+import {
+  WIRE_LEN,
+  WIRE_VARINT,
+  WIRE_I32,
+  WIRE_I64,
+  decodeFields,
+  hexToBytes,
+  bytesToHex,
+  readFixed32,
+  readSfixed32,
+  readFloat,
+  readDouble,
+  readFixed64,
+  toUint32,
+  toInt32,
+  toSint32,
+  toSafeNumber,
+  readPackedVarints,
+  readPackedFixed,
+  decodeUtf8,
+} from './protobuf';
+import type { ProtoField } from './protobuf';
+
+export type ScalarType =
+  | 'uint32' | 'int32' | 'sint32' | 'uint64' | 'int64'
+  | 'bool' | 'enum'
+  | 'fixed32' | 'sfixed32' | 'float'
+  | 'fixed64' | 'double'
+  | 'string' | 'bytes';
+
+export interface FieldDef {
+  name: string;
+  type: ScalarType | 'message';
+  repeated?: boolean;
+  message?: MessageDef;              // for type 'message'
+  values?: Record<number, string>;   // for type 'enum'
+}
+
+export interface MessageDef {
+  name: string;
+  fields: Record<number, FieldDef>;
+}
+
+export type DecodedPayload = { type: string; [key: string]: unknown };
+
+// Enums
+
+export const HARDWARE_MODELS: Record<number, string> = {
+  0: 'UNSET', 1: 'TLORA_V2', 2: 'TLORA_V1', 3: 'TLORA_V2_1_1P6', 4: 'TBEAM',
+  5: 'HELTEC_V2_0', 6: 'TBEAM_V0P7', 7: 'T_ECHO', 8: 'TLORA_V1_1P3', 9: 'RAK4631',
+  10: 'HELTEC_V2_1', 11: 'HELTEC_V1', 12: 'LILYGO_TBEAM_S3_CORE', 13: 'RAK11200', 14: 'NANO_G1',
+  15: 'TLORA_V2_1_1P8', 16: 'TLORA_T3_S3', 17: 'NANO_G1_EXPLORER', 18: 'NANO_G2_ULTRA', 19: 'LORA_TYPE',
+  20: 'WIPHONE', 21: 'WIO_WM1110', 22: 'RAK2560', 23: 'HELTEC_HRU_3601', 24: 'HELTEC_WIRELESS_BRIDGE',
+  25: 'STATION_G1', 26: 'RAK11310', 27: 'SENSELORA_RP2040', 28: 'SENSELORA_S3', 29: 'CANARYONE',
+  30: 'RP2040_LORA', 31: 'STATION_G2', 32: 'LORA_RELAY_V1', 33: 'NRF52840DK', 34: 'PPR',
+  35: 'GENIEBLOCKS', 36: 'NRF52_UNKNOWN', 37: 'PORTDUINO', 38: 'ANDROID_SIM', 39: 'DIY_V1',
+  40: 'NRF52840_PCA10059', 41: 'DR_DEV', 42: 'M5STACK', 43: 'HELTEC_V3', 44: 'HELTEC_WSL_V3',
+  45: 'BETAFPV_2400_TX', 46: 'BETAFPV_900_NANO_TX', 47: 'RPI_PICO', 48: 'HELTEC_WIRELESS_TRACKER', 49: 'HELTEC_WIRELESS_PAPER',
+  50: 'T_DECK', 51: 'T_WATCH_S3', 52: 'PICOMPUTER_S3', 53: 'HELTEC_HT62', 54: 'EBYTE_ESP32_S3',
+  55: 'ESP32_S3_PICO', 56: 'CHATTER_2', 57: 'HELTEC_WIRELESS_PAPER_V1_0', 58: 'HELTEC_WIRELESS_TRACKER_V1_0', 59: 'UNPHONE',
+  60: 'TD_LORAC', 61: 'CDEBYTE_EORA_S3', 62: 'TWC_MESH_V4', 63: 'NRF52_PROMICRO_DIY', 64: 'RADIOMASTER_900_BANDIT_NANO',
+  65: 'HELTEC_CAPSULE_SENSOR_V3', 66: 'HELTEC_VISION_MASTER_T190', 67: 'HELTEC_VISION_MASTER_E213', 68: 'HELTEC_VISION_MASTER_E290', 69: 'HELTEC_MESH_NODE_T114',
+  70: 'SENSECAP_INDICATOR', 71: 'TRACKER_T1000_E',
+  255: 'PRIVATE_HW',
+};
+
+export const DEVICE_ROLES: Record<number, string> = {
+  0: 'CLIENT', 1: 'CLIENT_MUTE', 2: 'ROUTER', 3: 'ROUTER_CLIENT', 4: 'REPEATER', 5: 'TRACKER',
+  6: 'SENSOR', 7: 'TAK', 8: 'CLIENT_HIDDEN', 9: 'LOST_AND_FOUND', 10: 'TAK_TRACKER', 11: 'ROUTER_LATE',
+  12: 'CLIENT_BASE',
+};
+
+// Routing.error_reason is left numeric to match the server; use this for labels
+export const ROUTING_ERRORS: Record<number, string> = {
+  0: 'NONE', 1: 'NO_ROUTE', 2: 'GOT_NAK', 3: 'TIMEOUT', 4: 'NO_INTERFACE', 5: 'MAX_RETRANSMIT',
+  6: 'NO_CHANNEL', 7: 'TOO_LARGE', 8: 'NO_RESPONSE', 9: 'DUTY_CYCLE_LIMIT',
+  32: 'BAD_REQUEST', 33: 'NOT_AUTHORIZED', 34: 'PKI_FAILED', 35: 'PKI_UNKNOWN_PUBKEY',
+  36: 'ADMIN_BAD_SESSION_KEY', 37: 'ADMIN_PUBLIC_KEY_UNAUTHORIZED',
+};
+
+export const MODEM_PRESETS: Record<number, string> = {
+  0: 'LONG_FAST', 1: 'LONG_SLOW', 2: 'VERY_LONG_SLOW', 3: 'MEDIUM_SLOW', 4: 'MEDIUM_FAST',
+  5: 'SHORT_SLOW', 6: 'SHORT_FAST', 7: 'LONG_MODERATE', 8: 'SHORT_TURBO',
+};
+
+export const REGION_CODES: Record<number, string> = {
+  0: 'UNSET', 1: 'US', 2: 'EU_433', 3: 'EU_868', 4: 'CN', 5: 'JP', 6: 'ANZ', 7: 'KR', 8: 'TW',
+  9: 'RU', 10: 'IN', 11: 'NZ_865', 12: 'TH', 13: 'LORA_24', 14: 'UA_433', 15: 'UA_868',
+  16: 'MY_433', 17: 'MY_919', 18: 'SG_923', 19: 'PH_433', 20: 'PH_868', 21: 'PH_915',
+};
+
+const LOCATION_SOURCES: Record<number, string> = {
+  0: 'LOC_UNSET', 1: 'LOC_MANUAL', 2: 'LOC_INTERNAL', 3: 'LOC_EXTERNAL',
+};
+
+const ALTITUDE_SOURCES: Record<number, string> = {
+  0: 'ALT_UNSET', 1: 'ALT_MANUAL', 2: 'ALT_INTERNAL', 3: 'ALT_EXTERNAL', 4: 'ALT_BAROMETRIC',
+};
+
+// ATAK team colors and member roles, spelled as in atak.proto
+export const TAK_TEAMS: Record<number, string> = {
+  0: 'Unspecifed_Color', 1: 'White', 2: 'Yellow', 3: 'Orange', 4: 'Magenta', 5: 'Red', 6: 'Maroon',
+  7: 'Purple', 8: 'Dark_Blue', 9: 'Blue', 10: 'Cyan', 11: 'Teal', 12: 'Green', 13: 'Dark_Green', 14: 'Brown',
+};
+
+export const TAK_ROLES: Record<number, string> = {
+  0: 'Unspecifed', 1: 'TeamMember', 2: 'TeamLead', 3: 'HQ', 4: 'Sniper', 5: 'Medic',
+  6: 'ForwardObserver', 7: 'RTO', 8: 'K9',
+};
+
+// Messages
+
+export const POSITION: MessageDef = {
+  name: 'Position',
+  fields: {
+    1: { name: 'latitude_i', type: 'sfixed32' },
+    2: { name: 'longitude_i', type: 'sfixed32' },
+    3: { name: 'altitude', type: 'int32' },
+    4: { name: 'time', type: 'fixed32' },
+    5: { name: 'location_source', type: 'enum', values: LOCATION_SOURCES },
+    6: { name: 'altitude_source', type: 'enum', values: ALTITUDE_SOURCES },
+    7: { name: 'timestamp', type: 'fixed32' },
+    8: { name: 'timestamp_millis_adjust', type: 'int32' },
+    9: { name: 'altitude_hae', type: 'sint32' },
+    10: { name: 'altitude_geoidal_separation', type: 'sint32' },
+    11: { name: 'PDOP', type: 'uint32' },
+    12: { name: 'HDOP', type: 'uint32' },
+    13: { name: 'VDOP', type: 'uint32' },
+    14: { name: 'gps_accuracy', type: 'uint32' },
+    15: { name: 'ground_speed', type: 'uint32' },
+    16: { name: 'ground_track', type: 'uint32' },
+    17: { name: 'fix_quality', type: 'uint32' },
+    18: { name: 'fix_type', type: 'uint32' },
+    19: { name: 'sats_in_view', type: 'uint32' },
+    20: { name: 'sensor_id', type: 'uint32' },
+    21: { name: 'next_update', type: 'uint32' },
+    22: { name: 'seq_number', type: 'uint32' },
+    23: { name: 'precision_bits', type: 'uint32' },
+  },
+};
+
+export const USER: MessageDef = {
+  name: 'User',
+  fields: {
+    1: { name: 'id', type: 'string' },
+    2: { name: 'long_name', type: 'string' },
+    3: { name: 'short_name', type: 'string' },
+    4: { name: 'macaddr', type: 'bytes' },
+    5: { name: 'hw_model', type: 'enum', values: HARDWARE_MODELS },
+    6: { name: 'is_licensed', type: 'bool' },
+    7: { name: 'role', type: 'enum', values: DEVICE_ROLES },
+    8: { name: 'public_key', type: 'bytes' },
+    9: { name: 'is_unmessagable', type: 'bool' },
+  },
+};
+
+export const DEVICE_METRICS: MessageDef = {
+  name: 'DeviceMetrics',
+  fields: {
+    1: { name: 'battery_level', type: 'uint32' },
+    2: { name: 'voltage', type: 'float' },
+    3: { name: 'channel_utilization', type: 'float' },
+    4: { name: 'air_util_tx', type: 'float' },
+    5: { name: 'uptime_seconds', type: 'uint32' },
+  },
+};
+
+export const ENVIRONMENT_METRICS: MessageDef = {
+  name: 'EnvironmentMetrics',
+  fields: {
+    1: { name: 'temperature', type: 'float' },
+    2: { name: 'relative_humidity', type: 'float' },
+    3: { name: 'barometric_pressure', type: 'float' },
+    4: { name: 'gas_resistance', type: 'float' },
+    5: { name: 'voltage', type: 'float' },
+    6: { name: 'current', type: 'float' },
+    7: { name: 'iaq', type: 'uint32' },
+    8: { name: 'distance', type: 'float' },
+    9: { name: 'lux', type: 'float' },
+    10: { name: 'white_lux', type: 'float' },
+    11: { name: 'ir_lux', type: 'float' },
+    12: { name: 'uv_lux', type: 'float' },
+    13: { name: 'wind_direction', type: 'uint32' },
+    14: { name: 'wind_speed', type: 'float' },
+    15: { name: 'weight', type: 'float' },
+    16: { name: 'wind_gust', type: 'float' },
+    17: { name: 'wind_lull', type: 'float' },
+    18: { name: 'radiation', type: 'float' },
+    19: { name: 'rainfall_1h', type: 'float' },
+    20: { name: 'rainfall_24h', type: 'float' },
+    21: { name: 'soil_moisture', type: 'uint32' },
+    22: { name: 'soil_temperature', type: 'float' },
+  },
+};
+
+export const AIR_QUALITY_METRICS: MessageDef = {
+  name: 'AirQualityMetrics',
+  fields: {
+    1: { name: 'pm10_standard', type: 'uint32' },
+    2: { name: 'pm25_standard', type: 'uint32' },
+    3: { name: 'pm100_standard', type: 'uint32' },
+    4: { name: 'pm10_environmental', type: 'uint32' },
+    5: { name: 'pm25_environmental', type: 'uint32' },
+    6: { name: 'pm100_environmental', type: 'uint32' },
+    7: { name: 'particles_03um', type: 'uint32' },
+    8: { name: 'particles_05um', type: 'uint32' },
+    9: { name: 'particles_10um', type: 'uint32' },
+    10: { name: 'particles_25um', type: 'uint32' },
+    11: { name: 'particles_50um', type: 'uint32' },
+    12: { name: 'particles_100um', type: 'uint32' },
+    13: { name: 'co2', type: 'uint32' },
+  },
+};
+
+export const POWER_METRICS: MessageDef = {
+  name: 'PowerMetrics',
+  fields: {
+    1: { name: 'ch1_voltage', type: 'float' },
+    2: { name: 'ch1_current', type: 'float' },
+    3: { name: 'ch2_voltage', type: 'float' },
+    4: { name: 'ch2_current', type: 'float' },
+    5: { name: 'ch3_voltage', type: 'float' },
+    6: { name: 'ch3_current', type: 'float' },
+  },
+};
+
+export const LOCAL_STATS: MessageDef = {
+  name: 'LocalStats',
+  fields: {
+    1: { name: 'uptime_seconds', type: 'uint32' },
+    2: { name: 'channel_utilization', type: 'float' },
+    3: { name: 'air_util_tx', type: 'float' },
+    4: { name: 'num_packets_tx', type: 'uint32' },
+    5: { name: 'num_packets_rx', type: 'uint32' },
+    6: { name: 'num_packets_rx_bad', type: 'uint32' },
+    7: { name: 'num_online_nodes', type: 'uint32' },
+    8: { name: 'num_total_nodes', type: 'uint32' },
+    9: { name: 'num_rx_dupe', type: 'uint32' },
+    10: { name: 'num_tx_relay', type: 'uint32' },
+    11: { name: 'num_tx_relay_canceled', type: 'uint32' },
+  },
+};
+
+export const HEALTH_METRICS: MessageDef = {
+  name: 'HealthMetrics',
+  fields: {
+    1: { name: 'heart_bpm', type: 'uint32' },
+    2: { name: 'spO2', type: 'uint32' },
+    3: { name: 'temperature', type: 'float' },
+  },
+};
+
+export const TELEMETRY: MessageDef = {
+  name: 'Telemetry',
+  fields: {
+    1: { name: 'time', type: 'fixed32' },
+    2: { name: 'device_metrics', type: 'message', message: DEVICE_METRICS },
+    3: { name: 'environment_metrics', type: 'message', message: ENVIRONMENT_METRICS },
+    4: { name: 'air_quality_metrics', type: 'message', message: AIR_QUALITY_METRICS },
+    5: { name: 'power_metrics', type: 'message', message: POWER_METRICS },
+    6: { name: 'local_stats', type: 'message', message: LOCAL_STATS },
+    7: { name: 'health_metrics', type: 'message', message: HEALTH_METRICS },
+  },
+};
+
+export const NEIGHBOR: MessageDef = {
+  name: 'Neighbor',
+  fields: {
+    1: { name: 'node_id', type: 'uint32' },
+    2: { name: 'snr', type: 'float' },
+    3: { name: 'last_rx_time', type: 'fixed32' },
+    4: { name: 'node_broadcast_interval_secs', type: 'uint32' },
+  },
+};
+
+export const NEIGHBOR_INFO: MessageDef = {
+  name: 'NeighborInfo',
+  fields: {
+    1: { name: 'node_id', type: 'uint32' },
+    2: { name: 'last_sent_by_id', type: 'uint32' },
+    3: { name: 'node_broadcast_interval_secs', type: 'uint32' },
+    4: { name: 'neighbors', type: 'message', message: NEIGHBOR, repeated: true },
+  },
+};
+
+export const ROUTE_DISCOVERY: MessageDef = {
+  name: 'RouteDiscovery',
+  fields: {
+    1: { name: 'route', type: 'fixed32', repeated: true },
+    2: { name: 'snr_towards', type: 'int32', repeated: true },
+    3: { name: 'route_back', type: 'fixed32', repeated: true },
+    4: { name: 'snr_back', type: 'int32', repeated: true },
+  },
+};
+
+export const ROUTING: MessageDef = {
+  name: 'Routing',
+  fields: {
+    1: { name: 'route_request', type: 'message', message: ROUTE_DISCOVERY },
+    2: { name: 'route_reply', type: 'message', message: ROUTE_DISCOVERY },
+    3: { name: 'error_reason', type: 'uint32' },
+  },
+};
+
+export const WAYPOINT: MessageDef = {
+  name: 'Waypoint',
+  fields: {
+    1: { name: 'id', type: 'uint32' },
+    2: { name: 'latitude_i', type: 'sfixed32' },
+    3: { name: 'longitude_i', type: 'sfixed32' },
+    4: { name: 'expire', type: 'uint32' },
+    5: { name: 'locked_to', type: 'uint32' },
+    6: { name: 'name', type: 'string' },
+    7: { name: 'description', type: 'string' },
+    8: { name: 'icon', type: 'fixed32' },
+  },
+};
+
+const TAK_CONTACT: MessageDef = {
+  name: 'Contact',
+  fields: {
+    1: { name: 'callsign', type: 'string' },
+    2: { name: 'device_callsign', type: 'string' },
+  },
+};
+
+const TAK_GROUP: MessageDef = {
+  name: 'Group',
+  fields: {
+    1: { name: 'role', type: 'enum', values: TAK_ROLES },
+    2: { name: 'team', type: 'enum', values: TAK_TEAMS },
+  },
+};
+
+const TAK_STATUS: MessageDef = {
+  name: 'Status',
+  fields: {
+    1: { name: 'battery', type: 'uint32' },
+  },
+};
+
+const TAK_PLI: MessageDef = {
+  name: 'PLI',
+  fields: {
+    1: { name: 'latitude_i', type: 'sfixed32' },
+    2: { name: 'longitude_i', type: 'sfixed32' },
+    3: { name: 'altitude', type: 'int32' },
+    4: { name: 'speed', type: 'uint32' },
+    5: { name: 'course', type: 'uint32' },
+  },
+};
+
+const TAK_GEOCHAT: MessageDef = {
+  name: 'GeoChat',
+  fields: {
+    1: { name: 'message', type: 'string' },
+    2: { name: 'to', type: 'string' },
+    3: { name: 'to_callsign', type: 'string' },
+  },
+};
+
+// Compressed packets carry unishox2-packed strings, which aren't unpacked here
+export const TAK_PACKET: MessageDef = {
+  name: 'TAKPacket',
+  fields: {
+    1: { name: 'is_compressed', type: 'bool' },
+    2: { name: 'contact', type: 'message', message: TAK_CONTACT },
+    3: { name: 'group', type: 'message', message: TAK_GROUP },
+    4: { name: 'status', type: 'message', message: TAK_STATUS },
+    5: { name: 'pli', type: 'message', message: TAK_PLI },
+    6: { name: 'chat', type: 'message', message: TAK_GEOCHAT },
+    7: { name: 'detail', type: 'bytes' },
+  },
+};
+
+// Sent to the public map by nodes that opt in; the position is rounded to
+// position_precision bits
+export const MAP_REPORT: MessageDef = {
+  name: 'MapReport',
+  fields: {
+    1: { name: 'long_name', type: 'string' },
+    2: { name: 'short_name', type: 'string' },
+    3: { name: 'role', type: 'enum', values: DEVICE_ROLES },
+    4: { name: 'hw_model', type: 'enum', values: HARDWARE_MODELS },
+    5: { name: 'firmware_version', type: 'string' },
+    6: { name: 'region', type: 'enum', values: REGION_CODES },
+    7: { name: 'modem_preset', type: 'enum', values: MODEM_PRESETS },
+    8: { name: 'has_default_channel', type: 'bool' },
+    9: { name: 'latitude_i', type: 'sfixed32' },
+    10: { name: 'longitude_i', type: 'sfixed32' },
+    11: { name: 'altitude', type: 'int32' },
+    12: { name: 'position_precision', type: 'uint32' },
+    13: { name: 'num_online_local_nodes', type: 'uint32' },
+    14: { name: 'has_opted_report_location', type: 'bool' },
+  },
+};
+
+export const PAXCOUNT: MessageDef = {
+  name: 'Paxcount',
+  fields: {
+    1: { name: 'wifi', type: 'uint32' },
+    2: { name: 'ble', type: 'uint32' },
+    3: { name: 'uptime', type: 'uint32' },
+  },
+};
+
+// The decrypted contents of an encrypted MeshPacket
+export const DATA: MessageDef = {
+  name: 'Data',
+  fields: {
+    1: { name: 'portnum', type: 'uint32' },
+    2: { name: 'payload', type: 'bytes' },
+    3: { name: 'want_response', type: 'bool' },
+    4: { name: 'dest', type: 'fixed32' },
+    5: { name: 'source', type: 'fixed32' },
+    6: { name: 'request_id', type: 'fixed32' },
+    7: { name: 'reply_id', type: 'fixed32' },
+    8: { name: 'emoji', type: 'fixed32' },
+    9: { name: 'bitfield', type: 'uint32' },
+  },
+};
+
+export const CHANNEL_SETTINGS: MessageDef = {
+  name: 'ChannelSettings',
+  fields: {
+    1: { name: 'channel_num', type: 'uint32' },
+    2: { name: 'psk', type: 'bytes' },
+    3: { name: 'name', type: 'string' },
+    4: { name: 'id', type: 'fixed32' },
+    5: { name: 'uplink_enabled', type: 'bool' },
+    6: { name: 'downlink_enabled', type: 'bool' },
+  },
+};
+
+// Config.LoRaConfig, as far as it's shared in channel URLs
+export const LORA_CONFIG: MessageDef = {
+  name: 'LoRaConfig',
+  fields: {
+    1: { name: 'use_preset', type: 'bool' },
+    2: { name: 'modem_preset', type: 'enum', values: MODEM_PRESETS },
+    3: { name: 'bandwidth', type: 'uint32' },
+    4: { name: 'spread_factor', type: 'uint32' },
+    5: { name: 'coding_rate', type: 'uint32' },
+    6: { name: 'frequency_offset', type: 'float' },
+    7: { name: 'region', type: 'enum', values: REGION_CODES },
+    8: { name: 'hop_limit', type: 'uint32' },
+    9: { name: 'tx_enabled', type: 'bool' },
+    10: { name: 'tx_power', type: 'int32' },
+    11: { name: 'channel_num', type: 'uint32' },
+  },
+};
+
+// Encoded in the fragment of Meshtastic channel URLs (https://meshtastic.org/e/#...)
+export const CHANNEL_SET: MessageDef = {
+  name: 'ChannelSet',
+  fields: {
+    1: { name: 'settings', type: 'message', message: CHANNEL_SETTINGS, repeated: true },
+    2: { name: 'lora_config', type: 'message', message: LORA_CONFIG },
+  },
+};
+
+// Payload type for each port, keyed by portnum. Text, detection sensor and
+// range test packets have no protobuf wrapper.
+export const PORT_MESSAGES: Record<number, { type: string; message: MessageDef | null }> = {
+  1: { type: 'text', message: null },
+  3: { type: 'position', message: POSITION },
+  4: { type: 'nodeinfo', message: USER },
+  5: { type: 'routing', message: ROUTING },
+  8: { type: 'waypoint', message: WAYPOINT },
+  10: { type: 'detection_sensor', message: null },
+  34: { type: 'paxcounter', message: PAXCOUNT },
+  66: { type: 'range_test', message: null },
+  67: { type: 'telemetry', message: TELEMETRY },
+  70: { type: 'traceroute', message: ROUTE_DISCOVERY },
+  71: { type: 'neighborinfo', message: NEIGHBOR_INFO },
+  72: { type: 'atak', message: TAK_PACKET },
+  73: { type: 'map_report', message: MAP_REPORT },
+};
+
+// Floats are single precision on the wire; trim the noise (3.37 not 3.3699998)
+function roundFloat(value: number): number {
+  return Number.isFinite(value) ? Number(value.toPrecision(7)) : value;
+}
+
+function decodeVarintValue(def: FieldDef, value: bigint): unknown {
+  switch (def.type) {
+    case 'int32': return toInt32(value);
+    case 'sint32': return toSint32(value);
+    case 'uint64': return toSafeNumber(value);
+    case 'int64': return toSafeNumber(BigInt.asIntN(64, value));
+    case 'bool': return value !== 0n;
+    case 'enum': {
+      const n = toInt32(value);
+      return def.values?.[n] ?? n;
+    }
+    default: return toUint32(value);
+  }
+}
+
+function decodeFixedValue(def: FieldDef, data: Uint8Array): unknown {
+  switch (def.type) {
+    case 'sfixed32': return readSfixed32(data);
+    case 'float': return roundFloat(readFloat(data));
+    case 'double': return readDouble(data);
+    case 'fixed64': return toSafeNumber(readFixed64(data));
+    default: return readFixed32(data);
+  }
+}
+
+function isVarintType(type: FieldDef['type']): boolean {
+  return ['uint32', 'int32', 'sint32', 'uint64', 'int64', 'bool', 'enum'].includes(type);
+}
+
+function fixedWidth(type: FieldDef['type']): 4 | 8 | null {
+  if (type === 'fixed32' || type === 'sfixed32' || type === 'float') return 4;
+  if (type === 'fixed64' || type === 'double') return 8;
+  return null;
+}
+
+// Decode one field occurrence; packed repeated fields yield several values
+export function decodeFieldValues(def: FieldDef, field: ProtoField): unknown[] {
+  const width = fixedWidth(def.type);
+
+  if (field.wireType === WIRE_VARINT && field.varint !== undefined && isVarintType(def.type)) {
+    return [decodeVarintValue(def, field.varint)];
+  }
+  if ((field.wireType === WIRE_I32 && width === 4) || (field.wireType === WIRE_I64 && width === 8)) {
+    return [decodeFixedValue(def, field.data)];
+  }
+  if (field.wireType === WIRE_LEN) {
+    if (def.type === 'message' && def.message) {
+      return [decodeMessage(field.data, def.message, field.dataOffset)];
+    }
+    if (def.type === 'string') {
+      return [decodeUtf8(field.data) ?? bytesToHex(field.data)];
+    }
+    if (def.type === 'bytes') {
+      return [bytesToHex(field.data)];
+    }
+    if (def.repeated && isVarintType(def.type)) {
+      return readPackedVarints(field.data).map(v => decodeVarintValue(def, v));
+    }
+    if (def.repeated && width !== null) {
+      return readPackedFixed(field.data, width).map(d => decodeFixedValue(def, d));
+    }
+  }
+
+  // Wire type doesn't match the definition; leave it out rather than guess
+  return [];
+}
+
+// Decode a message against its definition. Fields not in the definition
+// are skipped; proto3 defaults (0, '', false) are absent as on the wire.
+export function decodeMessage(bytes: Uint8Array, def: MessageDef, baseOffset: number = 0): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const field of decodeFields(bytes, baseOffset)) {
+    const fieldDef = def.fields[field.fieldNumber];
+    if (!fieldDef) continue;
+
+    const values = decodeFieldValues(fieldDef, field);
+    if (values.length === 0) continue;
+
+    if (fieldDef.repeated) {
+      const existing = (result[fieldDef.name] as unknown[] | undefined) ?? [];
+      result[fieldDef.name] = [...existing, ...values];
+    } else {
+      result[fieldDef.name] = values[values.length - 1];
+    }
+  }
+
+  return result;
+}
+
+// Decode a packet's payload_hex for the given port. Returns null for ports
+// we have no definition for, or if the bytes don't decode (e.g. encrypted).
+export function decodePortPayload(portnum: number, payloadHex: string | undefined | null): DecodedPayload | null {
+  const port = PORT_MESSAGES[portnum];
+  if (!port || !payloadHex) return null;
+
+  try {
+    const bytes = hexToBytes(payloadHex);
+    if (port.message === null) {
+      const text = decodeUtf8(bytes);
+      return text === null ? null : { type: port.type, text };
+    }
+    return { type: port.type, ...decodeMessage(bytes, port.message) };
+  } catch (err) {
+    console.warn(`Could not decode ${port.type} payload:`, err);
+    return null;
+  }
+}
+
+// Prefer the server's decoded payload; fall back to decoding payload_hex locally
+export function resolvePayload(
+  portnum: number,
+  payload: string | DecodedPayload | null | undefined,
+  payloadHex: string | undefined | null
+): { payload: DecodedPayload | null; decodedLocally: boolean } {
+  if (typeof payload === 'object' && payload !== null) {
+    return { payload, decodedLocally: false };
+  }
+  const decoded = decodePortPayload(portnum, payloadHex);
+  return { payload: decoded, decodedLocally: decoded !== null };
+}
@@ -0,0 +1,212 @@
+// Protobuf wire-format decoding
+// Reference: https://protobuf.dev/programming-guides/encoding/
+//
+// This works on raw bytes without a schema: it splits a message into fields
+// and keeps the byte offsets of each one. Interpreting the values (signed vs
+// unsigned, float, nested message) is up to the caller, see meshtasticMessages.ts
+
+export const WIRE_VARINT = 0;
+export const WIRE_I64 = 1;
+export const WIRE_LEN = 2;
+export const WIRE_I32 = 5;
+
+export const WIRE_TYPE_NAMES: Record<number, string> = {
+  [WIRE_VARINT]: 'varint',
+  [WIRE_I64]: 'i64',
+  [WIRE_LEN]: 'len',
+  [WIRE_I32]: 'i32',
+};
+
+export class ProtobufDecodeError extends Error {
+  offset: number;
+
+  constructor(message: string, offset: number) {
+    super(`${message} at byte ${offset}`);
+    this.name = 'ProtobufDecodeError';
+    this.offset = offset;
+  }
+}
+
+export interface ProtoField {
+  fieldNumber: number;
+  wireType: number;
+  offset: number;      // first byte of the field's tag
+  dataOffset: number;  // first byte of the value, after the tag and any length prefix
+  end: number;         // one past the last byte of the value
+  data: Uint8Array;    // the value's bytes (for len fields, the contents only)
+  varint?: bigint;     // decoded value for varint fields
+}
+
+// Convert a hex string to bytes, ignoring whitespace
+export function hexToBytes(hex: string): Uint8Array {
+  const clean = hex.replace(/\s+/g, '');
+  if (clean.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(clean)) {
+    throw new ProtobufDecodeError('Invalid hex string', 0);
+  }
+  const bytes = new Uint8Array(clean.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(clean.substring(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Read a varint starting at pos; returns the value and the position after it
+export function readVarint(bytes: Uint8Array, pos: number): { value: bigint; next: number } {
+  let value = 0n;
+  let shift = 0n;
+  for (let i = pos; i < bytes.length && i < pos + 10; i++) {
+    const b = bytes[i];
+    value |= BigInt(b & 0x7f) << shift;
+    if ((b & 0x80) === 0) {
+      return { value: BigInt.asUintN(64, value), next: i + 1 };
+    }
+    shift += 7n;
+  }
+  throw new ProtobufDecodeError('Truncated varint', pos);
+}
+
+// Split a message into its fields. Offsets are relative to baseOffset so
+// nested messages can report positions within the outer buffer.
+export function decodeFields(bytes: Uint8Array, baseOffset: number = 0): ProtoField[] {
+  const fields: ProtoField[] = [];
+  let pos = 0;
+
+  while (pos < bytes.length) {
+    const start = pos;
+    const tag = readVarint(bytes, pos);
+    pos = tag.next;
+
+    const fieldNumber = Number(tag.value >> 3n);
+    const wireType = Number(tag.value & 7n);
+    if (fieldNumber === 0) {
+      throw new ProtobufDecodeError('Invalid field number 0', baseOffset + start);
+    }
+
+    let dataStart = pos;
+    let varint: bigint | undefined;
+
+    switch (wireType) {
+      case WIRE_VARINT: {
+        const v = readVarint(bytes, pos);
+        varint = v.value;
+        pos = v.next;
+        break;
+      }
+      case WIRE_I64:
+        pos += 8;
+        break;
+      case WIRE_I32:
+        pos += 4;
+        break;
+      case WIRE_LEN: {
+        const len = readVarint(bytes, pos);
+        dataStart = len.next;
+        pos = len.next + Number(len.value);
+        break;
+      }
+      default:
+        // Groups (3/4) are deprecated and never used by Meshtastic
+        throw new ProtobufDecodeError(`Unsupported wire type ${wireType}`, baseOffset + start);
+    }
+
+    if (pos > bytes.length) {
+      throw new ProtobufDecodeError(`Truncated field ${fieldNumber}`, baseOffset + start);
+    }
+
+    fields.push({
+      fieldNumber,
+      wireType,
+      offset: baseOffset + start,
+      dataOffset: baseOffset + dataStart,
+      end: baseOffset + pos,
+      data: bytes.subarray(dataStart, pos),
+      varint,
+    });
+  }
+
+  return fields;
+}
+
+// Scalar readers for fixed-width values (little-endian)
+
+function view(data: Uint8Array): DataView {
+  return new DataView(data.buffer, data.byteOffset, data.byteLength);
+}
+
+export function readFixed32(data: Uint8Array): number {
+  return view(data).getUint32(0, true);
+}
+
+export function readSfixed32(data: Uint8Array): number {
+  return view(data).getInt32(0, true);
+}
+
+export function readFloat(data: Uint8Array): number {
+  return view(data).getFloat32(0, true);
+}
+
+export function readDouble(data: Uint8Array): number {
+  return view(data).getFloat64(0, true);
+}
+
+export function readFixed64(data: Uint8Array): bigint {
+  return view(data).getBigUint64(0, true);
+}
+
+// Varint interpretations
+
+export function toUint32(value: bigint): number {
+  return Number(BigInt.asUintN(32, value));
+}
+
+export function toInt32(value: bigint): number {
+  return Number(BigInt.asIntN(32, value));
+}
+
+export function toSint32(value: bigint): number {
+  const n = Number(BigInt.asUintN(32, value));
+  return (n >>> 1) ^ -(n & 1);
+}
+
+// 64-bit values are returned as numbers when they fit, otherwise as strings
+export function toSafeNumber(value: bigint): number | string {
+  return value <= BigInt(Number.MAX_SAFE_INTEGER) && value >= BigInt(Number.MIN_SAFE_INTEGER)
+    ? Number(value)
+    : value.toString();
+}
+
+// Packed repeated fields store several values back to back in one len field
+export function readPackedVarints(data: Uint8Array): bigint[] {
+  const values: bigint[] = [];
+  let pos = 0;
+  while (pos < data.length) {
+    const v = readVarint(data, pos);
+    values.push(v.value);
+    pos = v.next;
+  }
+  return values;
+}
+
+export function readPackedFixed(data: Uint8Array, width: 4 | 8): Uint8Array[] {
+  if (data.length % width !== 0) {
+    throw new ProtobufDecodeError(`Packed field length ${data.length} is not a multiple of ${width}`, 0);
+  }
+  const values: Uint8Array[] = [];
+  for (let pos = 0; pos < data.length; pos += width) {
+    values.push(data.subarray(pos, pos + width));
+  }
+  return values;
+}
+
+// Decode UTF-8, returning null if the bytes aren't valid text
+export function decodeUtf8(data: Uint8Array): string | null {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(data);
+  } catch {
+    return null;
+  }
+}
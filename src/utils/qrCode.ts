@@ -0,0 +1,37 @@
+import jsQR from 'jsqr';
+
+// Photos are scaled down to this before scanning; QR codes stay readable and
+// jsQR gets much slower on large images
+const MAX_SCAN_SIZE = 1024;
+
+// Read the text of the QR code in an image file (e.g. a screenshot of the
+// channel QR code from the Meshtastic app)
+export async function readQrCode(file: Blob): Promise<string> {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    throw new Error('The file is not an image');
+  }
+
+  const scale = Math.min(1, MAX_SCAN_SIZE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    bitmap.close();
+    throw new Error('Could not read the image');
+  }
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const code = jsQR(context.getImageData(0, 0, width, height).data, width, height);
+  if (!code) {
+    throw new Error('No QR code found in the image');
+  }
+  return code.data;
+}
@@ -0,0 +1,152 @@
+// Range test (RANGE_TEST_APP) analysis: a sender broadcasts "seq N" at a fixed
+// interval while it moves, and each gateway that hears a packet reports it.
+// Packets are grouped into sessions per sender and summarized by range and loss.
+
+import { calculateDistance } from './geo';
+
+export interface RangeTestReception {
+  gatewayId: number;
+  snr?: number;
+  rssi?: number;
+  hops?: number;
+  gatewayPosition: [number, number] | null;
+  distance: number | null; // miles from the sender
+}
+
+export interface RangeTestPacket {
+  packetId: number;
+  seq: number | null;
+  time: number; // ms since epoch
+  senderPosition: [number, number] | null;
+  receptions: RangeTestReception[];
+}
+
+// A packet as listed, before its receptions are loaded
+export interface RangeTestListing {
+  packetId: number;
+  senderId: number;
+  seq: number | null;
+  time: number;
+}
+
+export interface RangeTestSession {
+  id: string;
+  senderId: number;
+  start: number;
+  end: number;
+  packets: RangeTestListing[]; // oldest first
+}
+
+export interface RangeTestSummary {
+  received: number;
+  expected: number | null; // from the sequence numbers, when present
+  lossPercent: number | null;
+  maxDistance: { miles: number; gatewayId: number; packetId: number } | null;
+  bestSnr: number | null;
+  worstSnr: number | null;
+  gateways: number;
+}
+
+// A longer pause than this between packets starts a new session
+export const SESSION_GAP_MS = 30 * 60 * 1000;
+
+// The firmware's payload is "seq 42"
+export function parseRangeTestSeq(text: string | undefined): number | null {
+  const match = text?.match(/^seq (\d+)/);
+  return match ? Number(match[1]) : null;
+}
+
+// Split each sender's packets into sessions at long pauses and at sequence
+// resets (the sender rebooted or restarted the test). Newest session first.
+export function groupRangeTestSessions(listings: RangeTestListing[]): RangeTestSession[] {
+  const bySender = new Map<number, RangeTestListing[]>();
+  listings.forEach(listing => {
+    const packets = bySender.get(listing.senderId) ?? [];
+    packets.push(listing);
+    bySender.set(listing.senderId, packets);
+  });
+
+  const sessions: RangeTestSession[] = [];
+  bySender.forEach((packets, senderId) => {
+    packets.sort((a, b) => a.time - b.time);
+    let current: RangeTestListing[] = [];
+    const flush = () => {
+      if (current.length === 0) return;
+      sessions.push({
+        id: `${senderId}-${current[0].time}`,
+        senderId,
+        start: current[0].time,
+        end: current[current.length - 1].time,
+        packets: current,
+      });
+      current = [];
+    };
+
+    packets.forEach(packet => {
+      const previous = current[current.length - 1];
+      if (previous) {
+        const paused = packet.time - previous.time > SESSION_GAP_MS;
+        const reset = packet.seq !== null && previous.seq !== null && packet.seq < previous.seq;
+        if (paused || reset) flush();
+      }
+      current.push(packet);
+    });
+    flush();
+  });
+
+  return sessions.sort((a, b) => b.end - a.end);
+}
+
+// Fill in each reception's distance from where the sender was at the time
+export function withDistances(packet: RangeTestPacket): RangeTestPacket {
+  const sender = packet.senderPosition;
+  return {
+    ...packet,
+    receptions: packet.receptions.map(reception => ({
+      ...reception,
+      distance: sender && reception.gatewayPosition
+        ? calculateDistance(sender[0], sender[1], reception.gatewayPosition[0], reception.gatewayPosition[1])
+        : null,
+    })),
+  };
+}
+
+// Delivery comes from every packet listed in the session; range and signal
+// from the packets whose receptions were loaded
+export function summarizeRangeTest(listings: RangeTestListing[], packets: RangeTestPacket[]): RangeTestSummary {
+  const seqs = new Set(listings.map(listing => listing.seq).filter((seq): seq is number => seq !== null));
+  let expected: number | null = null;
+  let lossPercent: number | null = null;
+  if (seqs.size > 0) {
+    const values = Array.from(seqs);
+    expected = Math.max(...values) - Math.min(...values) + 1;
+    lossPercent = (1 - seqs.size / expected) * 100;
+  }
+
+  let maxDistance: RangeTestSummary['maxDistance'] = null;
+  let bestSnr: number | null = null;
+  let worstSnr: number | null = null;
+  const gateways = new Set<number>();
+  packets.forEach(packet => {
+    packet.receptions.forEach(reception => {
+      gateways.add(reception.gatewayId);
+      if (reception.distance !== null && (!maxDistance || reception.distance > maxDistance.miles)) {
+        maxDistance = { miles: reception.distance, gatewayId: reception.gatewayId, packetId: packet.packetId };
+      }
+      if (reception.snr !== undefined) {
+        bestSnr = bestSnr === null ? reception.snr : Math.max(bestSnr, reception.snr);
+        worstSnr = worstSnr === null ? reception.snr : Math.min(worstSnr, reception.snr);
+      }
+    });
+  });
+
+  return {
+    received: listings.length,
+    expected,
+    lossPercent,
+    maxDistance,
+    bestSnr,
+    worstSnr,
+    gateways: gateways.size,
+  };
+}
@@ -0,0 +1,122 @@
+// Routing (ROUTING_APP) analysis. Each ACK or NAK is addressed to the node whose
+// message it answers, so the destination is the requesting node and a non-zero
+// error_reason means its message failed.
+
+import { messageField } from '../ports/fields';
+import { ROUTING_ERRORS } from './meshtasticMessages';
+import type { DecodedPayload } from './meshtasticMessages';
+
+export interface RoutingEvent {
+  packetId: number;
+  time: number; // ms since epoch
+  fromNodeId: number; // the node reporting the outcome
+  requesterId: number; // the node whose message it answers
+  channel: string;
+  reason: number; // 0 is an ACK
+}
+
+export interface RoutingReasonCount {
+  reason: number;
+  count: number;
+}
+
+export interface RoutingNodeCount {
+  nodeId: number;
+  acks: number;
+  naks: number;
+}
+
+export interface RoutingTimeBucket {
+  start: number;
+  naks: RoutingReasonCount[];
+  total: number; // NAKs in the bucket
+}
+
+export interface NakSummary {
+  acks: number;
+  naks: number;
+  nakPercent: number | null;
+  reasons: RoutingReasonCount[];
+}
+
+const ERROR_CODES = new Map(Object.entries(ROUTING_ERRORS).map(([code, name]) => [name, Number(code)]));
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// The error reason of an ACK/NAK, or null for route discovery packets. The
+// server sends the enum as a number; names are accepted too.
+export function routingErrorReason(payload: DecodedPayload): number | null {
+  if (messageField(payload, 'route_request') || messageField(payload, 'route_reply')) return null;
+  // error_reason is absent (NONE) on a plain ack
+  const reason = payload.error_reason ?? 0;
+  if (typeof reason === 'number') return reason;
+  if (typeof reason === 'string') return ERROR_CODES.get(reason) ?? null;
+  return null;
+}
+
+export function routingErrorLabel(reason: number): string {
+  return ROUTING_ERRORS[reason] ?? `Error ${reason}`;
+}
+
+// NAK counts per error reason, most common first
+export function routingErrorsByReason(events: RoutingEvent[]): RoutingReasonCount[] {
+  const counts = new Map<number, number>();
+  events.forEach(event => {
+    if (event.reason !== 0) counts.set(event.reason, (counts.get(event.reason) ?? 0) + 1);
+  });
+  return Array.from(counts, ([reason, count]) => ({ reason, count })).sort((a, b) => b.count - a.count);
+}
+
+// ACKs and NAKs per requesting node, most NAKed first
+export function routingErrorsByNode(events: RoutingEvent[]): RoutingNodeCount[] {
+  const counts = new Map<number, RoutingNodeCount>();
+  events.forEach(event => {
+    const entry = counts.get(event.requesterId) ?? { nodeId: event.requesterId, acks: 0, naks: 0 };
+    if (event.reason === 0) entry.acks++;
+    else entry.naks++;
+    counts.set(event.requesterId, entry);
+  });
+  return Array.from(counts.values())
+    .filter(entry => entry.naks > 0)
+    .sort((a, b) => b.naks - a.naks || a.acks - b.acks);
+}
+
+// NAKs per hour, or per day over spans longer than two days
+export function routingErrorTimeline(events: RoutingEvent[]): RoutingTimeBucket[] {
+  if (events.length === 0) return [];
+  const times = events.map(event => event.time);
+  const first = Math.min(...times);
+  const last = Math.max(...times);
+  const size = last - first > 2 * DAY_MS ? DAY_MS : HOUR_MS;
+  // Days start at local midnight; the extra hour steps over DST changes
+  const bucketStart = (time: number) => {
+    if (size === HOUR_MS) return Math.floor(time / HOUR_MS) * HOUR_MS;
+    const date = new Date(time);
+    date.setHours(0, 0, 0, 0);
+    return date.getTime();
+  };
+  const nextStart = (start: number) => (size === HOUR_MS ? start + HOUR_MS : bucketStart(start + DAY_MS + HOUR_MS));
+
+  const buckets = new Map<number, RoutingEvent[]>();
+  for (let start = bucketStart(first); start <= last; start = nextStart(start)) {
+    buckets.set(start, []);
+  }
+  events.forEach(event => buckets.get(bucketStart(event.time))?.push(event));
+
+  return Array.from(buckets, ([start, bucketEvents]) => {
+    const naks = routingErrorsByReason(bucketEvents);
+    return { start, naks, total: naks.reduce((sum, entry) => sum + entry.count, 0) };
+  });
+}
+
+// How a node's own messages fared: the ACKs and NAKs addressed to it
+export function nakSummary(events: RoutingEvent[], nodeId: number): NakSummary {
+  const answers = events.filter(event => event.requesterId === nodeId);
+  const naks = answers.filter(event => event.reason !== 0).length;
+  return {
+    acks: answers.length - naks,
+    naks,
+    nakPercent: answers.length > 0 ? (naks / answers.length) * 100 : null,
+    reasons: routingErrorsByReason(answers),
+  };
+}
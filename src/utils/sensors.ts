@@ -0,0 +1,40 @@
+// Paxcounter (PAXCOUNTER_APP) and detection sensor (DETECTION_SENSOR_APP)
+// payloads. Paxcounters report how many WiFi and BLE devices they see nearby;
+// detection sensors send a line of text when their input pin triggers.
+
+import { numberField, stringField } from '../ports/fields';
+import type { DecodedPayload } from './meshtasticMessages';
+
+export interface PaxcountReading {
+  wifi: number;
+  ble: number;
+  uptime?: number; // seconds
+}
+
+export interface PaxcountSample extends PaxcountReading {
+  packetId: number;
+  nodeId: number;
+  time: number; // ms since epoch
+}
+
+export interface DetectionEvent {
+  packetId: number;
+  nodeId: number;
+  channel: string;
+  text: string;
+  time: number; // ms since epoch
+}
+
+// A count of zero is the proto default and may be left out
+export function readPaxcount(payload: DecodedPayload): PaxcountReading | null {
+  const wifi = numberField(payload, 'wifi');
+  const ble = numberField(payload, 'ble');
+  const uptime = numberField(payload, 'uptime');
+  if (wifi === undefined && ble === undefined && uptime === undefined) return null;
+  return { wifi: wifi ?? 0, ble: ble ?? 0, uptime };
+}
+
+// The firmware sends the sensor's name and state, e.g. "Gate 2 detected"
+export function readDetectionText(payload: DecodedPayload): string | null {
+  return stringField(payload, 'text') ?? null;
+}
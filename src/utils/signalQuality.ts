@@ -0,0 +1,85 @@
+// Signal quality ratings for RSSI and SNR. What counts as a good signal
+// depends on the channel's modem preset: slower presets decode further below
+// the noise floor.
+
+import { getChannelKeys } from './channelKeys';
+
+export interface QualityThresholds {
+  excellent: number;
+  good: number;
+  fair: number;
+  marginal: number;
+}
+
+export interface SignalQuality {
+  label: string;
+  color: string;
+}
+
+// RSSI thresholds by channel preset (in dBm)
+export const RSSI_THRESHOLDS: Record<string, QualityThresholds> = {
+  ShortTurbo: { excellent: -70, good: -85, fair: -95, marginal: -105 },
+  ShortFast: { excellent: -72, good: -88, fair: -98, marginal: -110 },
+  ShortSlow: { excellent: -75, good: -90, fair: -102, marginal: -115 },
+  MediumFast: { excellent: -78, good: -92, fair: -105, marginal: -120 },
+  MediumSlow: { excellent: -80, good: -95, fair: -110, marginal: -125 },
+  LongFast: { excellent: -85, good: -100, fair: -115, marginal: -130 },
+  LongSlow: { excellent: -90, good: -105, fair: -120, marginal: -135 },
+  default: { excellent: -78, good: -92, fair: -105, marginal: -120 }, // Use MediumFast as default
+};
+
+// SNR thresholds by channel preset (in dB)
+export const SNR_THRESHOLDS: Record<string, QualityThresholds> = {
+  ShortTurbo: { excellent: 8, good: 3, fair: -2, marginal: -7.5 },
+  ShortFast: { excellent: 8, good: 3, fair: -2, marginal: -7.5 },
+  ShortSlow: { excellent: 8, good: 2, fair: -3, marginal: -10 },
+  MediumFast: { excellent: 8, good: 3, fair: -4, marginal: -12.5 },
+  MediumSlow: { excellent: 8, good: 3, fair: -5, marginal: -15 },
+  LongFast: { excellent: 6, good: 1, fair: -6, marginal: -17.5 },
+  LongModerate: { excellent: 6, good: 1, fair: -7, marginal: -19 },
+  LongSlow: { excellent: 5, good: 0, fair: -8, marginal: -20 },
+  default: { excellent: 8, good: 3, fair: -4, marginal: -12.5 },
+};
+
+export const QUALITY_COLORS = {
+  excellent: '#22c55e',
+  good: '#84cc16',
+  fair: '#eab308',
+  marginal: '#f97316',
+  poor: '#ef4444',
+  unknown: '#6b7280',
+};
+
+// The modem preset a channel runs on. Unnamed public channels go by their
+// preset's name; private channels have one if they came from a channel URL.
+export function getChannelPreset(channel?: string): string | null {
+  if (!channel) return null;
+  if (SNR_THRESHOLDS[channel] && channel !== 'default') return channel;
+  return getChannelKeys().find(key => key.name === channel)?.preset ?? null;
+}
+
+export function getRssiThresholds(channel?: string): QualityThresholds {
+  return RSSI_THRESHOLDS[getChannelPreset(channel) ?? 'default'] ?? RSSI_THRESHOLDS.default;
+}
+
+export function getSnrThresholds(channel?: string): QualityThresholds {
+  return SNR_THRESHOLDS[getChannelPreset(channel) ?? 'default'] ?? SNR_THRESHOLDS.default;
+}
+
+function rate(value: number | undefined, thresholds: QualityThresholds): SignalQuality {
+  if (value === undefined) return { label: 'Unknown', color: QUALITY_COLORS.unknown };
+
+  if (value >= thresholds.excellent) return { label: 'Excellent', color: QUALITY_COLORS.excellent };
+  if (value >= thresholds.good) return { label: 'Good', color: QUALITY_COLORS.good };
+  if (value >= thresholds.fair) return { label: 'Fair', color: QUALITY_COLORS.fair };
+  if (value >= thresholds.marginal) return { label: 'Marginal', color: QUALITY_COLORS.marginal };
+  return { label: 'Poor', color: QUALITY_COLORS.poor };
+}
+
+export function getRssiQuality(rssi: number | undefined, channel?: string): SignalQuality {
+  return rate(rssi, getRssiThresholds(channel));
+}
+
+export function getSnrQuality(snr: number | undefined, channel?: string): SignalQuality {
+  return rate(snr, getSnrThresholds(channel));
+}
@@ -0,0 +1,108 @@
+// ATAK plugin (ATAK_PLUGIN) packets: TAKPacket position reports (PLI) from
+// ATAK users bridged onto the mesh, with their callsign and team color
+
+import { COORDINATE_SCALE_FACTOR } from './constants';
+import { TAK_ROLES, TAK_TEAMS } from './meshtasticMessages';
+import type { DecodedPayload } from './meshtasticMessages';
+import { enumField, messageField, numberField, stringField } from '../ports/fields';
+
+export interface TakPli {
+  callsign?: string;
+  team?: string; // a TAK_TEAMS name
+  role?: string; // a TAK_ROLES name
+  battery?: number; // percent
+  lat: number;
+  lng: number;
+  altitude?: number; // meters
+  speed?: number; // m/s
+  course?: number; // degrees
+}
+
+// A PLI as heard, with the packet that carried it
+export interface TakPosition extends TakPli {
+  packetId: number;
+  nodeId: number;
+  time: number; // ms since epoch
+}
+
+// One TAK user's recent positions, oldest first
+export interface TakTrack {
+  nodeId: number;
+  positions: TakPosition[];
+  latest: TakPosition;
+}
+
+// ATAK's team colors
+const TEAM_COLORS: Record<string, string> = {
+  White: '#ffffff',
+  Yellow: '#ffff00',
+  Orange: '#ff7700',
+  Magenta: '#ff00ff',
+  Red: '#ff0000',
+  Maroon: '#7f0000',
+  Purple: '#7f007f',
+  Dark_Blue: '#00007f',
+  Blue: '#0000ff',
+  Cyan: '#00ffff',
+  Teal: '#007f7f',
+  Green: '#00ff00',
+  Dark_Green: '#007f00',
+  Brown: '#a0714f',
+};
+const DEFAULT_TEAM_COLOR = '#6b7280';
+
+export function teamColor(team: string | undefined): string {
+  return (team && TEAM_COLORS[team]) || DEFAULT_TEAM_COLOR;
+}
+
+// "Dark_Blue" -> "Dark Blue"; unset values read as nothing
+export function formatTakEnum(value: string | undefined): string | undefined {
+  if (!value || value.startsWith('Unspecifed')) return undefined;
+  return value.replace(/_/g, ' ').replace(/([a-z])([A-Z])/g, '$1 $2');
+}
+
+export function readTakPli(payload: DecodedPayload): TakPli | null {
+  const pli = messageField(payload, 'pli');
+  if (!pli) return null;
+  // Proto3 leaves a zero coordinate off the wire, so one missing axis is the
+  // equator or the prime meridian; only 0,0 is what ATAK sends without a fix
+  const latI = numberField(pli, 'latitude_i') ?? 0;
+  const lngI = numberField(pli, 'longitude_i') ?? 0;
+  if (latI === 0 && lngI === 0) return null;
+
+  const contact = messageField(payload, 'contact');
+  const group = messageField(payload, 'group');
+  const status = messageField(payload, 'status');
+  return {
+    // Compressed callsigns are unishox2-packed and not readable here
+    callsign: contact && payload.is_compressed !== true ? stringField(contact, 'callsign') : undefined,
+    team: group ? enumField(group, 'team', TAK_TEAMS) : undefined,
+    role: group ? enumField(group, 'role', TAK_ROLES) : undefined,
+    battery: status ? numberField(status, 'battery') : undefined,
+    lat: latI / COORDINATE_SCALE_FACTOR,
+    lng: lngI / COORDINATE_SCALE_FACTOR,
+    altitude: numberField(pli, 'altitude'),
+    speed: numberField(pli, 'speed'),
+    course: numberField(pli, 'course'),
+  };
+}
+
+// The GeoChat text of a TAK chat packet, if that's what it carries
+export function readTakChat(payload: DecodedPayload): string | null {
+  const chat = messageField(payload, 'chat');
+  return chat && payload.is_compressed !== true ? stringField(chat, 'message') ?? null : null;
+}
+
+// Group positions into a track per sending node, keeping the last few of each
+export function takTracks(positions: TakPosition[], maxPoints: number): TakTrack[] {
+  const byNode = new Map<number, TakPosition[]>();
+  [...positions].sort((a, b) => a.time - b.time).forEach(position => {
+    const track = byNode.get(position.nodeId) ?? [];
+    track.push(position);
+    byNode.set(position.nodeId, track);
+  });
+  return Array.from(byNode, ([nodeId, track]) => {
+    const recent = track.slice(-maxPoints);
+    return { nodeId, positions: recent, latest: recent[recent.length - 1] };
+  });
+}
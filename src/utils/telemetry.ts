@@ -0,0 +1,95 @@
+// Telemetry metric labels, units and formatting shared by the packet card,
+// the node telemetry charts and threshold alerts
+
+import type { DecodedPayload } from './meshtasticMessages';
+
+export interface MetricInfo {
+  label: string;
+  unit?: string;
+}
+
+// Label and unit for metrics; others are shown under their field name
+export const TELEMETRY_METRICS: Record<string, MetricInfo> = {
+  battery_level: { label: 'Battery', unit: '%' },
+  voltage: { label: 'Voltage', unit: 'V' },
+  current: { label: 'Current', unit: 'mA' },
+  channel_utilization: { label: 'Channel Utilization', unit: '%' },
+  air_util_tx: { label: 'Airtime (TX)', unit: '%' },
+  uptime_seconds: { label: 'Uptime' },
+  temperature: { label: 'Temperature', unit: '°C' },
+  relative_humidity: { label: 'Humidity', unit: '%' },
+  barometric_pressure: { label: 'Pressure', unit: 'hPa' },
+  gas_resistance: { label: 'Gas Resistance', unit: 'MΩ' },
+  iaq: { label: 'IAQ' },
+  lux: { label: 'Light', unit: 'lx' },
+  wind_speed: { label: 'Wind Speed', unit: 'm/s' },
+  wind_direction: { label: 'Wind Direction', unit: '°' },
+  pm25_standard: { label: 'PM2.5', unit: 'µg/m³' },
+  pm10_standard: { label: 'PM1.0', unit: 'µg/m³' },
+  pm100_standard: { label: 'PM10', unit: 'µg/m³' },
+  co2: { label: 'CO₂', unit: 'ppm' },
+  num_online_nodes: { label: 'Nodes Online' },
+  num_total_nodes: { label: 'Nodes Total' },
+  heart_bpm: { label: 'Heart Rate', unit: 'bpm' },
+  spO2: { label: 'SpO₂', unit: '%' },
+};
+
+// Telemetry carries one of these variants
+export const TELEMETRY_VARIANTS: Array<{ key: string; title: string }> = [
+  { key: 'device_metrics', title: 'Device Metrics' },
+  { key: 'environment_metrics', title: 'Environment' },
+  { key: 'air_quality_metrics', title: 'Air Quality' },
+  { key: 'power_metrics', title: 'Power' },
+  { key: 'local_stats', title: 'Local Stats' },
+  { key: 'health_metrics', title: 'Health' },
+];
+
+// battery_level above 100 means the node runs on external power
+export const EXTERNAL_POWER_LEVEL = 101;
+
+export function metricLabel(metric: string): string {
+  return TELEMETRY_METRICS[metric]?.label ?? metric;
+}
+
+// 3d 4h, 5h 12m, 42m
+export function formatDuration(seconds: number): string {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+}
+
+export function formatMetric(metric: string, value: number): string {
+  if (metric === 'battery_level' && value >= EXTERNAL_POWER_LEVEL) return 'Powered';
+  if (metric === 'uptime_seconds') return formatDuration(value);
+
+  const decimals = metric === 'voltage' ? 2 : 1;
+  const formatted = Number(value.toFixed(decimals)).toString();
+  const unit = TELEMETRY_METRICS[metric]?.unit;
+  if (!unit) return formatted;
+  return unit === '%' || unit === '°' ? `${formatted}${unit}` : `${formatted} ${unit}`;
+}
+
+export interface TelemetryReadings {
+  device: Record<string, number>;
+  environment: Record<string, number>;
+}
+
+function numericMetrics(value: unknown): Record<string, number> {
+  if (typeof value !== 'object' || value === null) return {};
+  return Object.fromEntries(
+    Object.entries(value).filter((entry): entry is [string, number] => typeof entry[1] === 'number' && Number.isFinite(entry[1]))
+  );
+}
+
+// Numeric device and environment metrics of a decoded telemetry payload;
+// null when it carries neither
+export function telemetryReadings(payload: DecodedPayload | null): TelemetryReadings | null {
+  if (!payload) return null;
+  const device = numericMetrics(payload.device_metrics);
+  const environment = numericMetrics(payload.environment_metrics);
+  if (Object.keys(device).length === 0 && Object.keys(environment).length === 0) return null;
+  return { device, environment };
+}
@@ -1,15 +1,64 @@
 /**
  * Parse traceroute payload from hex string
  * Traceroute packets contain a list of node IDs that the packet traveled through
- * 
+ *
  * Based on the Meshtastic protobuf definition:
  * message RouteDiscovery {
- *   repeated fixed32 route = 1; // Node IDs in the route (little-endian 32-bit)
+ *   repeated fixed32 route = 1;       // Node IDs towards the destination
+ *   repeated int32 snr_towards = 2;   // SNR (dB * 4) received at each hop towards the destination
+ *   repeated fixed32 route_back = 3;  // Node IDs on the way back to the origin
+ *   repeated int32 snr_back = 4;      // SNR (dB * 4) received at each hop on the way back
  * }
+ *
+ * Repeated fields may be packed (one length-delimited field) or sent one
+ * value per field; both are handled by the generic decoder.
  */
 
+import { hexToBytes } from './protobuf';
+import { decodeMessage, ROUTE_DISCOVERY } from './meshtasticMessages';
+
 export interface TracerouteData {
   route: number[]; // Array of node IDs in the route (intermediate hops)
+  snr_towards?: number[]; // One more entry than route when the destination was reached
+  route_back?: number[]; // Intermediate hops of the reply, only present on responses
+  snr_back?: number[];
+}
+
+// Firmware records INT8_MIN for hops where the SNR wasn't known
+const SNR_UNKNOWN = -128;
+
+/**
+ * Convert a raw RouteDiscovery SNR value to dB, or null if the hop didn't record one
+ */
+export function snrToDb(raw: number | undefined): number | null {
+  if (raw === undefined || raw === SNR_UNKNOWN) return null;
+  return raw / 4;
+}
+
+/**
+ * Format a raw RouteDiscovery SNR value for display, e.g. "-7.25 dB"
+ */
+export function formatSnr(raw: number | undefined): string | null {
+  const db = snrToDb(raw);
+  return db === null ? null : `${db > 0 ? '+' : ''}${db} dB`;
+}
+
+function numberArray(value: unknown): number[] | undefined {
+  return Array.isArray(value) && value.every(v => typeof v === 'number') ? value : undefined;
+}
+
+/**
+ * Pull traceroute fields out of an already-decoded payload (server or local)
+ */
+export function tracerouteFromPayload(payload: Record<string, unknown>): TracerouteData | null {
+  const route = numberArray(payload.route);
+  if (!route) return null;
+  return {
+    route,
+    snr_towards: numberArray(payload.snr_towards),
+    route_back: numberArray(payload.route_back),
+    snr_back: numberArray(payload.snr_back),
+  };
 }
 
 /**
@@ -22,70 +71,21 @@ export function parseTraceroutePayload(payloadHex: string): TracerouteData | nul
       return null;
     }
 
-    // Convert hex string to byte array
-    const bytes: number[] = [];
-    for (let i = 0; i < payloadHex.length; i += 2) {
-      bytes.push(parseInt(payloadHex.substring(i, i + 2), 16));
-    }
-
-    const route: number[] = [];
-    let i = 0;
-
-    // Parse protobuf wire format
-    // Field 1 (route) is repeated fixed32
-    while (i < bytes.length) {
-      const fieldHeader = bytes[i];
-      i++;
-
-      if (fieldHeader === undefined) break;
-
-      const fieldNumber = fieldHeader >> 3;
-      const wireType = fieldHeader & 0x07;
-
-      // Field 1 is the route (repeated fixed32)
-      // Wire type 5 = 32-bit (fixed32)
-      if (fieldNumber === 1 && wireType === 5) {
-        // Read 4 bytes (little-endian fixed32)
-        if (i + 4 <= bytes.length) {
-          const nodeId = 
-            bytes[i] | 
-            (bytes[i + 1] << 8) | 
-            (bytes[i + 2] << 16) | 
-            (bytes[i + 3] << 24);
-          route.push(nodeId >>> 0); // Convert to unsigned
-          i += 4;
-        } else {
-          break;
-        }
-      } else if (wireType === 0) {
-        // Varint - skip it
-        while (i < bytes.length && bytes[i] >= 0x80) {
-          i++;
-        }
-        i++; // Skip last byte
-      } else if (wireType === 1) {
-        // 64-bit - skip 8 bytes
-        i += 8;
-      } else if (wireType === 2) {
-        // Length-delimited - read length and skip
-        let length = 0;
-        let shift = 0;
-        while (i < bytes.length) {
-          const b = bytes[i++];
-          length |= (b & 0x7f) << shift;
-          if ((b & 0x80) === 0) break;
-          shift += 7;
-        }
-        i += length;
-      } else if (wireType === 5) {
-        // 32-bit - skip 4 bytes (if not our field)
-        i += 4;
-      }
-    }
-
-    return { route };
+    const decoded = decodeMessage(hexToBytes(payloadHex), ROUTE_DISCOVERY);
+    // An empty route is valid (direct, no intermediate hops)
+    return tracerouteFromPayload({ route: [], ...decoded });
   } catch (error) {
     console.error('Error parsing traceroute payload:', error);
     return null;
   }
 }
+
+/**
+ * Use the decoded fields when they include SNR data, otherwise decode the raw
+ * bytes, which older server versions don't fully decode
+ */
+export function resolveTraceroute(payload: Record<string, unknown> | null | undefined, payloadHex: string | undefined | null): TracerouteData | null {
+  const decoded = payload ? tracerouteFromPayload(payload) : null;
+  if (decoded?.snr_towards || !payloadHex) return decoded;
+  return parseTraceroutePayload(payloadHex) ?? decoded;
+}
@@ -0,0 +1,386 @@
+// Runtime validation for data crossing the network boundary.
+// Validators check an unknown value against the shape the app expects and
+// throw a ValidationError naming the offending field.
+
+import type {
+  ClientNodeField,
+  ServerNode,
+  NodesResponse,
+  Stats,
+  Edge,
+  EdgesResponse,
+  ChatMessage,
+  ChatResponse,
+  Packet,
+  PacketsResponse,
+  PacketGateway,
+  PacketDetailResponse,
+  TracerouteRecord,
+  TracerouteResponse,
+  TopGateway,
+  TopGatewaysResponse,
+  NodeNeighbor,
+  NodeNeighborsResponse,
+  NodeGraphEdge,
+  NodeGraphResponse,
+  TopRelayNode,
+  TopRelaysResponse,
+  WsMessage,
+  WsConnectedMessage,
+  WsSubscribedMessage,
+  WsNodeMessage,
+  WsPacketMessage
+} from '../types';
+
+export type Validator<T> = (value: unknown, path: string) => T;
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `string "${value.length > 30 ? value.substring(0, 30) + '...' : value}"`;
+  return typeof value;
+}
+
+export class ValidationError extends Error {
+  path: string;
+  expected: string;
+  received: string;
+
+  constructor(path: string, expected: string, value: unknown) {
+    const received = describeValue(value);
+    super(`field "${path || '(root)'}" expected ${expected}, got ${received}`);
+    this.name = 'ValidationError';
+    this.path = path;
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export const isString: Validator<string> = (value, path) => {
+  if (typeof value !== 'string') throw new ValidationError(path, 'string', value);
+  return value;
+};
+
+export const isNumber: Validator<number> = (value, path) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new ValidationError(path, 'number', value);
+  return value;
+};
+
+export const isBoolean: Validator<boolean> = (value, path) => {
+  if (typeof value !== 'boolean') throw new ValidationError(path, 'boolean', value);
+  return value;
+};
+
+export const isUnknown: Validator<unknown> = (value) => value;
+
+export function literal<T extends string>(...allowed: T[]): Validator<T> {
+  return (value, path) => {
+    if (typeof value !== 'string' || !allowed.includes(value as T)) {
+      throw new ValidationError(path, allowed.map(v => `"${v}"`).join(' | '), value);
+    }
+    return value as T;
+  };
+}
+
+export function nullable<T>(validator: Validator<T>): Validator<T | null> {
+  return (value, path) => (value === null ? null : validator(value, path));
+}
+
+// Missing and null both count as "not provided"
+export function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+  return (value, path) => (value === undefined || value === null ? undefined : validator(value, path));
+}
+
+// Only a missing field counts as "not provided"; null reaches the validator,
+// so a field can be cleared explicitly
+export function omittable<T>(validator: Validator<T>): Validator<T | undefined> {
+  return (value, path) => (value === undefined ? undefined : validator(value, path));
+}
+
+export function arrayOf<T>(validator: Validator<T>): Validator<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) throw new ValidationError(path, 'array', value);
+    return value.map((item, index) => validator(item, `${path}[${index}]`));
+  };
+}
+
+export function recordOf<T>(validator: Validator<T>): Validator<Record<string, T>> {
+  return (value, path) => {
+    if (!isPlainObject(value)) throw new ValidationError(path, 'object', value);
+    const result: Record<string, T> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = validator(item, path ? `${path}.${key}` : key);
+    }
+    return result;
+  };
+}
+
+// Validate the listed fields of an object. Fields the app doesn't know about
+// are passed through untouched so newer backends don't break older clients.
+export function objectOf<T>(shape: { [K in keyof T]-?: Validator<T[K]> }): Validator<T> {
+  return (value, path) => {
+    if (!isPlainObject(value)) throw new ValidationError(path, 'object', value);
+    const result: Record<string, unknown> = { ...value };
+    for (const key of Object.keys(shape) as Array<keyof T & string>) {
+      const validated = shape[key](value[key], path ? `${path}.${key}` : key);
+      if (validated === undefined) {
+        delete result[key];
+      } else {
+        result[key] = validated;
+      }
+    }
+    return result as T;
+  };
+}
+
+// Packet payloads are either plain text or a decoded object with a type tag
+function payloadOf<T extends Packet['payload'] | ChatMessage['payload']>(): Validator<T> {
+  return (value, path) => {
+    if (value === undefined || value === null) return '' as T;
+    if (typeof value === 'string') return value as T;
+    if (!isPlainObject(value)) throw new ValidationError(path, 'string or object', value);
+    if ('type' in value && typeof value.type !== 'string') {
+      throw new ValidationError(`${path}.type`, 'string', value.type);
+    }
+    return value as T;
+  };
+}
+
+export const isPacketPayload = payloadOf<Packet['payload']>();
+
+const validateServerNode = objectOf<ServerNode>({
+  id: isString,
+  node_id: isNumber,
+  long_name: isString,
+  short_name: isString,
+  hw_model: isString,
+  firmware: nullable(isString),
+  role: isString,
+  last_lat: nullable(isNumber),
+  last_long: nullable(isNumber),
+  channel: isString,
+  last_update: isString,
+});
+
+const CLIENT_NODE_FIELDS: ClientNodeField[] = ['modem_preset', 'region', 'has_default_channel', 'position_approximate'];
+
+// Unknown fields pass through, but not ones the client fills in itself
+export const validateNode: Validator<ServerNode> = (value, path) => {
+  const node = validateServerNode(value, path);
+  CLIENT_NODE_FIELDS.forEach(key => delete (node as Record<string, unknown>)[key]);
+  return node;
+};
+
+export const validatePacket = objectOf<Packet>({
+  id: isNumber,
+  from_id: optional(isString),
+  to_id: optional(isString),
+  from_node_id: optional(isNumber),
+  to_node_id: optional(isNumber),
+  channel: isString,
+  portnum: isNumber,
+  timestamp: optional(isString),
+  import_time: optional(isString),
+  rx_time: optional(isNumber),
+  payload: isPacketPayload,
+  payload_hex: optional(isString),
+  gateway_count: optional(isNumber),
+});
+
+export const validateNodesResponse = objectOf<NodesResponse>({
+  nodes: arrayOf(validateNode),
+});
+
+export const validateStats = objectOf<Stats>({
+  nodes: isNumber,
+  packets: isNumber,
+  packet_seen_records: isNumber,
+  traceroutes: isNumber,
+  packets_by_portnum: recordOf(isNumber),
+  nodes_by_role: recordOf(isNumber),
+  nodes_by_hardware: recordOf(isNumber),
+  nodes_by_channel: recordOf(isNumber),
+});
+
+const validateEdge = objectOf<Edge>({
+  source: isString,
+  target: isString,
+  type: isString,
+  snr: optional(isNumber),
+  timestamp: optional(isString),
+});
+
+export const validateEdgesResponse = objectOf<EdgesResponse>({
+  edges: arrayOf(validateEdge),
+});
+
+const validateChatMessage = objectOf<ChatMessage>({
+  id: isNumber,
+  from_node_id: isNumber,
+  to_node_id: isNumber,
+  channel: isString,
+  payload: payloadOf<ChatMessage['payload']>(),
+  payload_hex: optional(isString),
+  portnum: isNumber,
+  import_time: isString,
+  gateway_count: optional(isNumber),
+});
+
+export const validateChatResponse = objectOf<ChatResponse>({
+  packets: arrayOf(validateChatMessage),
+});
+
+export const validatePacketsResponse = objectOf<PacketsResponse>({
+  packets: arrayOf(validatePacket),
+});
+
+const validatePacketGateway = objectOf<PacketGateway>({
+  node_id: isNumber,
+  node_name: optional(isString),
+  rx_rssi: optional(isNumber),
+  rx_snr: optional(isNumber),
+  hop_start: optional(isNumber),
+  hop_limit: optional(isNumber),
+  relay_node: optional(isNumber),
+});
+
+export const validatePacketDetailResponse = objectOf<PacketDetailResponse>({
+  id: isNumber,
+  from_node_id: isNumber,
+  to_node_id: isNumber,
+  channel: isString,
+  portnum: isNumber,
+  import_time: isString,
+  payload: isPacketPayload,
+  payload_hex: optional(isString),
+  hop_start: optional(isNumber),
+  hop_limit: optional(isNumber),
+  gateways: optional(arrayOf(validatePacketGateway)),
+});
+
+const validateTracerouteRecord = objectOf<TracerouteRecord>({
+  id: isNumber,
+  packet_id: isNumber,
+  gateway_node_id: isNumber,
+  done: isBoolean,
+  import_time: isString,
+  route: objectOf<TracerouteRecord['route']>({
+    type: isString,
+    route: arrayOf(isNumber),
+    snr_towards: optional(arrayOf(isNumber)),
+    route_back: optional(arrayOf(isNumber)),
+    snr_back: optional(arrayOf(isNumber)),
+    raw_hex: optional(isString),
+  }),
+  route_hex: isString,
+});
+
+export const validateTracerouteResponse = objectOf<TracerouteResponse>({
+  packet_id: isNumber,
+  traceroutes: arrayOf(validateTracerouteRecord),
+});
+
+const validateTopGateway = objectOf<TopGateway>({
+  node_id: isNumber,
+  packet_count: isNumber,
+  id: isString,
+  long_name: isString,
+  short_name: isString,
+  hw_model: isString,
+  role: isString,
+});
+
+export const validateTopGatewaysResponse = objectOf<TopGatewaysResponse>({
+  gateways: arrayOf(validateTopGateway),
+});
+
+const validateNodeNeighbor = objectOf<NodeNeighbor>({
+  node_id: isNumber,
+  packet_count: isNumber,
+});
+
+export const validateNodeNeighborsResponse = objectOf<NodeNeighborsResponse>({
+  node_id: isNumber,
+  heard_by: arrayOf(validateNodeNeighbor),
+  heard_from: arrayOf(validateNodeNeighbor),
+});
+
+const validateNodeGraphEdge = objectOf<NodeGraphEdge>({
+  source: isNumber,
+  target: isNumber,
+  packet_count: isNumber,
+});
+
+export const validateNodeGraphResponse = objectOf<NodeGraphResponse>({
+  edges: arrayOf(validateNodeGraphEdge),
+  metadata: objectOf<NodeGraphResponse['metadata']>({
+    channel: nullable(isString),
+    with_location: isBoolean,
+    hours: isNumber,
+    node_count: isNumber,
+    edge_count: isNumber,
+    generated_at: isString,
+  }),
+});
+
+const validateTopRelayNode = objectOf<TopRelayNode>({
+  node_id: isNumber,
+  packet_count: isNumber,
+});
+
+export const validateTopRelaysResponse = objectOf<TopRelaysResponse>({
+  relay_nodes: arrayOf(validateTopRelayNode),
+});
+
+const validateWsFilters = optional(recordOf(isUnknown));
+
+const validateWsConnected = objectOf<WsConnectedMessage>({
+  type: literal('connected'),
+  filters: validateWsFilters,
+});
+
+const validateWsSubscribed = objectOf<WsSubscribedMessage>({
+  type: literal('subscribed'),
+  filters: validateWsFilters,
+});
+
+const validateWsNode = objectOf<WsNodeMessage>({
+  type: literal('node'),
+  node_id: isNumber,
+  id: optional(isString),
+  long_name: optional(isString),
+  short_name: optional(isString),
+  hw_model: optional(isString),
+  firmware: omittable(nullable(isString)),
+  role: optional(isString),
+  last_lat: omittable(nullable(isNumber)),
+  last_long: omittable(nullable(isNumber)),
+  channel: optional(isString),
+  last_update: optional(isString),
+});
+
+const validateWsPacket: Validator<WsPacketMessage> = (value, path) => {
+  const packet = validatePacket(value, path);
+  return { ...packet, type: literal('packet')((packet as Partial<WsPacketMessage>).type, path ? `${path}.type` : 'type') };
+};
+
+// Validate a parsed WebSocket frame, dispatching on its type tag
+export const validateWsMessage: Validator<WsMessage> = (value, path) => {
+  if (!isPlainObject(value)) throw new ValidationError(path, 'object', value);
+  switch (value.type) {
+    case 'connected':
+      return validateWsConnected(value, path);
+    case 'subscribed':
+      return validateWsSubscribed(value, path);
+    case 'node':
+      return validateWsNode(value, path);
+    case 'packet':
+      return validateWsPacket(value, path);
+    default:
+      throw new ValidationError(path ? `${path}.type` : 'type', '"connected" | "subscribed" | "node" | "packet"', value.type);
+  }
+};
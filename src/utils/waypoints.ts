@@ -0,0 +1,87 @@
+// Waypoints shared over the mesh (WAYPOINT_APP): reading them from decoded
+// payloads, their expiry, and collapsing re-sent copies to the latest one
+
+import { COORDINATE_SCALE_FACTOR } from './constants';
+import type { DecodedPayload } from './meshtasticMessages';
+import { numberField, stringField } from '../ports/fields';
+
+export interface Waypoint {
+  id: number;
+  name: string;
+  description: string;
+  icon: string; // emoji
+  lat: number;
+  lng: number;
+  expire?: number; // seconds since epoch; absent when it never expires
+  lockedTo?: number; // only this node may edit it
+}
+
+// A waypoint as last heard, with the packet that carried it
+export interface MeshWaypoint extends Waypoint {
+  packetId: number;
+  fromNodeId?: number;
+  channel: string;
+  time: number; // ms since epoch
+}
+
+export type WaypointStatus = 'active' | 'expiring' | 'expired';
+
+export const DEFAULT_WAYPOINT_ICON = '📍';
+
+// The apps delete a waypoint by re-sending it with expire set to 1
+const DELETED_EXPIRE = 1;
+
+// Waypoints expiring within this window are flagged on the map
+const EXPIRING_SOON_MS = 60 * 60 * 1000;
+
+// The icon is a Unicode code point
+export function waypointIcon(codePoint: number | undefined): string {
+  if (!codePoint) return DEFAULT_WAYPOINT_ICON;
+  try {
+    return String.fromCodePoint(codePoint);
+  } catch {
+    return DEFAULT_WAYPOINT_ICON;
+  }
+}
+
+export function readWaypoint(payload: DecodedPayload): Waypoint | null {
+  const id = numberField(payload, 'id');
+  const latI = numberField(payload, 'latitude_i');
+  const lngI = numberField(payload, 'longitude_i');
+  if (id === undefined || latI === undefined || lngI === undefined) return null;
+
+  const expire = numberField(payload, 'expire');
+  const lockedTo = numberField(payload, 'locked_to');
+  return {
+    id,
+    name: stringField(payload, 'name') ?? '',
+    description: stringField(payload, 'description') ?? '',
+    icon: waypointIcon(numberField(payload, 'icon')),
+    lat: latI / COORDINATE_SCALE_FACTOR,
+    lng: lngI / COORDINATE_SCALE_FACTOR,
+    ...(expire ? { expire } : {}),
+    ...(lockedTo ? { lockedTo } : {}),
+  };
+}
+
+export function isWaypointDeleted(waypoint: Waypoint): boolean {
+  return waypoint.expire === DELETED_EXPIRE;
+}
+
+export function waypointStatus(waypoint: Waypoint, now: number = Date.now()): WaypointStatus {
+  if (waypoint.expire === undefined) return 'active';
+  const expiresAt = waypoint.expire * 1000;
+  if (expiresAt <= now) return 'expired';
+  return expiresAt - now <= EXPIRING_SOON_MS ? 'expiring' : 'active';
+}
+
+// Waypoints are re-broadcast and edited under the same id; keep the newest
+// copy of each and drop the ones that were deleted
+export function latestWaypoints(waypoints: MeshWaypoint[]): MeshWaypoint[] {
+  const latest = new Map<number, MeshWaypoint>();
+  waypoints.forEach(waypoint => {
+    const current = latest.get(waypoint.id);
+    if (!current || waypoint.time > current.time) latest.set(waypoint.id, waypoint);
+  });
+  return Array.from(latest.values()).filter(waypoint => !isWaypointDeleted(waypoint));
+}
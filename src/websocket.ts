@@ -0,0 +1,348 @@
+import type { Node, ServerNode, WsMessage, WsNodeMessage, WsPacketMessage } from './types';
+import { getActiveProfile } from './utils/meshProfiles';
+import { validateWsMessage } from './utils/validation';
+
+// Filters a subscriber can ask for. They are applied client-side to every
+// message, and pushed to the server as query parameters when all current
+// subscribers agree on them.
+export interface SocketFilters {
+  channel?: string;
+  portnum?: number;
+  from_node_id?: number;
+}
+
+export type ConnectionStatus = 'idle' | 'connecting' | 'connected' | 'reconnecting';
+
+export type LiveMessage = WsNodeMessage | WsPacketMessage;
+
+// Entry in the developer event console
+export interface SocketEvent {
+  id: number;
+  time: number;
+  kind: WsMessage['type'] | 'open' | 'close' | 'rejected';
+  filters?: Record<string, unknown>;
+  payload?: unknown;
+}
+
+// Snapshot consumed by the status indicator and event console
+export interface SocketState {
+  status: ConnectionStatus;
+  lastMessageAt: number | null;
+  nextReconnectAt: number | null;
+  reconnectAttempt: number;
+  // Frames dropped because they failed to parse or validate
+  rejectedCount: number;
+  events: SocketEvent[];
+}
+
+type MessageHandler = (message: LiveMessage) => void;
+
+interface Subscription {
+  filters: SocketFilters;
+  handler: MessageHandler;
+}
+
+const FILTER_KEYS: Array<keyof SocketFilters> = ['channel', 'portnum', 'from_node_id'];
+
+// Reconnect backoff: 1s, 2s, 4s ... capped at 30s, plus up to 1s of jitter
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
+
+// Keep the socket around briefly after the last unsubscribe so that quick
+// re-subscribes (view switches, StrictMode double effects) reuse it
+const IDLE_CLOSE_DELAY = 2000;
+
+// Number of events kept for the event console
+const MAX_EVENTS = 200;
+
+function matchesFilters(message: LiveMessage, filters: SocketFilters): boolean {
+  if (filters.channel && message.channel !== undefined && message.channel !== filters.channel) {
+    return false;
+  }
+  if (message.type === 'packet') {
+    if (filters.portnum !== undefined && message.portnum !== filters.portnum) return false;
+    if (filters.from_node_id !== undefined && message.from_node_id !== filters.from_node_id) return false;
+  } else if (filters.from_node_id !== undefined && message.node_id !== filters.from_node_id) {
+    return false;
+  }
+  return true;
+}
+
+// Only filters shared by every subscriber can be narrowed server-side
+function commonFilters(subscriptions: Iterable<Subscription>): URLSearchParams {
+  const subs = Array.from(subscriptions);
+  const params = new URLSearchParams();
+  if (subs.length === 0) return params;
+
+  for (const key of FILTER_KEYS) {
+    const value = subs[0].filters[key];
+    if (value === undefined || value === '') continue;
+    if (subs.every(sub => sub.filters[key] === value)) {
+      params.append(key, value.toString());
+    }
+  }
+  return params;
+}
+
+class MeshSocket {
+  private ws: WebSocket | null = null;
+  private connectedQuery: string | null = null;
+  private subscriptions = new Map<number, Subscription>();
+  private nextSubscriptionId = 1;
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private syncScheduled = false;
+  private nextEventId = 1;
+  private state: SocketState = {
+    status: 'idle',
+    lastMessageAt: null,
+    nextReconnectAt: null,
+    reconnectAttempt: 0,
+    rejectedCount: 0,
+    events: [],
+  };
+  private stateListeners = new Set<() => void>();
+
+  constructor() {
+    // Don't wait out the backoff when the browser tells us we're back online
+    window.addEventListener('online', () => {
+      if (this.state.status === 'reconnecting') {
+        this.reconnectAttempt = 0;
+        this.connect();
+      }
+    });
+  }
+
+  // Register a handler for live node/packet messages. Returns an unsubscribe function.
+  subscribe(filters: SocketFilters, handler: MessageHandler): () => void {
+    const id = this.nextSubscriptionId++;
+    this.subscriptions.set(id, { filters, handler });
+    this.scheduleSync();
+
+    return () => {
+      if (this.subscriptions.delete(id)) {
+        this.scheduleSync();
+      }
+    };
+  }
+
+  // Arrow functions so they can be handed straight to useSyncExternalStore
+  getState = (): SocketState => this.state;
+
+  onStateChange = (listener: () => void): (() => void) => {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  };
+
+  clearEvents() {
+    this.updateState({ events: [], rejectedCount: 0 });
+  }
+
+  private updateState(changes: Partial<SocketState>) {
+    this.state = { ...this.state, ...changes };
+    this.stateListeners.forEach(listener => listener());
+  }
+
+  private setStatus(status: ConnectionStatus) {
+    if (this.state.status === status) return;
+    this.updateState({
+      status,
+      reconnectAttempt: this.reconnectAttempt,
+      nextReconnectAt: status === 'reconnecting' ? this.state.nextReconnectAt : null,
+    });
+  }
+
+  private recordEvent(kind: SocketEvent['kind'], filters?: Record<string, unknown>, payload?: unknown) {
+    const event: SocketEvent = { id: this.nextEventId++, time: Date.now(), kind, filters, payload };
+    const changes: Partial<SocketState> = {
+      events: [event, ...this.state.events].slice(0, MAX_EVENTS),
+    };
+    if (kind !== 'open' && kind !== 'close' && kind !== 'rejected') {
+      changes.lastMessageAt = event.time;
+    }
+    this.updateState(changes);
+  }
+
+  private connectionFilters(): Record<string, unknown> {
+    return Object.fromEntries(new URLSearchParams(this.connectedQuery || ''));
+  }
+
+  // Batch subscription changes made in the same tick into one reconnect
+  private scheduleSync() {
+    if (this.syncScheduled) return;
+    this.syncScheduled = true;
+    queueMicrotask(() => {
+      this.syncScheduled = false;
+      this.sync();
+    });
+  }
+
+  private sync() {
+    if (this.subscriptions.size === 0) {
+      if (!this.idleTimer && (this.ws || this.reconnectTimer)) {
+        this.idleTimer = setTimeout(() => {
+          this.idleTimer = null;
+          this.disconnect();
+        }, IDLE_CLOSE_DELAY);
+      }
+      return;
+    }
+
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+
+    // Reconnect only if the server-side filters need to change
+    const query = commonFilters(this.subscriptions.values()).toString();
+    if (this.ws && this.connectedQuery === query) return;
+    if (!this.ws && this.reconnectTimer) return;
+
+    this.reconnectAttempt = 0;
+    this.connect();
+  }
+
+  private connect() {
+    this.closeSocket();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    const query = commonFilters(this.subscriptions.values()).toString();
+    const baseUrl = getActiveProfile().websocketUrl;
+    const ws = new WebSocket(query ? `${baseUrl}?${query}` : baseUrl);
+    this.ws = ws;
+    this.connectedQuery = query;
+    this.setStatus(this.reconnectAttempt > 0 ? 'reconnecting' : 'connecting');
+
+    ws.onopen = () => {
+      this.reconnectAttempt = 0;
+      this.setStatus('connected');
+      this.recordEvent('open', this.connectionFilters());
+    };
+
+    ws.onmessage = (event) => {
+      this.handleMessage(event.data);
+    };
+
+    ws.onerror = (err) => {
+      console.error('WebSocket error:', err);
+    };
+
+    ws.onclose = () => {
+      // Ignore sockets we replaced or closed on purpose
+      if (this.ws !== ws) return;
+      this.recordEvent('close', this.connectionFilters());
+      this.ws = null;
+      this.connectedQuery = null;
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect() {
+    if (this.subscriptions.size === 0) {
+      this.setStatus('idle');
+      return;
+    }
+
+    const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** this.reconnectAttempt, RECONNECT_MAX_DELAY)
+      + Math.random() * 1000;
+    this.reconnectAttempt++;
+    this.updateState({ nextReconnectAt: Date.now() + delay });
+    this.setStatus('reconnecting');
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  // Drop a frame that can't be trusted, keeping a count and a console entry
+  private rejectFrame(raw: unknown, reason: string) {
+    console.debug('WebSocket frame rejected:', reason);
+    this.recordEvent('rejected', undefined, { reason, frame: String(raw) });
+    this.updateState({ rejectedCount: this.state.rejectedCount + 1 });
+  }
+
+  private handleMessage(raw: unknown) {
+    let message: WsMessage;
+    try {
+      message = validateWsMessage(JSON.parse(String(raw)), '');
+    } catch (err) {
+      this.rejectFrame(raw, err instanceof Error ? err.message : String(err));
+      return;
+    }
+
+    if (message.type === 'connected' || message.type === 'subscribed') {
+      this.recordEvent(message.type, message.filters, message);
+      return;
+    }
+
+    this.recordEvent(message.type, this.connectionFilters(), message);
+
+    for (const { filters, handler } of Array.from(this.subscriptions.values())) {
+      if (!matchesFilters(message, filters)) continue;
+      try {
+        handler(message);
+      } catch (err) {
+        console.error('WebSocket subscriber error:', err);
+      }
+    }
+  }
+
+  private closeSocket() {
+    if (!this.ws) return;
+    const ws = this.ws;
+    this.ws = null;
+    this.connectedQuery = null;
+    if (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING) {
+      ws.close();
+    }
+  }
+
+  private disconnect() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.closeSocket();
+    this.reconnectAttempt = 0;
+    this.setStatus('idle');
+  }
+}
+
+const NODE_FIELDS: Array<keyof ServerNode> = [
+  'id', 'node_id', 'long_name', 'short_name', 'hw_model', 'firmware',
+  'role', 'last_lat', 'last_long', 'channel', 'last_update'
+];
+
+// Pick only Node fields out of a node message, leaving out the type tag and
+// anything else the server sends along. Explicit nulls are kept, so a node
+// that clears its position or firmware shows that when merged.
+export function nodeUpdateFromMessage(message: WsNodeMessage): Partial<Node> {
+  const update: Partial<Node> = {};
+  for (const key of NODE_FIELDS) {
+    if (message[key] !== undefined) {
+      (update as Record<string, unknown>)[key] = message[key];
+    }
+  }
+  return update;
+}
+
+// A node message only describes a new node if it carries every required field
+export function isCompleteNode(update: Partial<Node>): update is Node {
+  return update.node_id !== undefined &&
+    update.id !== undefined &&
+    update.long_name !== undefined &&
+    update.short_name !== undefined &&
+    update.hw_model !== undefined &&
+    update.role !== undefined &&
+    update.channel !== undefined;
+}
+
+// Single shared connection for the whole app
+export const meshSocket = new MeshSocket();
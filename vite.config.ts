@@ -1,7 +1,9 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { meshqlMock } from './mock/meshqlMock'
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  // meshqlMock serves an offline demo backend under /mock (dev and preview only)
+  plugins: [react(), meshqlMock()],
 })